@@ -0,0 +1,35 @@
+import express from 'express';
+import { usersRouter } from './routes/users';
+import { moviesRouter } from './routes/movies';
+import { rentalsRouter } from './routes/rentals';
+import { analyticsRouter } from './routes/analytics';
+import { authRouter } from './routes/auth';
+import { reviewsRouter } from './routes/reviews';
+import { authenticate, requireRole } from './auth';
+import { errorHandler, notFoundHandler } from './errors';
+import { ping } from '../lib/database';
+
+export function createApp() {
+  const app = express();
+
+  app.use(express.json());
+
+  // For load balancers and orchestrators: 503 until MongoDB answers a ping
+  app.get('/health', async (_req, res) => {
+    const health = await ping();
+    res.status(health.ok ? 200 : 503).json(health);
+  });
+
+  app.use('/auth', authRouter);
+  app.use('/users', usersRouter);
+  // Movies are public to read; writes check roles per route
+  app.use('/movies', moviesRouter);
+  app.use('/rentals', authenticate, rentalsRouter);
+  app.use('/reviews', authenticate, reviewsRouter);
+  app.use('/analytics', requireRole('staff'), analyticsRouter);
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+}
@@ -0,0 +1,53 @@
+import { Request, RequestHandler } from 'express';
+import { UserRole } from '../models/User';
+import { AuthPrincipal, hasRole, verifyAccessToken } from '../services/authService';
+import { HttpError } from './errors';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by authenticate
+      auth?: AuthPrincipal;
+    }
+  }
+}
+
+function bearerPrincipal(req: Request) {
+  const [scheme, token] = req.headers.authorization?.split(' ') ?? [];
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    throw new HttpError(401, 'Authentication required');
+  }
+  return verifyAccessToken(token);
+}
+
+// Requires a valid "Authorization: Bearer <access token>" header
+export const authenticate: RequestHandler = (req, _res, next) => {
+  req.auth = bearerPrincipal(req);
+  next();
+};
+
+// Authenticates too; admins pass every staff check and so on
+export function requireRole(role: UserRole): RequestHandler {
+  return (req, _res, next) => {
+    req.auth = bearerPrincipal(req);
+    if (!hasRole(req.auth, role)) {
+      throw new HttpError(403, `Requires the ${role} role`);
+    }
+    next();
+  };
+}
+
+export function principalOf(req: Request): AuthPrincipal {
+  if (!req.auth) {
+    throw new HttpError(401, 'Authentication required');
+  }
+  return req.auth;
+}
+
+// Customers may only act on their own account; staff on anyone's
+export function assertSelfOrStaff(req: Request, userId: unknown) {
+  const principal = principalOf(req);
+  if (String(userId) !== principal.userId && !hasRole(principal, 'staff')) {
+    throw new HttpError(403, 'Not allowed to access another user\'s data');
+  }
+}
@@ -0,0 +1,104 @@
+import mongoose from 'mongoose';
+import { ErrorRequestHandler, RequestHandler } from 'express';
+import { RentalError } from '../services/rentalService';
+import { PaginationError } from '../lib/pagination';
+import { RepositoryError } from '../repositories/repository';
+import { ReportError } from '../services/analyticsReports';
+import { AuthError } from '../services/authService';
+import { ReviewError } from '../services/reviewService';
+import { MovieSearchError } from '../models/movieSearch';
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(resource: string) {
+    super(404, `${resource} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+function isDuplicateKeyError(error: unknown): error is mongoose.mongo.MongoServerError {
+  return error instanceof mongoose.mongo.MongoServerError && error.code === 11000;
+}
+
+// Translates Mongoose/driver errors into HTTP errors so routes can just throw
+export function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+
+  if (error instanceof RentalError || error instanceof ReviewError) {
+    const status = error.code.endsWith('_NOT_FOUND') ? 404 : 409;
+    return new HttpError(status, error.message, { code: error.code });
+  }
+
+  if (error instanceof RepositoryError) {
+    const status = { INVALID_ID: 400, VALIDATION_FAILED: 400, NOT_FOUND: 404, DUPLICATE_KEY: 409 }[error.code];
+    return new HttpError(status, error.message, error.details);
+  }
+
+  if (error instanceof AuthError) {
+    if (error.code === 'ACCOUNT_LOCKED') {
+      return new HttpError(423, error.message, { code: error.code, lockedUntil: error.lockedUntil!.toISOString() });
+    }
+    return new HttpError(401, error.message, { code: error.code });
+  }
+
+  if (error instanceof PaginationError || error instanceof ReportError || error instanceof MovieSearchError) {
+    return new HttpError(400, error.message);
+  }
+
+  if (error instanceof mongoose.Error.ValidationError) {
+    const details: Record<string, string> = {};
+    Object.values(error.errors).forEach(err => {
+      details[err.path] = err.message;
+    });
+    return new HttpError(400, 'Validation failed', details);
+  }
+
+  if (error instanceof mongoose.Error.CastError) {
+    return new HttpError(400, `Invalid value for ${error.path}`, {
+      [error.path]: `Cannot cast "${error.value}" to ${error.kind}`
+    });
+  }
+
+  if (error instanceof SyntaxError && 'body' in error) {
+    return new HttpError(400, 'Malformed JSON body');
+  }
+
+  if (isDuplicateKeyError(error)) {
+    const fields = Object.keys(error.keyValue ?? {});
+    const details: Record<string, string> = {};
+    fields.forEach(field => {
+      details[field] = `${field} already exists`;
+    });
+    return new HttpError(409, 'Duplicate key', details);
+  }
+
+  return new HttpError(500, 'Internal server error');
+}
+
+export const notFoundHandler: RequestHandler = (req, _res, next) => {
+  next(new HttpError(404, `Route ${req.method} ${req.path} not found`));
+};
+
+export const errorHandler: ErrorRequestHandler = (error, _req, res, _next) => {
+  const httpError = toHttpError(error);
+  if (httpError.status >= 500) {
+    console.error('❌ Unhandled API error:', error);
+  }
+
+  res.status(httpError.status).json({
+    error: httpError.message,
+    ...(httpError.details && { details: httpError.details })
+  });
+};
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { getConnection } from '../../lib/database';
+import { hasReport, REPORTS, ReportParams, renderReport, runReport } from '../../services/analyticsReports';
+import { HttpError, NotFoundError } from '../errors';
+
+export const analyticsRouter = Router();
+
+analyticsRouter.get('/', (_req, res) => {
+  res.json(Object.values(REPORTS).map(({ name, description, params }) => ({ name, description, params })));
+});
+
+// GET /analytics/top-rated?genres=Drama&perGroup=5&format=csv
+analyticsRouter.get('/:report', async (req, res) => {
+  const { format = 'json', ...query } = req.query;
+  if (format !== 'json' && format !== 'csv') {
+    throw new HttpError(400, 'Invalid format', { format: 'format must be json or csv' });
+  }
+
+  const params: ReportParams = {};
+  Object.entries(query).forEach(([key, value]) => {
+    params[key] = Array.isArray(value) ? value.join(',') : String(value);
+  });
+
+  if (!hasReport(req.params.report)) {
+    throw new NotFoundError('Report');
+  }
+  const report = await runReport(getConnection().db, req.params.report, params);
+  if (format === 'csv') {
+    res.type('text/csv')
+      .attachment(`${report.name}.csv`)
+      .send(renderReport(report, format));
+    return;
+  }
+  res.json(report);
+});
@@ -0,0 +1,41 @@
+import { Request, Router } from 'express';
+import { User } from '../../models/User';
+import { ClientInfo, login, logout, refresh } from '../../services/authService';
+import { authenticate, principalOf } from '../auth';
+import { HttpError, NotFoundError } from '../errors';
+
+export const authRouter = Router();
+
+function clientOf(req: Request): ClientInfo {
+  return { userAgent: req.get('user-agent'), ip: req.ip };
+}
+
+function requireString(body: unknown, field: string) {
+  const value = (body as Record<string, unknown> | undefined)?.[field];
+  if (typeof value !== 'string' || !value) {
+    throw new HttpError(400, `${field} is required`, { [field]: `${field} must be a non-empty string` });
+  }
+  return value;
+}
+
+authRouter.post('/login', async (req, res) => {
+  const tokens = await login(requireString(req.body, 'email'), requireString(req.body, 'password'), clientOf(req));
+  res.json(tokens);
+});
+
+authRouter.post('/refresh', async (req, res) => {
+  res.json(await refresh(requireString(req.body, 'refreshToken'), clientOf(req)));
+});
+
+authRouter.post('/logout', async (req, res) => {
+  await logout(requireString(req.body, 'refreshToken'));
+  res.status(204).end();
+});
+
+authRouter.get('/me', authenticate, async (req, res) => {
+  const user = await User.findById(principalOf(req).userId);
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+  res.json(user.getPublicProfile());
+});
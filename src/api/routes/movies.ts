@@ -0,0 +1,132 @@
+import { Router } from 'express';
+import { Movie, IMovie } from '../../models/Movie';
+import { MovieSearchSort } from '../../models/movieSearch';
+import { getGenreStats, GenreStatsSort } from '../../services/movieStats';
+import { createReview, hasReviewSort, listReviews, REVIEW_SORTS } from '../../services/reviewService';
+import { getConnection } from '../../lib/database';
+import { HttpError, NotFoundError } from '../errors';
+import { authenticate, principalOf, requireRole } from '../auth';
+import { paginateModel } from '../../lib/pagination';
+import { parseIntParam, parseListParam, parseNumberParam, parsePageParams, pick } from '../utils';
+
+const WRITABLE_FIELDS = [
+  'title', 'year', 'genres', 'directors', 'cast', 'plot', 'runtime', 'rated', 'imdb', 'tomatoes', 'copies'
+] as const;
+
+const SORTABLE_FIELDS = ['title', 'year', 'imdb.rating', 'userRating.average', 'rentedCount'];
+const SEARCH_SORTS: MovieSearchSort[] = ['relevance', 'rating', 'year', 'title'];
+const STATS_SORTS: GenreStatsSort[] = ['movies', 'rating', 'rentals', 'genre'];
+
+export const moviesRouter = Router();
+
+moviesRouter.get('/', async (req, res) => {
+  const filter: Record<string, unknown> = {};
+  if (typeof req.query.genre === 'string') {
+    filter.genres = req.query.genre;
+  }
+
+  const page = await paginateModel(Movie, filter, parsePageParams(req.query, SORTABLE_FIELDS));
+  res.json({ ...page, items: page.items.map(movie => movie.getBasicInfo()) });
+});
+
+// Registered before /:id so "search" is not treated as an id
+moviesRouter.get('/search', async (req, res) => {
+  const { sort, cast, director } = req.query;
+  if (req.query.q !== undefined && typeof req.query.q !== 'string') {
+    throw new HttpError(400, 'Invalid q', { q: 'q must be given once' });
+  }
+  const q = req.query.q?.trim() || undefined;
+  if (sort !== undefined && !SEARCH_SORTS.includes(sort as MovieSearchSort)) {
+    throw new HttpError(400, 'Invalid sort', { sort: `sort must be one of ${SEARCH_SORTS.join(', ')}` });
+  }
+  if (sort === 'relevance' && !q) {
+    throw new HttpError(400, 'Sorting by relevance requires q', { sort: 'relevance needs a text query' });
+  }
+
+  const result = await Movie.search({
+    text: q,
+    genres: parseListParam(req.query.genres),
+    yearFrom: parseNumberParam(req.query.yearFrom, 'yearFrom'),
+    yearTo: parseNumberParam(req.query.yearTo, 'yearTo'),
+    minRating: parseNumberParam(req.query.minRating, 'minRating'),
+    maxRating: parseNumberParam(req.query.maxRating, 'maxRating'),
+    rated: parseListParam(req.query.rated),
+    cast: typeof cast === 'string' ? cast : undefined,
+    director: typeof director === 'string' ? director : undefined,
+    sort: sort as MovieSearchSort | undefined,
+    limit: parseIntParam(req.query.limit, 'limit', { min: 1, max: 100, fallback: 20 }),
+    skip: parseIntParam(req.query.skip, 'skip', { fallback: 0 })
+  });
+  res.json(result);
+});
+
+// Served from the movie_stats view; staleness says how current it is
+moviesRouter.get('/stats', async (req, res) => {
+  const { sort } = req.query;
+  if (sort !== undefined && !STATS_SORTS.includes(sort as GenreStatsSort)) {
+    throw new HttpError(400, 'Invalid sort', { sort: `sort must be one of ${STATS_SORTS.join(', ')}` });
+  }
+
+  res.json(await getGenreStats(getConnection().db, {
+    genres: parseListParam(req.query.genres),
+    sort: sort as GenreStatsSort | undefined,
+    limit: parseIntParam(req.query.limit, 'limit', { min: 1, max: 500, fallback: 50 })
+  }));
+});
+
+moviesRouter.get('/:id', async (req, res) => {
+  const movie = await Movie.findById(req.params.id);
+  if (!movie) {
+    throw new NotFoundError('Movie');
+  }
+  res.json(movie.getBasicInfo());
+});
+
+moviesRouter.post('/', requireRole('staff'), async (req, res) => {
+  const movie = await Movie.create(pick<IMovie>(req.body, WRITABLE_FIELDS));
+  res.status(201).json(movie.getBasicInfo());
+});
+
+moviesRouter.patch('/:id', requireRole('staff'), async (req, res) => {
+  const movie = await Movie.findById(req.params.id);
+  if (!movie) {
+    throw new NotFoundError('Movie');
+  }
+
+  movie.set(pick<IMovie>(req.body, WRITABLE_FIELDS));
+  await movie.save();
+  res.json(movie.getBasicInfo());
+});
+
+moviesRouter.delete('/:id', requireRole('staff'), async (req, res) => {
+  const result = await Movie.deleteOne({ _id: req.params.id });
+  if (result.deletedCount === 0) {
+    throw new NotFoundError('Movie');
+  }
+  res.status(204).end();
+});
+
+moviesRouter.get('/:id/reviews', async (req, res) => {
+  const sort = req.query.sort ?? 'helpful';
+  if (typeof sort !== 'string' || !hasReviewSort(sort)) {
+    throw new HttpError(400, 'Invalid sort', { sort: `sort must be one of ${Object.keys(REVIEW_SORTS).join(', ')}` });
+  }
+  if (!(await Movie.exists({ _id: req.params.id }))) {
+    throw new NotFoundError('Movie');
+  }
+
+  res.json(await listReviews(req.params.id, {
+    sort,
+    limit: parseIntParam(req.query.limit, 'limit', { min: 1, max: 100, fallback: 20 }),
+    cursor: typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined
+  }));
+});
+
+// The author is always the caller
+moviesRouter.post('/:id/reviews', authenticate, async (req, res) => {
+  const review = await createReview(principalOf(req).userId, String(req.params.id), {
+    stars: req.body?.stars,
+    text: req.body?.text
+  });
+  res.status(201).json(review);
+});
@@ -0,0 +1,58 @@
+import { Request, Router } from 'express';
+import { Rental } from '../../models/Rental';
+import { extendRental, rentMovie, returnMovie } from '../../services/rentalService';
+import { hasRole } from '../../services/authService';
+import { assertSelfOrStaff, principalOf } from '../auth';
+import { HttpError, NotFoundError } from '../errors';
+import { paginateModel } from '../../lib/pagination';
+import { parseIntParam, parsePageParams } from '../utils';
+
+// Mounted behind authenticate; customers only ever see their own rentals
+export const rentalsRouter = Router();
+
+async function assertOwnRental(req: Request, rentalId: string) {
+  const rental = await Rental.findById(rentalId, { user: 1 });
+  if (!rental) {
+    throw new NotFoundError('Rental');
+  }
+  assertSelfOrStaff(req, rental.user);
+}
+
+rentalsRouter.get('/', async (req, res) => {
+  const principal = principalOf(req);
+  const filter: Record<string, unknown> = {};
+  if (typeof req.query.userId === 'string') {
+    assertSelfOrStaff(req, req.query.userId);
+    filter.user = req.query.userId;
+  } else if (!hasRole(principal, 'staff')) {
+    filter.user = principal.userId;
+  }
+  if (req.query.status === 'active' || req.query.status === 'returned') {
+    filter.status = req.query.status;
+  }
+
+  res.json(await paginateModel(Rental, filter, parsePageParams(req.query, ['rentedAt', 'dueDate'], 'rentedAt desc')));
+});
+
+rentalsRouter.post('/', async (req, res) => {
+  // userId defaults to the caller; only staff rent on someone else's behalf
+  const { userId = principalOf(req).userId, movieId } = req.body ?? {};
+  if (!movieId) {
+    throw new HttpError(400, 'movieId is required');
+  }
+  assertSelfOrStaff(req, userId);
+
+  const rental = await rentMovie(userId, movieId);
+  res.status(201).json(rental);
+});
+
+rentalsRouter.post('/:id/return', async (req, res) => {
+  await assertOwnRental(req, req.params.id);
+  res.json(await returnMovie(req.params.id));
+});
+
+rentalsRouter.post('/:id/extend', async (req, res) => {
+  await assertOwnRental(req, req.params.id);
+  const days = parseIntParam(req.body?.days, 'days', { min: 1, max: 30, fallback: 7 });
+  res.json(await extendRental(req.params.id, days));
+});
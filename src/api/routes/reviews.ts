@@ -0,0 +1,39 @@
+import { Request, Router } from 'express';
+import { Review } from '../../models/Review';
+import { deleteReview, updateReview, voteHelpful } from '../../services/reviewService';
+import { assertSelfOrStaff, principalOf } from '../auth';
+import { NotFoundError } from '../errors';
+
+// Mounted behind authenticate. Reviews are listed and created under
+// /movies/:id/reviews; this router handles a single review by its id.
+export const reviewsRouter = Router();
+
+// Authors edit their own reviews; staff can moderate anyone's
+async function assertOwnReview(req: Request, reviewId: string) {
+  const review = await Review.findById(reviewId, { user: 1 });
+  if (!review) {
+    throw new NotFoundError('Review');
+  }
+  assertSelfOrStaff(req, review.user);
+}
+
+reviewsRouter.patch('/:id', async (req, res) => {
+  await assertOwnReview(req, req.params.id);
+  res.json(await updateReview(req.params.id, { stars: req.body?.stars, text: req.body?.text }));
+});
+
+reviewsRouter.delete('/:id', async (req, res) => {
+  await assertOwnReview(req, req.params.id);
+  await deleteReview(req.params.id);
+  res.status(204).end();
+});
+
+reviewsRouter.put('/:id/helpful', async (req, res) => {
+  const counted = await voteHelpful(req.params.id, principalOf(req).userId, true);
+  res.json({ counted });
+});
+
+reviewsRouter.delete('/:id/helpful', async (req, res) => {
+  const counted = await voteHelpful(req.params.id, principalOf(req).userId, false);
+  res.json({ counted });
+});
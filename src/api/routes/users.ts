@@ -0,0 +1,112 @@
+import { Request, Router } from 'express';
+import { User, IUser, USER_ROLES, UserRole } from '../../models/User';
+import { AuditLog } from '../../models/AuditLog';
+import { revokeUserSessions } from '../../services/authService';
+import { getRecommendations } from '../../services/recommendations';
+import { assertSelfOrStaff, authenticate, principalOf, requireRole } from '../auth';
+import { HttpError, NotFoundError } from '../errors';
+import { paginateModel } from '../../lib/pagination';
+import { parseIntParam, parsePageParams, pick } from '../utils';
+
+const WRITABLE_FIELDS = ['name', 'email', 'password'] as const;
+const SORTABLE_FIELDS = ['name', 'email', 'createdAt'];
+
+// The audit trail records who made the change
+const actorOf = (req: Request) => principalOf(req).userId;
+
+export const usersRouter = Router();
+
+usersRouter.get('/', requireRole('staff'), async (req, res) => {
+  const page = await paginateModel(User, {}, parsePageParams(req.query, SORTABLE_FIELDS));
+  res.json({ ...page, items: page.items.map(user => user.getPublicProfile()) });
+});
+
+usersRouter.get('/:id', authenticate, async (req, res) => {
+  assertSelfOrStaff(req, req.params.id);
+  const user = await User.findById(req.params.id);
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+  res.json(user.getPublicProfile());
+});
+
+usersRouter.get('/:id/recommendations', authenticate, async (req, res) => {
+  assertSelfOrStaff(req, req.params.id);
+  if (!(await User.exists({ _id: req.params.id }))) {
+    throw new NotFoundError('User');
+  }
+  const limit = parseIntParam(req.query.limit, 'limit', { min: 1, max: 50, fallback: 10 });
+  res.json({ items: await getRecommendations(String(req.params.id), limit) });
+});
+
+// Sign-up; role is not writable, so every new account is a customer
+usersRouter.post('/', async (req, res) => {
+  const user = await User.create(pick<IUser>(req.body, WRITABLE_FIELDS));
+  res.status(201).json(user.getPublicProfile());
+});
+
+usersRouter.patch('/:id', authenticate, async (req, res) => {
+  assertSelfOrStaff(req, req.params.id);
+  const user = await User.findById(req.params.id);
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+
+  // save() rather than findByIdAndUpdate so validators and password hashing run
+  user.set(pick<IUser>(req.body, WRITABLE_FIELDS));
+  user.$locals.actor = actorOf(req);
+  const passwordChanged = user.isModified('password');
+  await user.save();
+  if (passwordChanged) {
+    await revokeUserSessions(user._id);
+  }
+  res.json(user.getPublicProfile());
+});
+
+// Soft delete; the user disappears from every read but can be restored
+usersRouter.delete('/:id', authenticate, async (req, res) => {
+  assertSelfOrStaff(req, req.params.id);
+  const user = await User.findById(req.params.id);
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+  await user.softDelete(actorOf(req));
+  await revokeUserSessions(user._id);
+  res.status(204).end();
+});
+
+usersRouter.post('/:id/restore', requireRole('staff'), async (req, res) => {
+  const user = await User.findById(req.params.id).setOptions({ withDeleted: true });
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+  await user.restore(actorOf(req));
+  res.json(user.getPublicProfile());
+});
+
+usersRouter.get('/:id/history', requireRole('staff'), async (req, res) => {
+  const user = await User.findById(req.params.id).setOptions({ withDeleted: true });
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+  const limit = parseIntParam(req.query.limit, 'limit', { min: 1, max: 500, fallback: 50 });
+  res.json(await AuditLog.historyOf(User.collection.collectionName, user._id).limit(limit));
+});
+
+// Existing sessions are revoked so the next token carries the new role
+usersRouter.put('/:id/role', requireRole('admin'), async (req, res) => {
+  const role = req.body?.role as UserRole;
+  if (!USER_ROLES.includes(role)) {
+    throw new HttpError(400, 'Invalid role', { role: `role must be one of ${USER_ROLES.join(', ')}` });
+  }
+  const user = await User.findById(req.params.id);
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+
+  user.role = role;
+  user.$locals.actor = actorOf(req);
+  await user.save();
+  await revokeUserSessions(user._id);
+  res.json(user.getPublicProfile());
+});
@@ -0,0 +1,79 @@
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, PageOptions, parseSortSpec } from '../lib/pagination';
+import { HttpError } from './errors';
+
+// Copies only whitelisted keys from a request body to avoid mass assignment
+export function pick<T extends object>(source: unknown, fields: readonly (keyof T & string)[]): Partial<T> {
+  const result: Partial<T> = {};
+  if (!source || typeof source !== 'object') {
+    return result;
+  }
+
+  for (const field of fields) {
+    if (field in source) {
+      result[field] = (source as Record<string, unknown>)[field] as T[keyof T & string];
+    }
+  }
+  return result;
+}
+
+export function parseIntParam(value: unknown, name: string, { min = 0, max = Infinity, fallback }: {
+  min?: number;
+  max?: number;
+  fallback: number;
+}) {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new HttpError(400, `Invalid ${name}`, {
+      [name]: `${name} must be an integer between ${min} and ${max}`
+    });
+  }
+  return parsed;
+}
+
+export function parseNumberParam(value: unknown, name: string) {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new HttpError(400, `Invalid ${name}`, { [name]: `${name} must be a number` });
+  }
+  return parsed;
+}
+
+// Accepts ?genres=Action,Drama as well as repeated ?genres=Action&genres=Drama
+export function parseListParam(value: unknown) {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const values = (Array.isArray(value) ? value : [value])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+  return values.length ? values : undefined;
+}
+
+// ?limit=&cursor=&sort=name asc&total=true -> options for paginateModel
+export function parsePageParams(query: Record<string, unknown>, sortableFields: string[], defaultSort = '_id'): PageOptions {
+  const sort = typeof query.sort === 'string' && query.sort ? query.sort : defaultSort;
+  const spec = parseSortSpec(sort);
+  const invalid = spec.map(([field]) => field).filter(field => field !== '_id' && !sortableFields.includes(field));
+  if (invalid.length) {
+    throw new HttpError(400, 'Invalid sort', {
+      sort: `Cannot sort by ${invalid.join(', ')}; allowed: ${sortableFields.join(', ')}`
+    });
+  }
+
+  return {
+    sort: spec,
+    limit: parseIntParam(query.limit, 'limit', { min: 1, max: MAX_PAGE_SIZE, fallback: DEFAULT_PAGE_SIZE }),
+    cursor: typeof query.cursor === 'string' && query.cursor ? query.cursor : undefined,
+    includeTotal: query.total === 'true'
+  };
+}
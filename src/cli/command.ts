@@ -0,0 +1,117 @@
+import { BSON, Db, MongoClient } from 'mongodb';
+import { AppConfig } from '../lib/config';
+import { connect, disconnect } from '../lib/database';
+
+export interface GlobalOptions {
+  config: AppConfig;
+  db: string;
+  json: boolean;
+  dryRun: boolean;
+}
+
+export interface CommandContext {
+  options: GlobalOptions;
+  // Positional arguments after the command path
+  args: string[];
+  flags: Record<string, string | boolean | undefined>;
+  client(): Promise<MongoClient>;
+  db(): Promise<Db>;
+  // Connects the shared Mongoose connection used by the models
+  models(): Promise<void>;
+}
+
+export interface CommandOutput {
+  // Printed as Extended JSON with --json
+  data: unknown;
+  // Human-readable rendering; defaults to the JSON form
+  lines?: string[];
+}
+
+export interface Command {
+  path: string[];
+  usage: string;
+  description: string;
+  run(context: CommandContext): Promise<CommandOutput>;
+}
+
+// Bad invocation rather than a failed operation; exits with status 2
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export function stringFlag(context: CommandContext, name: string, required: true): string;
+export function stringFlag(context: CommandContext, name: string, required?: false): string | undefined;
+export function stringFlag(context: CommandContext, name: string, required = false) {
+  const value = context.flags[name];
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (required) {
+    throw new UsageError(`--${name} is required`);
+  }
+  return undefined;
+}
+
+export function numberFlag(context: CommandContext, name: string, fallback?: number) {
+  const value = stringFlag(context, name);
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new UsageError(`--${name} must be a number`);
+  }
+  return parsed;
+}
+
+// --filter '{"year": {"$gte": 2000}}' etc.; Extended JSON so $oid/$date work
+export function jsonFlag(context: CommandContext, name: string) {
+  const value = stringFlag(context, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  try {
+    return BSON.EJSON.parse(value, { relaxed: true }) as Record<string, unknown>;
+  } catch {
+    throw new UsageError(`--${name} must be valid JSON`);
+  }
+}
+
+export function requireArg(context: CommandContext, index: number, name: string) {
+  const value = context.args[index];
+  if (!value) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+export function createContext(
+  options: GlobalOptions,
+  args: string[],
+  flags: CommandContext['flags']
+): CommandContext & { close(): Promise<void> } {
+  // The driver client and the models share one connection, opened on first use
+  const connection = () => connect(options.config.mongo);
+
+  return {
+    options,
+    args,
+    flags,
+    async client() {
+      return (await connection()).client;
+    },
+    async db() {
+      return (await connection()).db;
+    },
+    async models() {
+      await connection();
+    },
+    close() {
+      // A failed connect was already reported by the command itself
+      return disconnect();
+    }
+  };
+}
@@ -0,0 +1,62 @@
+import fs from 'fs/promises';
+import { REPORTS, ReportError, ReportFormat, ReportParams, renderReport, runReport } from '../../services/analyticsReports';
+import { Command, requireArg, stringFlag, UsageError } from '../command';
+
+const REPORT_FORMATS: ReportFormat[] = ['json', 'csv'];
+
+// Report parameters are positional key=value pairs, e.g. genres=Drama,Crime
+function parseParams(args: string[]): ReportParams {
+  const params: ReportParams = {};
+  for (const arg of args) {
+    const separator = arg.indexOf('=');
+    if (separator < 1) {
+      throw new UsageError(`Expected key=value, got "${arg}"`);
+    }
+    params[arg.slice(0, separator)] = arg.slice(separator + 1);
+  }
+  return params;
+}
+
+export const analyticsCommands: Command[] = [
+  {
+    path: ['analytics', 'list'],
+    usage: 'analytics list',
+    description: 'List the available analytics reports and their parameters',
+    async run() {
+      const reports = Object.values(REPORTS).map(({ name, description, params }) => ({ name, description, params }));
+      return {
+        data: reports,
+        lines: reports.map(report => `${report.name.padEnd(20)} ${report.description} [${report.params.join(', ')}]`)
+      };
+    }
+  },
+  {
+    path: ['analytics'],
+    usage: 'analytics <report> [key=value ...] [--format json|csv] [--out file]',
+    description: 'Run an analytics report, e.g. analytics top-rated genres=Drama perGroup=5',
+    async run(context) {
+      const name = requireArg(context, 0, 'report');
+      const format = (stringFlag(context, 'format') ?? 'json') as ReportFormat;
+      if (!REPORT_FORMATS.includes(format)) {
+        throw new UsageError(`--format must be one of ${REPORT_FORMATS.join(', ')}`);
+      }
+
+      let report;
+      try {
+        report = await runReport(await context.db(), name, parseParams(context.args.slice(1)));
+      } catch (error) {
+        throw error instanceof ReportError ? new UsageError(error.message) : error;
+      }
+
+      const out = stringFlag(context, 'out');
+      if (out) {
+        await fs.writeFile(out, renderReport(report, format));
+        return {
+          data: { report: name, rows: report.rows.length, file: out },
+          lines: [`✅ ${report.rows.length} rows written to ${out}`]
+        };
+      }
+      return { data: report, lines: [renderReport(report, format).trimEnd()] };
+    }
+  }
+];
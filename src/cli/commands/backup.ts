@@ -0,0 +1,122 @@
+import {
+  BackupFormat,
+  createBackup,
+  DEFAULT_BACKUP_DIR,
+  listBackups,
+  readManifest,
+  restoreBackup,
+  selectCollections,
+  verifyBackup
+} from '../../services/backup';
+import { Command, requireArg, stringFlag, UsageError } from '../command';
+
+const FORMATS: BackupFormat[] = ['bson', 'ejson'];
+
+const listFlag = (value: string | undefined) => value?.split(',').map(item => item.trim()).filter(Boolean);
+
+// --rename movies:movies_copy,users:users_copy
+function renameFlag(value: string | undefined) {
+  const pairs = listFlag(value)?.map(pair => pair.split(':'));
+  if (pairs?.some(pair => pair.length !== 2 || !pair[0] || !pair[1])) {
+    throw new UsageError('--rename takes from:to pairs separated by commas');
+  }
+  return pairs && Object.fromEntries(pairs);
+}
+
+export const backupCommands: Command[] = [
+  {
+    path: ['backup', 'create'],
+    usage: 'backup create [collection ...] [--out dir] [--format bson|ejson] [--no-snapshot]',
+    description: 'Snapshot collections (all by default) with their options and indexes to gzipped files and a manifest',
+    async run(context) {
+      const format = (stringFlag(context, 'format') ?? 'bson') as BackupFormat;
+      if (!FORMATS.includes(format)) {
+        throw new UsageError(`--format must be one of ${FORMATS.join(', ')}`);
+      }
+
+      const result = await createBackup(await context.client(), context.options.db, {
+        collections: context.args.length ? context.args : undefined,
+        outputDir: stringFlag(context, 'out'),
+        format,
+        snapshot: context.flags['no-snapshot'] !== true,
+        onProgress: context.options.json ? undefined : ({ collection, documents }) => {
+          process.stderr.write(`\r💾 ${collection}: ${documents}`.padEnd(60));
+        }
+      });
+
+      const total = result.manifest.collections.reduce((sum, entry) => sum + entry.documents, 0);
+      return {
+        data: result,
+        lines: [
+          '',
+          `✅ Backed up ${result.manifest.collections.length} collection(s), ${total} documents, to ${result.dir} in ${result.durationMs}ms`
+        ]
+      };
+    }
+  },
+  {
+    path: ['backup', 'restore'],
+    usage: 'backup restore <dir> [--target-db name] [--include a,b*] [--exclude c] [--rename from:to,...] [--drop] [--no-indexes]',
+    description: 'Restore a backup into this or another database; --dry-run shows what would be restored',
+    async run(context) {
+      const dir = requireArg(context, 0, 'dir');
+      const options = {
+        include: listFlag(stringFlag(context, 'include')),
+        exclude: listFlag(stringFlag(context, 'exclude')),
+        rename: renameFlag(stringFlag(context, 'rename')),
+        drop: context.flags.drop === true,
+        indexes: context.flags['no-indexes'] !== true
+      };
+      const target = stringFlag(context, 'target-db') ?? context.options.db;
+
+      if (context.options.dryRun) {
+        const selected = selectCollections(await readManifest(dir), options);
+        const plan = selected.map(entry => ({ from: entry.name, to: options.rename?.[entry.name] ?? entry.name, documents: entry.documents }));
+        return {
+          data: { database: target, drop: options.drop, collections: plan },
+          lines: plan.length
+            ? plan.map(({ from, to, documents }) =>
+              `Would ${options.drop ? 'drop and ' : ''}restore ${from} → ${target}.${to} (${documents} documents)`)
+            : ['Nothing matches the filters']
+        };
+      }
+
+      const result = await restoreBackup((await context.client()).db(target), dir, {
+        ...options,
+        onProgress: context.options.json ? undefined : ({ collection, documents }) => {
+          process.stderr.write(`\r♻️ ${collection}: ${documents}`.padEnd(60));
+        }
+      });
+
+      const lines = result.collections.map(({ from, to, inserted, duplicates, indexes }) =>
+        `✅ ${from} → ${result.database}.${to}: ${inserted} restored, ${indexes} index(es)`
+        + (duplicates ? `, ⚠️ ${duplicates} already there` : ''));
+      return { data: result, lines: ['', ...(lines.length ? lines : ['Nothing matches the filters'])] };
+    }
+  },
+  {
+    path: ['backup', 'list'],
+    usage: 'backup list [--out dir]',
+    description: `List backups in a directory (default ${DEFAULT_BACKUP_DIR}), newest first`,
+    async run(context) {
+      const backups = await listBackups(stringFlag(context, 'out'));
+      const lines = backups.map(({ dir, manifest }) =>
+        `${dir}  ${manifest.database}  ${manifest.createdAt.toISOString()}  `
+        + manifest.collections.map(entry => `${entry.name}(${entry.documents})`).join(' '));
+      return { data: backups, lines: lines.length ? lines : ['No backups'] };
+    }
+  },
+  {
+    path: ['backup', 'verify'],
+    usage: 'backup verify <dir>',
+    description: 'Check every file of a backup against the checksums in its manifest',
+    async run(context) {
+      const dir = requireArg(context, 0, 'dir');
+      const failed = await verifyBackup(dir);
+      if (failed.length) {
+        throw new Error(`Damaged or missing files for ${failed.join(', ')}`);
+      }
+      return { data: { dir, ok: true }, lines: [`✅ ${dir} is intact`] };
+    }
+  }
+];
@@ -0,0 +1,28 @@
+import { getCollection } from '../../index';
+import { Command, requireArg } from '../command';
+
+export const collectionCommands: Command[] = [
+  {
+    path: ['collections', 'list'],
+    usage: 'collections list [db]',
+    description: 'List collections with their options',
+    async run(context) {
+      const databaseName = context.args[0] ?? context.options.db;
+      const collections = await getCollection(await context.client(), databaseName);
+      return {
+        data: collections,
+        lines: collections.map(collection => `${collection.name} (${collection.type})`)
+      };
+    }
+  },
+  {
+    path: ['collections', 'count'],
+    usage: 'collections count <collection>',
+    description: 'Estimated document count of a collection',
+    async run(context) {
+      const name = requireArg(context, 0, 'collection');
+      const count = await (await context.db()).collection(name).estimatedDocumentCount();
+      return { data: { collection: name, count }, lines: [`${name}: ${count} documents`] };
+    }
+  }
+];
@@ -0,0 +1,127 @@
+import { ExportFormat, exportCollection } from '../../services/exporter';
+import { ImportFormat, ImportMode, importFile, importPresets } from '../../services/importer';
+import { generateSampleData, seedDatabase, seedDefaults } from '../../services/seeder';
+import { anonymizeInto, DEFAULT_ANONYMIZED_COLLECTIONS } from '../../services/anonymizer';
+import { Command, jsonFlag, numberFlag, requireArg, stringFlag, UsageError } from '../command';
+
+const EXPORT_FORMATS: ExportFormat[] = ['jsonl', 'csv', 'ejson'];
+
+export const dataCommands: Command[] = [
+  {
+    path: ['export'],
+    usage: 'export <collection> [--format jsonl|csv|ejson] [--out dir] [--gzip] [--filter json] [--sort json] [--limit n]',
+    description: 'Stream a collection to a file',
+    async run(context) {
+      const collection = requireArg(context, 0, 'collection');
+      const format = (stringFlag(context, 'format') ?? 'jsonl') as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        throw new UsageError(`--format must be one of ${EXPORT_FORMATS.join(', ')}`);
+      }
+
+      const result = await exportCollection(await context.db(), collection, {
+        format,
+        filter: jsonFlag(context, 'filter'),
+        projection: jsonFlag(context, 'projection'),
+        sort: jsonFlag(context, 'sort') as Record<string, 1 | -1> | undefined,
+        limit: numberFlag(context, 'limit'),
+        outputDir: stringFlag(context, 'out'),
+        gzip: context.flags.gzip === true,
+        countTotal: !context.options.json,
+        onProgress: context.options.json ? undefined : ({ exported, total }) => {
+          process.stderr.write(`\r📦 ${exported}/${total ?? '?'}`);
+        }
+      });
+
+      return {
+        data: result,
+        lines: ['', `✅ Exported ${result.exported} documents to ${result.filePath} in ${result.durationMs}ms`]
+      };
+    }
+  },
+  {
+    path: ['import'],
+    usage: 'import <collection> <file> [--format json|ejson|jsonl|csv] [--mode insert|upsert] [--key field] [--validate users|movies] [--passwords-hashed]',
+    description: 'Bulk load a file, reporting rejected rows instead of aborting',
+    async run(context) {
+      const collection = requireArg(context, 0, 'collection');
+      const file = requireArg(context, 1, 'file');
+      const preset = stringFlag(context, 'validate');
+      if (preset && !(preset in importPresets)) {
+        throw new UsageError(`--validate must be one of ${Object.keys(importPresets).join(', ')}`);
+      }
+
+      const result = await importFile(await context.db(), collection, file, {
+        ...(preset && importPresets[preset as keyof typeof importPresets]),
+        format: stringFlag(context, 'format') as ImportFormat | undefined,
+        mode: (stringFlag(context, 'mode') ?? 'insert') as ImportMode,
+        ...(stringFlag(context, 'key') && { upsertKey: stringFlag(context, 'key') }),
+        passwordsHashed: context.flags['passwords-hashed'] === true
+      });
+
+      const lines = [
+        `✅ Processed ${result.processed}: ${result.inserted} inserted, ${result.upserted} upserted, ${result.modified} updated`
+      ];
+      if (result.rejected > 0) {
+        lines.push(`⚠️ ${result.rejected} rejected, see ${result.reportPath}`);
+      }
+      return { data: result, lines };
+    }
+  },
+  {
+    path: ['seed'],
+    usage: 'seed [--seed value] [--users n] [--movies n] [--replace]',
+    description: 'Fill users, movies, rentals and reviews with deterministic fake data; --replace clears them first',
+    async run(context) {
+      const options = {
+        seed: stringFlag(context, 'seed') ?? seedDefaults.seed,
+        users: numberFlag(context, 'users', seedDefaults.users),
+        movies: numberFlag(context, 'movies', seedDefaults.movies)
+      };
+
+      if (context.options.dryRun) {
+        const data = generateSampleData(options);
+        const counts = Object.fromEntries(Object.entries(data).map(([name, docs]) => [name, docs.length]));
+        return { data: counts, lines: [`Would insert ${Object.entries(counts).map(([name, count]) => `${count} ${name}`).join(', ')}`] };
+      }
+
+      await context.models();
+      const counts = await seedDatabase({ ...options, replace: context.flags.replace === true });
+      return {
+        data: counts,
+        lines: [`✅ Seeded ${context.options.db} from "${options.seed}": ${Object.entries(counts).map(([name, count]) => `${count} ${name}`).join(', ')}`]
+      };
+    }
+  },
+  {
+    path: ['anonymize'],
+    usage: 'anonymize --target-db name [--seed value] [--collections a,b] [--replace]',
+    description: `Copy users with names, emails and passwords scrubbed into another database, plus ${DEFAULT_ANONYMIZED_COLLECTIONS.join(', ')}`,
+    async run(context) {
+      const targetName = stringFlag(context, 'target-db');
+      if (!targetName) {
+        throw new UsageError('--target-db is required');
+      }
+      const collections = stringFlag(context, 'collections')?.split(',').map(name => name.trim()).filter(Boolean);
+      const source = await context.db();
+
+      if (context.options.dryRun) {
+        const names = ['users', ...(collections ?? DEFAULT_ANONYMIZED_COLLECTIONS)];
+        const counts = Object.fromEntries(await Promise.all(names.map(async name => [name, await source.collection(name).estimatedDocumentCount()])));
+        return { data: counts, lines: names.map(name => `Would copy ~${counts[name]} ${name} to ${targetName}`) };
+      }
+
+      const result = await anonymizeInto(source, (await context.client()).db(targetName), {
+        seed: stringFlag(context, 'seed'),
+        collections,
+        replace: context.flags.replace === true
+      });
+      return {
+        data: result,
+        lines: [
+          `✅ ${result.users} users anonymized into ${result.target} in ${result.durationMs}ms`,
+          ...Object.entries(result.copied).map(([name, count]) => `   ${name}: ${count} copied`)
+        ]
+      };
+    }
+  }
+];
@@ -0,0 +1,79 @@
+import { diffIndexes, explainQueries, QUERIES, syncIndexes, unusedIndexes } from '../../services/indexManager';
+import { Command, numberFlag, UsageError } from '../command';
+
+const keyOf = (key: object) => JSON.stringify(key);
+
+export const indexCommands: Command[] = [
+  {
+    path: ['indexes', 'diff'],
+    usage: 'indexes diff',
+    description: 'Compare the indexes the models declare with the ones in the database',
+    async run(context) {
+      await context.models();
+      const diffs = await diffIndexes();
+      return {
+        data: diffs,
+        lines: diffs.flatMap(diff => [
+          `${diff.collection} (${diff.model}): ${diff.inSync.length} in sync`,
+          ...diff.missing.map(index => `  + ${index.name} ${keyOf(index.key)}`),
+          ...diff.unknown.map(index => `  - ${index.name} ${keyOf(index.key)}`)
+        ])
+      };
+    }
+  },
+  {
+    path: ['indexes', 'sync'],
+    usage: 'indexes sync [--dry-run] [--drop-unknown]',
+    description: 'Create missing indexes; unknown ones are only dropped with --drop-unknown',
+    async run(context) {
+      await context.models();
+      const { dryRun } = context.options;
+      const actions = await syncIndexes({ dryRun, dropUnknown: context.flags['drop-unknown'] === true });
+      const icons = { applied: '✅', planned: '📝', skipped: '⏭️' };
+      return {
+        data: { dryRun, actions },
+        lines: actions.length
+          ? actions.map(action => `${icons[action.status]} ${action.action} ${action.collection}.${action.name}`
+            + (action.reason ? ` (${action.reason})` : ''))
+          : ['✅ Indexes match the models']
+      };
+    }
+  },
+  {
+    path: ['indexes', 'explain'],
+    usage: 'indexes explain [query ...] [--min-examined n]',
+    description: 'Explain the registered queries and flag collection scans, in-memory sorts and poor selectivity',
+    async run(context) {
+      const unknown = context.args.filter(name => !QUERIES[name]);
+      if (unknown.length) {
+        throw new UsageError(`Unknown query ${unknown.join(', ')}; registered: ${Object.keys(QUERIES).join(', ')}`);
+      }
+      const queries = context.args.length ? context.args.map(name => QUERIES[name]) : Object.values(QUERIES);
+
+      const minExamined = numberFlag(context, 'min-examined');
+      const plans = await explainQueries(await context.db(), queries, { minExamined });
+      return {
+        data: plans,
+        lines: plans.flatMap(plan => [
+          `${plan.issues.length ? '⚠️' : '✅'} ${plan.query}: ${plan.stages.join(' <- ')}`
+          + ` (${plan.nReturned} returned, ${plan.keysExamined} keys, ${plan.docsExamined} docs, ${plan.executionTimeMs}ms)`,
+          ...plan.issues.map(issue => `   ${issue.type}: ${issue.message}`)
+        ])
+      };
+    }
+  },
+  {
+    path: ['indexes', 'unused'],
+    usage: 'indexes unused',
+    description: 'List indexes with no recorded use since the server started',
+    async run(context) {
+      const unused = await unusedIndexes(await context.db());
+      return {
+        data: unused,
+        lines: unused.length
+          ? unused.map(index => `${index.collection}.${index.name} ${keyOf(index.key)} unused since ${index.since.toISOString()} on ${index.host}`)
+          : ['✅ Every index has been used']
+      };
+    }
+  }
+];
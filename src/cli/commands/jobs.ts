@@ -0,0 +1,171 @@
+import { BSON } from 'mongodb';
+import { IJob, Job, JOB_STATUSES, JobStatus } from '../../models/Job';
+import { JobSchedule } from '../../models/JobSchedule';
+import { defaultJobHandlers, OverdueReminder } from '../../services/jobHandlers';
+import {
+  createWorker,
+  enqueue,
+  JobEvent,
+  jobCounts,
+  retryJob,
+  scheduleJob,
+  unscheduleJob
+} from '../../services/jobQueue';
+import { Command, jsonFlag, numberFlag, requireArg, stringFlag, UsageError } from '../command';
+
+function formatJob(job: IJob) {
+  const error = job.lastError ? `  ${job.lastError}` : '';
+  return `${job._id}  ${job.type.padEnd(20)} ${job.status.padEnd(9)} ${job.attempts}/${job.maxAttempts}  `
+    + `${job.runAt.toISOString()}${error}`;
+}
+
+function formatEvent(event: JobEvent) {
+  switch (event.type) {
+    case 'completed':
+      return `✅ ${event.job.type} ${event.job._id} done in ${event.durationMs}ms`;
+    case 'failed':
+      return `❌ ${event.job.type} ${event.job._id} failed (attempt ${event.job.attempts}/${event.job.maxAttempts})`
+        + `${event.willRetry ? ', will retry' : ', dead'}: ${event.error instanceof Error ? event.error.message : event.error}`;
+    case 'scheduled':
+      return `⏰ ${event.schedule} enqueued ${event.job.type} ${event.job._id}`;
+  }
+}
+
+// Until there is a mail service, reminders are printed by the worker
+function printReminder(reminder: OverdueReminder) {
+  const titles = reminder.rentals.map(rental => rental.title).join(', ');
+  console.log(`📬 Reminder for ${reminder.name} <${reminder.email}>: ${titles} overdue`);
+}
+
+export const jobCommands: Command[] = [
+  {
+    path: ['jobs', 'work'],
+    usage: 'jobs work [--types a,b] [--concurrency n] [--once]',
+    description: 'Run queued jobs until Ctrl+C (or, with --once, until none are due)',
+    async run(context) {
+      await context.models();
+      const db = await context.db();
+      const all = defaultJobHandlers(db, printReminder);
+      const types = stringFlag(context, 'types')?.split(',').map(type => type.trim()) ?? Object.keys(all);
+      const unknown = types.filter(type => !all[type]);
+      if (unknown.length) {
+        throw new UsageError(`Unknown job type(s) ${unknown.join(', ')}; choose from ${Object.keys(all).join(', ')}`);
+      }
+
+      const worker = createWorker({
+        handlers: Object.fromEntries(types.map(type => [type, all[type]])),
+        concurrency: numberFlag(context, 'concurrency', 1),
+        onEvent: event => console.log(
+          context.options.json ? BSON.EJSON.stringify({ ...event, job: event.job.toObject() }, { relaxed: true }) : formatEvent(event)
+        )
+      });
+
+      if (context.flags.once === true) {
+        const processed = await worker.runOnce();
+        return { data: { processed }, lines: [`🏁 Ran ${processed} job(s)`] };
+      }
+
+      worker.start();
+      if (!context.options.json) {
+        console.log(`👷 Worker ${worker.id} running ${types.join(', ')} (Ctrl+C to stop)`);
+      }
+      await new Promise<void>(resolve => {
+        process.once('SIGINT', resolve);
+        process.once('SIGTERM', resolve);
+      });
+      await worker.stop();
+
+      return { data: { processed: worker.processed }, lines: [`\n🛑 Stopped after ${worker.processed} job(s)`] };
+    }
+  },
+  {
+    path: ['jobs', 'enqueue'],
+    usage: 'jobs enqueue <type> [--payload <json>] [--delay ms]',
+    description: 'Queue a job, e.g. jobs enqueue export-collection --payload \'{"collection":"movies"}\'',
+    async run(context) {
+      const type = requireArg(context, 0, 'type');
+      await context.models();
+      const job = await enqueue(type, jsonFlag(context, 'payload') ?? {}, { delayMs: numberFlag(context, 'delay') });
+      return { data: job.toObject(), lines: [`📥 Queued ${job.type} ${job._id} for ${job.runAt.toISOString()}`] };
+    }
+  },
+  {
+    path: ['jobs', 'list'],
+    usage: 'jobs list [--status pending|running|completed|dead] [--type t] [--limit n]',
+    description: 'List jobs, oldest first',
+    async run(context) {
+      const status = stringFlag(context, 'status') as JobStatus | undefined;
+      if (status && !JOB_STATUSES.includes(status)) {
+        throw new UsageError(`Status must be one of ${JOB_STATUSES.join(', ')}`);
+      }
+      const type = stringFlag(context, 'type');
+      await context.models();
+      const jobs = await Job.find({ ...(status && { status }), ...(type && { type }) })
+        .sort({ runAt: 1, _id: 1 })
+        .limit(numberFlag(context, 'limit', 50)!);
+      return { data: jobs.map(job => job.toObject()), lines: jobs.length ? jobs.map(formatJob) : ['No jobs'] };
+    }
+  },
+  {
+    path: ['jobs', 'stats'],
+    usage: 'jobs stats',
+    description: 'Count jobs per type and status',
+    async run(context) {
+      await context.models();
+      const counts = await jobCounts();
+      const lines = Object.entries(counts).map(([type, byStatus]) =>
+        `${type.padEnd(20)} ${JOB_STATUSES.map(status => `${status} ${byStatus[status] ?? 0}`).join('  ')}`);
+      return { data: counts, lines: lines.length ? lines : ['No jobs'] };
+    }
+  },
+  {
+    path: ['jobs', 'retry'],
+    usage: 'jobs retry <id>',
+    description: 'Put a dead job back in the queue with fresh attempts',
+    async run(context) {
+      const id = requireArg(context, 0, 'id');
+      await context.models();
+      const job = await retryJob(id);
+      return { data: job.toObject(), lines: [`🔁 Requeued ${job.type} ${job._id}`] };
+    }
+  },
+  {
+    path: ['jobs', 'schedule'],
+    usage: 'jobs schedule <name> <cron> <type> [--payload <json>]',
+    description: 'Create or replace a recurring job, e.g. jobs schedule nightly-stats "0 3 * * *" refresh-movie-stats',
+    async run(context) {
+      const name = requireArg(context, 0, 'name');
+      const cron = requireArg(context, 1, 'cron');
+      const type = requireArg(context, 2, 'type');
+      await context.models();
+      const schedule = await scheduleJob(name, cron, type, jsonFlag(context, 'payload') ?? {});
+      return {
+        data: schedule.toObject(),
+        lines: [`⏰ ${name} runs ${type} at "${cron}" (UTC), next at ${schedule.nextRunAt.toISOString()}`]
+      };
+    }
+  },
+  {
+    path: ['jobs', 'unschedule'],
+    usage: 'jobs unschedule <name>',
+    description: 'Remove a recurring job; jobs it already queued stay queued',
+    async run(context) {
+      const name = requireArg(context, 0, 'name');
+      await context.models();
+      const removed = await unscheduleJob(name);
+      return { data: { removed }, lines: [removed ? `🗑️ Removed schedule ${name}` : `No schedule named ${name}`] };
+    }
+  },
+  {
+    path: ['jobs', 'schedules'],
+    usage: 'jobs schedules',
+    description: 'List recurring jobs and when they run next',
+    async run(context) {
+      await context.models();
+      const schedules = await JobSchedule.find().sort({ _id: 1 });
+      const lines = schedules.map(schedule => `${schedule._id.padEnd(20)} ${schedule.cron.padEnd(15)} ${schedule.type.padEnd(20)} `
+        + `${schedule.enabled ? `next ${schedule.nextRunAt.toISOString()}` : 'disabled'}`);
+      return { data: schedules.map(schedule => schedule.toObject()), lines: lines.length ? lines : ['No schedules'] };
+    }
+  }
+];
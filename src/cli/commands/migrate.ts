@@ -0,0 +1,59 @@
+import { migrateDown, migrateUp, migrationStatus } from '../../services/migrator';
+import { Command, CommandContext, UsageError } from '../command';
+
+// Progress lines would corrupt --json output on stdout
+function quietWhenJson(context: CommandContext) {
+  return context.options.json ? (message: string) => console.error(message) : console.log;
+}
+
+export const migrateCommands: Command[] = [
+  {
+    path: ['migrate', 'up'],
+    usage: 'migrate up [--dry-run]',
+    description: 'Apply all pending migrations',
+    async run(context) {
+      const { dryRun } = context.options;
+      const applied = await migrateUp(await context.db(), { dryRun, log: quietWhenJson(context) });
+      const names = applied.map(migration => migration.name);
+      return {
+        data: { dryRun, migrations: names },
+        lines: [applied.length
+          ? `✅ ${applied.length} migration(s) ${dryRun ? 'pending' : 'applied'}`
+          : '✅ Already up to date']
+      };
+    }
+  },
+  {
+    path: ['migrate', 'down'],
+    usage: 'migrate down [N] [--dry-run]',
+    description: 'Revert the last N applied migrations (default 1)',
+    async run(context) {
+      const { dryRun } = context.options;
+      const steps = context.args[0] ? Number(context.args[0]) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new UsageError(`Invalid step count "${context.args[0]}"`);
+      }
+
+      const reverted = await migrateDown(await context.db(), steps, { dryRun, log: quietWhenJson(context) });
+      return {
+        data: { dryRun, migrations: reverted.map(migration => migration.name) },
+        lines: [`✅ ${reverted.length} migration(s) ${dryRun ? 'would be reverted' : 'reverted'}`]
+      };
+    }
+  },
+  {
+    path: ['migrate', 'status'],
+    usage: 'migrate status',
+    description: 'Show applied, pending and modified migrations',
+    async run(context) {
+      const statuses = await migrationStatus(await context.db());
+      return {
+        data: statuses,
+        lines: statuses.map(status => {
+          const appliedAt = status.appliedAt ? ` (${status.appliedAt.toISOString()})` : '';
+          return `${status.state.padEnd(8)} ${status.name}${appliedAt}`;
+        })
+      };
+    }
+  }
+];
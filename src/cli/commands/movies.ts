@@ -0,0 +1,34 @@
+import { Movie } from '../../models/Movie';
+import { Command, numberFlag, requireArg, stringFlag } from '../command';
+
+export const movieCommands: Command[] = [
+  {
+    path: ['movies', 'search'],
+    usage: 'movies search <text> [--genre <genre,...>] [--min-rating n] [--limit n]',
+    description: 'Full-text search over title and plot',
+    async run(context) {
+      const text = requireArg(context, 0, 'text');
+      const genre = stringFlag(context, 'genre');
+      await context.models();
+
+      const { results, total, facets } = await Movie.search({
+        text,
+        genres: genre ? genre.split(',') : undefined,
+        minRating: numberFlag(context, 'min-rating'),
+        limit: numberFlag(context, 'limit', 10)
+      });
+
+      const topGenres = facets.genres.slice(0, 5).map(genre => `${genre.value} (${genre.count})`);
+      return {
+        data: { total, results, facets },
+        lines: results.length
+          ? [
+            ...results.map(movie => `${movie._id}  ${movie.title} (${movie.year ?? '?'}) ${movie.imdb?.rating ?? '-'}/10`),
+            '',
+            `${total} matches; top genres: ${topGenres.join(', ')}`
+          ]
+          : ['No movies found']
+      };
+    }
+  }
+];
@@ -0,0 +1,44 @@
+import { extendRental, rentMovie, returnMovie } from '../../services/rentalService';
+import { Command, numberFlag, requireArg, stringFlag } from '../command';
+
+export const rentalCommands: Command[] = [
+  {
+    path: ['rent'],
+    usage: 'rent --user <userId> --movie <movieId>',
+    description: 'Rent a movie to a user',
+    async run(context) {
+      await context.models();
+      const rental = await rentMovie(stringFlag(context, 'user', true), stringFlag(context, 'movie', true));
+      return {
+        data: rental.toObject(),
+        lines: [`✅ Rental ${rental._id} created, due ${rental.dueDate.toISOString()}`]
+      };
+    }
+  },
+  {
+    path: ['rent', 'return'],
+    usage: 'rent return <rentalId>',
+    description: 'Return a rented movie and compute late fees',
+    async run(context) {
+      await context.models();
+      const rental = await returnMovie(requireArg(context, 0, 'rentalId'));
+      return {
+        data: rental.toObject(),
+        lines: [`↩️ Returned, late fee $${(rental.lateFeeCents / 100).toFixed(2)}`]
+      };
+    }
+  },
+  {
+    path: ['rent', 'extend'],
+    usage: 'rent extend <rentalId> [--days n]',
+    description: 'Extend the due date of an active rental',
+    async run(context) {
+      await context.models();
+      const rental = await extendRental(requireArg(context, 0, 'rentalId'), numberFlag(context, 'days'));
+      return {
+        data: rental.toObject(),
+        lines: [`📅 Now due ${rental.dueDate.toISOString()}`]
+      };
+    }
+  }
+];
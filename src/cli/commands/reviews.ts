@@ -0,0 +1,15 @@
+import { recalculateUserRatings } from '../../services/reviewService';
+import { Command } from '../command';
+
+export const reviewCommands: Command[] = [
+  {
+    path: ['reviews', 'recalculate'],
+    usage: 'reviews recalculate',
+    description: 'Rebuild every movie\'s userRating from its reviews',
+    async run(context) {
+      await context.models();
+      const fixed = await recalculateUserRatings();
+      return { data: { fixed }, lines: [fixed ? `✅ Fixed the rating of ${fixed} movie(s)` : '✅ All ratings were up to date'] };
+    }
+  }
+];
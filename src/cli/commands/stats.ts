@@ -0,0 +1,56 @@
+import { getGenreStats, GenreStatsSort, refreshMovieStats } from '../../services/movieStats';
+import { Command, numberFlag, stringFlag, UsageError } from '../command';
+
+const STATS_SORTS: GenreStatsSort[] = ['movies', 'rating', 'rentals', 'genre'];
+
+export const statsCommands: Command[] = [
+  {
+    path: ['stats', 'refresh'],
+    usage: 'stats refresh [--full]',
+    description: 'Refresh movie_stats from movies changed since the last run (or all with --full)',
+    async run(context) {
+      const result = await refreshMovieStats(await context.db(), { full: context.flags.full === true });
+      if (!result) {
+        return { data: { skipped: true }, lines: ['⏳ Another refresh is running; skipped'] };
+      }
+      return {
+        data: result,
+        lines: [
+          `✅ ${result.mode} refresh: ${result.changedMovies} movies, ${result.genres} genres in ${result.durationMs}ms`
+        ]
+      };
+    }
+  },
+  {
+    path: ['stats', 'genres'],
+    usage: 'stats genres [--genre <genre,...>] [--sort movies|rating|rentals|genre] [--limit n]',
+    description: 'Show per-genre statistics from the movie_stats view',
+    async run(context) {
+      const sort = (stringFlag(context, 'sort') ?? 'movies') as GenreStatsSort;
+      if (!STATS_SORTS.includes(sort)) {
+        throw new UsageError(`--sort must be one of ${STATS_SORTS.join(', ')}`);
+      }
+      const genre = stringFlag(context, 'genre');
+
+      const { genres, staleness } = await getGenreStats(await context.db(), {
+        genres: genre ? genre.split(',') : undefined,
+        sort,
+        limit: numberFlag(context, 'limit', 20)
+      });
+
+      const freshness = staleness.refreshedAt
+        ? `refreshed ${staleness.refreshedAt.toISOString()}, ${staleness.pendingChanges} movie(s) changed since`
+        : 'never refreshed; run "stats refresh"';
+      return {
+        data: { genres, staleness },
+        lines: [
+          ...genres.map(stats =>
+            `${stats._id.padEnd(14)} ${String(stats.movies).padStart(6)} movies  `
+            + `${String(stats.avgRating ?? '-').padStart(5)}/10  ${stats.totalRentals} rentals`),
+          '',
+          `${staleness.stale ? '⚠️' : '✅'} ${freshness}`
+        ]
+      };
+    }
+  }
+];
@@ -0,0 +1,49 @@
+import {
+  basicTransactionExample,
+  batchOperationsTransaction,
+  manualTransactionExample,
+  movieRentalTransaction,
+  transactionWithRetry,
+  userProfileUpdateTransaction
+} from '../../index';
+import { rentalExamples, transactionExamples } from '../../mongoose-practice';
+import { getTransactionMetrics } from '../../lib/transaction';
+import { Command, CommandContext, requireArg, UsageError } from '../command';
+
+const DEMOS: Record<string, (context: CommandContext) => Promise<void>> = {
+  basic: async context => basicTransactionExample(await context.client(), context.options.db),
+  rental: async context => movieRentalTransaction(await context.client(), context.options.db),
+  profile: async context => userProfileUpdateTransaction(await context.client(), context.options.db),
+  batch: async context => batchOperationsTransaction(await context.client(), context.options.db),
+  rollback: async context => manualTransactionExample(await context.client(), context.options.db),
+  retry: async context => transactionWithRetry(await context.client(), context.options.db),
+  mongoose: async context => {
+    await context.models();
+    await transactionExamples();
+  },
+  rentals: async context => {
+    await context.models();
+    await rentalExamples();
+  }
+};
+
+export const txCommands: Command[] = [
+  {
+    path: ['tx', 'demo'],
+    usage: `tx demo <${Object.keys(DEMOS).join('|')}>`,
+    description: 'Run one transaction example',
+    async run(context) {
+      const name = requireArg(context, 0, 'name');
+      const demo = DEMOS[name];
+      if (!demo) {
+        throw new UsageError(`Unknown demo "${name}"; choose one of ${Object.keys(DEMOS).join(', ')}`);
+      }
+      if (context.options.dryRun) {
+        return { data: { demo: name, dryRun: true }, lines: [`🔍 Would run the ${name} transaction demo`] };
+      }
+
+      await demo(context);
+      return { data: { demo: name, metrics: getTransactionMetrics() }, lines: [] };
+    }
+  }
+];
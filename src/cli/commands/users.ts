@@ -0,0 +1,182 @@
+import { User, IUserPublicProfile, USER_ROLES, UserRole } from '../../models/User';
+import { revokeUserSessions } from '../../services/authService';
+import { getRecommendations } from '../../services/recommendations';
+import { AuditLog, IAuditLog } from '../../models/AuditLog';
+import { escapeRegex } from '../../lib/regex';
+import { paginateModel } from '../../lib/pagination';
+import { Command, CommandContext, numberFlag, requireArg, stringFlag, UsageError } from '../command';
+
+const CLI_ACTOR = 'cli';
+
+// Looks through deleted users too, so they can be restored or inspected
+async function findUser(context: CommandContext) {
+  const email = stringFlag(context, 'email');
+  const id = stringFlag(context, 'id');
+  if (!email && !id) {
+    throw new UsageError('--email or --id is required');
+  }
+
+  const query = email ? User.findByEmail(email) : User.findById(id);
+  const user = await query.setOptions({ withDeleted: true });
+  if (!user) {
+    throw new Error(`User ${email ?? id} not found`);
+  }
+  return user;
+}
+
+function formatProfile(profile: IUserPublicProfile) {
+  return `${profile._id}  ${profile.name} <${profile.email}>`;
+}
+
+export const userCommands: Command[] = [
+  {
+    path: ['users', 'create'],
+    usage: 'users create --name <name> --email <email> --password <password>',
+    description: 'Create a user (password is hashed)',
+    async run(context) {
+      await context.models();
+      const user = await User.create({
+        name: stringFlag(context, 'name', true),
+        email: stringFlag(context, 'email', true),
+        password: stringFlag(context, 'password', true)
+      });
+      const profile = user.getPublicProfile();
+      return { data: profile, lines: [`✅ Created ${profile.name} <${profile.email}> (${profile._id})`] };
+    }
+  },
+  {
+    path: ['users', 'find'],
+    usage: 'users find [--email <email>] [--name <text>] [--sort "name asc"] [--limit n] [--cursor token]',
+    description: 'Find users by exact email or name substring',
+    async run(context) {
+      await context.models();
+      const email = stringFlag(context, 'email');
+      const name = stringFlag(context, 'name');
+
+      if (email) {
+        const user = await User.findByEmail(email);
+        const profiles = user ? [user.getPublicProfile()] : [];
+        return {
+          data: profiles,
+          lines: profiles.length ? profiles.map(formatProfile) : ['No users found']
+        };
+      }
+
+      const page = await paginateModel(User, name ? { name: { $regex: escapeRegex(name), $options: 'i' } } : {}, {
+        sort: stringFlag(context, 'sort') ?? 'name asc',
+        limit: numberFlag(context, 'limit', 20),
+        cursor: stringFlag(context, 'cursor')
+      });
+
+      const profiles = page.items.map(user => user.getPublicProfile());
+      const lines = profiles.length ? profiles.map(formatProfile) : ['No users found'];
+      if (page.nextCursor) {
+        lines.push('', `More: --cursor ${page.nextCursor}`);
+      }
+      return { data: { ...page, items: profiles }, lines };
+    }
+  },
+  {
+    path: ['users', 'delete'],
+    usage: 'users delete (--email <email> | --id <id>) [--hard] [--dry-run]',
+    description: 'Soft-delete a user (--hard removes the document for good)',
+    async run(context) {
+      await context.models();
+      const user = await findUser(context);
+      const profile = user.getPublicProfile();
+      const hard = context.flags.hard === true;
+
+      if (context.options.dryRun) {
+        return {
+          data: { wouldDelete: profile, hard },
+          lines: [`🔍 Would ${hard ? 'permanently ' : ''}delete ${profile.name} <${profile.email}>`]
+        };
+      }
+
+      if (hard) {
+        await User.deleteOne({ _id: user._id }).setOptions({ actor: CLI_ACTOR });
+        return { data: { deleted: profile, hard }, lines: [`🗑️ Permanently deleted ${profile.name} <${profile.email}>`] };
+      }
+
+      await user.softDelete(CLI_ACTOR);
+      return {
+        data: { deleted: profile, hard },
+        lines: [`🗑️ Deleted ${profile.name} <${profile.email}> (undo with "users restore --id ${profile._id}")`]
+      };
+    }
+  },
+  {
+    path: ['users', 'restore'],
+    usage: 'users restore (--email <email> | --id <id>)',
+    description: 'Restore a soft-deleted user',
+    async run(context) {
+      await context.models();
+      const user = await findUser(context);
+      const profile = user.getPublicProfile();
+      if (!user.isDeleted()) {
+        return { data: { restored: null, user: profile }, lines: [`${profile.name} <${profile.email}> is not deleted`] };
+      }
+
+      await user.restore(CLI_ACTOR);
+      return { data: { restored: profile }, lines: [`♻️ Restored ${profile.name} <${profile.email}>`] };
+    }
+  },
+  {
+    path: ['users', 'role'],
+    usage: 'users role <customer|staff|admin> (--email <email> | --id <id>)',
+    description: 'Change a user\'s role and end their sessions (how the first admin is made)',
+    async run(context) {
+      const role = requireArg(context, 0, 'role') as UserRole;
+      if (!USER_ROLES.includes(role)) {
+        throw new UsageError(`Role must be one of ${USER_ROLES.join(', ')}`);
+      }
+      await context.models();
+      const user = await findUser(context);
+      user.role = role;
+      user.$locals.actor = CLI_ACTOR;
+      await user.save();
+      const revoked = await revokeUserSessions(user._id);
+
+      const profile = user.getPublicProfile();
+      return {
+        data: { user: profile, revokedSessions: revoked },
+        lines: [`✅ ${profile.name} <${profile.email}> is now ${role} (${revoked} session(s) ended)`]
+      };
+    }
+  },
+  {
+    path: ['users', 'history'],
+    usage: 'users history (--email <email> | --id <id>) [--limit n]',
+    description: 'Show the audit trail of a user, newest first',
+    async run(context) {
+      await context.models();
+      const user = await findUser(context);
+      const entries = await AuditLog.historyOf(User.collection.collectionName, user._id)
+        .limit(numberFlag(context, 'limit', 20)!)
+        .lean<IAuditLog[]>();
+
+      const lines = entries.length
+        ? entries.map(entry => {
+          const paths = entry.changes.map(change => change.path).join(', ');
+          return `${entry.at.toISOString()}  ${entry.operation.padEnd(10)} ${entry.actor ?? '-'}  ${paths}`;
+        })
+        : ['No history recorded'];
+      return { data: entries, lines };
+    }
+  },
+  {
+    path: ['users', 'recommend'],
+    usage: 'users recommend (--email <email> | --id <id>) [--limit n]',
+    description: 'Suggest movies from a user\'s rentals and reviews, with the reason for each',
+    async run(context) {
+      await context.models();
+      const user = await findUser(context);
+      const recommendations = await getRecommendations(user._id, numberFlag(context, 'limit', 10)!);
+
+      const lines = recommendations.length
+        ? recommendations.map(({ movie, explanation }) => `🎬 ${movie.title}${movie.year ? ` (${movie.year})` : ''} — ${explanation}`)
+        : ['No recommendations'];
+      return { data: recommendations, lines };
+    }
+  }
+];
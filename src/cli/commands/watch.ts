@@ -0,0 +1,68 @@
+import { BSON } from 'mongodb';
+import { createChangeListener, WatchedCollection } from '../../services/changeStreams';
+import {
+  LiveEvent,
+  newUserHandler,
+  nowRentedHandler,
+  rentalStatsHandler,
+  returnedHandler
+} from '../../services/liveEvents';
+import { Command, stringFlag, UsageError } from '../command';
+
+const COLLECTIONS: WatchedCollection[] = ['movies', 'users', 'rentals'];
+
+function formatEvent(event: LiveEvent) {
+  const time = event.at.toISOString();
+  switch (event.type) {
+    case 'now-rented':
+      return `${time}  🎬 Now rented: "${event.title}" (${event.rentedCount} rentals)`;
+    case 'new-user':
+      return `${time}  👋 New user: ${event.name} (${event.userId})`;
+    case 'returned':
+      return `${time}  📼 Returned: rental ${event.rentalId}${event.lateFeeCents ? `, late fee ${event.lateFeeCents}¢` : ''}`;
+  }
+}
+
+export const watchCommands: Command[] = [
+  {
+    path: ['watch'],
+    usage: 'watch [--collections movies,users,rentals] [--listener <name>]',
+    description: 'Stream live rental and signup events until Ctrl+C, resuming where the listener left off',
+    async run(context) {
+      const collections = (stringFlag(context, 'collections')?.split(',') ?? COLLECTIONS)
+        .map(name => name.trim()) as WatchedCollection[];
+      const unknown = collections.filter(name => !COLLECTIONS.includes(name));
+      if (unknown.length) {
+        throw new UsageError(`Cannot watch ${unknown.join(', ')}; choose from ${COLLECTIONS.join(', ')}`);
+      }
+
+      const db = await context.db();
+      const print = (event: LiveEvent) => console.log(
+        context.options.json ? BSON.EJSON.stringify(event, { relaxed: true }) : formatEvent(event)
+      );
+      const listener = createChangeListener(db, { name: stringFlag(context, 'listener') ?? 'cli-watch' });
+      if (collections.includes('movies')) {
+        listener.on(nowRentedHandler(print));
+      }
+      if (collections.includes('users')) {
+        listener.on(newUserHandler(print));
+      }
+      if (collections.includes('rentals')) {
+        listener.on(returnedHandler(print)).on(rentalStatsHandler(db));
+      }
+
+      await listener.start();
+      if (!context.options.json) {
+        console.log(`👀 Watching ${collections.join(', ')} (Ctrl+C to stop)`);
+      }
+
+      await new Promise<void>(resolve => {
+        process.once('SIGINT', resolve);
+        process.once('SIGTERM', resolve);
+      });
+      await listener.stop();
+
+      return { data: { processed: listener.processed }, lines: [`\n🛑 Stopped after ${listener.processed} changes`] };
+    }
+  }
+];
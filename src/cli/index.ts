@@ -0,0 +1,186 @@
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import { BSON } from 'mongodb';
+import { Command, createContext, UsageError } from './command';
+import { ConfigError, loadConfig } from '../lib/config';
+import { collectionCommands } from './commands/collections';
+import { dataCommands } from './commands/data';
+import { userCommands } from './commands/users';
+import { movieCommands } from './commands/movies';
+import { rentalCommands } from './commands/rentals';
+import { txCommands } from './commands/tx';
+import { migrateCommands } from './commands/migrate';
+import { watchCommands } from './commands/watch';
+import { analyticsCommands } from './commands/analytics';
+import { statsCommands } from './commands/stats';
+import { indexCommands } from './commands/indexes';
+import { reviewCommands } from './commands/reviews';
+import { jobCommands } from './commands/jobs';
+import { backupCommands } from './commands/backup';
+
+dotenv.config();
+
+const commands: Command[] = [
+  ...collectionCommands,
+  ...dataCommands,
+  ...userCommands,
+  ...movieCommands,
+  ...rentalCommands,
+  ...txCommands,
+  ...migrateCommands,
+  ...watchCommands,
+  ...analyticsCommands,
+  ...statsCommands,
+  ...indexCommands,
+  ...reviewCommands,
+  ...jobCommands,
+  ...backupCommands
+];
+
+// One flat option table; each command reads the flags it understands
+const OPTIONS = {
+  uri: { type: 'string' },
+  db: { type: 'string' },
+  json: { type: 'boolean' },
+  'dry-run': { type: 'boolean' },
+  hard: { type: 'boolean' },
+  full: { type: 'boolean' },
+  'drop-unknown': { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  name: { type: 'string' },
+  email: { type: 'string' },
+  password: { type: 'string' },
+  id: { type: 'string' },
+  user: { type: 'string' },
+  movie: { type: 'string' },
+  genre: { type: 'string' },
+  'min-rating': { type: 'string' },
+  limit: { type: 'string' },
+  cursor: { type: 'string' },
+  days: { type: 'string' },
+  format: { type: 'string' },
+  out: { type: 'string' },
+  gzip: { type: 'boolean' },
+  filter: { type: 'string' },
+  projection: { type: 'string' },
+  sort: { type: 'string' },
+  mode: { type: 'string' },
+  key: { type: 'string' },
+  validate: { type: 'string' },
+  collections: { type: 'string' },
+  listener: { type: 'string' },
+  'min-examined': { type: 'string' },
+  types: { type: 'string' },
+  concurrency: { type: 'string' },
+  once: { type: 'boolean' },
+  payload: { type: 'string' },
+  delay: { type: 'string' },
+  status: { type: 'string' },
+  type: { type: 'string' },
+  'no-snapshot': { type: 'boolean' },
+  'target-db': { type: 'string' },
+  include: { type: 'string' },
+  exclude: { type: 'string' },
+  rename: { type: 'string' },
+  drop: { type: 'boolean' },
+  'no-indexes': { type: 'boolean' },
+  seed: { type: 'string' },
+  users: { type: 'string' },
+  movies: { type: 'string' },
+  replace: { type: 'boolean' }
+} as const;
+
+function usage() {
+  return [
+    'Usage: mflix <command> [options]',
+    '',
+    'Commands:',
+    ...commands.map(command => `  ${command.usage}\n      ${command.description}`),
+    '',
+    'Global options:',
+    '  --uri <uri>   MongoDB connection string (default: $MONGODB_URI)',
+    '  --db <name>   Database name (default: $MONGODB_DB or sample_mflix)',
+    '  --json        Print results as Extended JSON',
+    '  --dry-run     Show what destructive commands would do without doing it'
+  ].join('\n');
+}
+
+// Longest matching path wins, so "rent return" beats "rent"
+function resolveCommand(positionals: string[]) {
+  const matches = commands.filter(command =>
+    command.path.every((segment, i) => positionals[i] === segment));
+  matches.sort((a, b) => b.path.length - a.path.length);
+  return matches[0];
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${usage()}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const command = resolveCommand(positionals);
+  if (values.help || !command) {
+    console.log(usage());
+    return values.help ? 0 : 2;
+  }
+
+  let config;
+  try {
+    config = loadConfig(process.env, { uri: values.uri, dbName: values.db });
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`❌ ${error.message}\n\nSet the variables in .env or pass --uri / --db`);
+      return 2;
+    }
+    throw error;
+  }
+
+  const context = createContext(
+    {
+      config,
+      db: config.mongo.dbName,
+      json: values.json ?? false,
+      dryRun: values['dry-run'] ?? false
+    },
+    positionals.slice(command.path.length),
+    values
+  );
+
+  try {
+    const output = await command.run(context);
+    if (context.options.json) {
+      console.log(BSON.EJSON.stringify(output.data, undefined, 2, { relaxed: true }));
+    } else {
+      (output.lines ?? [BSON.EJSON.stringify(output.data, undefined, 2, { relaxed: true })])
+        .forEach(line => console.log(line));
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\nUsage: mflix ${command.usage}`);
+      return 2;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (context.options.json) {
+      console.log(JSON.stringify({ error: message }));
+    } else {
+      console.error(`❌ ${message}`);
+    }
+    return 1;
+  } finally {
+    await context.close();
+  }
+}
+
+// Failures outside a command's own handling, e.g. while disconnecting
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+}).catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+});
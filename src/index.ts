@@ -1,28 +1,44 @@
 import { MongoClient } from "mongodb";
 import dotenv from "dotenv";
 import fs from "fs/promises";
+import { exportCollection } from "./services/exporter";
+import { createBackup } from "./services/backup";
+import { PageOptions, paginateCollection } from "./lib/pagination";
+import { getTransactionMetrics, runInTransaction, TransactionHooks } from "./lib/transaction";
+import { getConfig } from "./lib/config";
+import { connect, disconnect, handleShutdownSignals } from "./lib/database";
+import { createChangeListener } from "./services/changeStreams";
+import { LiveEvent, newUserHandler, nowRentedHandler } from "./services/liveEvents";
+import { createRepositories } from "./repositories";
+import { filterOf, updateOf } from "./repositories/builders";
+import type { IMovieData } from "./models/Movie";
+import type { IUserData } from "./models/User";
 
 dotenv.config();
 
 async function main() {
-  const uri = process.env.MONGODB_URI;
+  const { client, config } = await connect();
+  handleShutdownSignals();
 
-  if (!uri) {
-    throw new Error("MONGODB_URI is not set");
-  }
-
-  const client = new MongoClient(uri);
-  await client.connect();
+  // The practice and transaction demos below modify users and movies;
+  // undo them with `npm run cli -- backup restore <dir> --drop`
+  const snapshot = await createBackup(client, config.dbName, { collections: ["users", "movies"] });
+  console.log(`💾 users and movies backed up to ${snapshot.dir}`);
 
   // Original code
-  const collections = await getCollection(client, "sample_mflix")
+  const collections = await getCollection(client, config.dbName)
   await resultSaver(collections, "collections")
 
   const usersPractice = await practice(client);
   await resultSaver(usersPractice, "users_practice")
 
-  const users = await getCollectionData(client, "sample_mflix", "users")
-  await resultSaver(users, "users")
+  // Streamed to exports/ instead of buffering the whole collection in memory
+  const usersExport = await exportCollection(client.db(config.dbName), "users", {
+    format: "ejson",
+    countTotal: true,
+    onProgress: ({ exported, total }) => console.log(`📦 users: ${exported}/${total ?? "?"}`)
+  })
+  console.log(`${usersExport.filePath} saved (${usersExport.exported} documents)`);
 
   // Transaction examples
   console.log("\n=== Transaction Examples ===");
@@ -39,18 +55,29 @@ async function main() {
   // Example 4: Batch operations in transaction
   await batchOperationsTransaction(client);
 
-  await client.close();
+  // Live events instead of polling
+  await changeStreamExample(client);
+
+  await disconnect();
 }
 
+// Logs every attempt, abort and retry so the demos show the runner's behaviour
+const loggingHooks: TransactionHooks = {
+  onAbort: ({ label, attempt, durationMs, willRetry }) =>
+    console.log(`🔄 ${label}: attempt ${attempt} aborted after ${durationMs}ms${willRetry ? ", retrying" : ""}`),
+  onRetry: ({ label, delayMs, reason }) =>
+    console.log(`⏳ ${label}: ${reason}, backing off ${delayMs}ms`),
+  onCommit: ({ label, attempt, durationMs }) =>
+    console.log(`📈 ${label}: committed on attempt ${attempt} in ${durationMs}ms`)
+};
+
 // Example 1: Basic Transaction with Error Handling
-async function basicTransactionExample(client: MongoClient) {
+async function basicTransactionExample(client: MongoClient, databaseName = getConfig().mongo.dbName) {
   console.log("\n--- Basic Transaction Example ---");
   
-  const session = client.startSession();
-  
   try {
-    await session.withTransaction(async () => {
-      const db = client.db('sample_mflix');
+    await runInTransaction(async (session) => {
+      const db = client.db(databaseName);
       
       // Create a test collection for our transaction
       const testCollection = db.collection('transaction_test');
@@ -65,91 +92,69 @@ async function basicTransactionExample(client: MongoClient) {
         { name: "Transaction Test 2", timestamp: new Date() },
         { session }
       );
-      
-      console.log("✅ Basic transaction completed successfully");
-    });
+    }, { client, label: "basicTransaction", hooks: loggingHooks });
+
+    console.log("✅ Basic transaction completed successfully");
   } catch (error) {
     console.error("❌ Basic transaction failed:", error);
-  } finally {
-    await session.endSession();
   }
 }
 
 // Example 2: Movie Rental Simulation
-async function movieRentalTransaction(client: MongoClient) {
+async function movieRentalTransaction(client: MongoClient, databaseName = getConfig().mongo.dbName) {
   console.log("\n--- Movie Rental Transaction Example ---");
   
-  const session = client.startSession();
-  
   try {
-    await session.withTransaction(async () => {
-      const db = client.db('sample_mflix');
-      const moviesCollection = db.collection('movies');
-      const rentalsCollection = db.collection('rentals');
+    const title = await runInTransaction(async (session) => {
+      const { movies, rentals, users } = createRepositories(client.db(databaseName));
       
-      // Find a movie to "rent"
-      const movie = await moviesCollection.findOne(
-        { title: { $exists: true } },
-        { session }
-      );
+      // Find a movie to "rent" and someone to rent it
+      const movie = await movies.findOne(filterOf<IMovieData>().exists("title").build(), { session });
+      const user = await users.findOne({}, { session });
       
-      if (!movie) {
-        throw new Error("No movie found to rent");
+      if (!movie || !user) {
+        throw new Error("No movie or user found to rent with");
       }
       
       // Create rental record
-      const rental = {
-        movieId: movie._id,
-        movieTitle: movie.title,
-        userId: "user123",
-        rentedAt: new Date(),
-        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
-        status: "active"
-      };
-      
-      await rentalsCollection.insertOne(rental, { session });
+      await rentals.create({
+        user: user._id,
+        movie: movie._id,
+        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days from now
+      }, { session });
       
       // Update movie to mark as rented (simulate inventory)
-      await moviesCollection.updateOne(
-        { _id: movie._id },
-        { 
-          $inc: { rentedCount: 1 },
-          $set: { lastRented: new Date() }
-        },
-        { session }
-      );
+      await movies.recordRental(movie._id, { session });
       
-      console.log(`✅ Movie rental transaction completed: "${movie.title}"`);
-    });
+      return movie.title;
+    }, { client, label: "movieRental", hooks: loggingHooks });
+
+    console.log(`✅ Movie rental transaction completed: "${title}"`);
   } catch (error) {
     console.error("❌ Movie rental transaction failed:", error);
-  } finally {
-    await session.endSession();
   }
 }
 
 // Example 3: User Profile Update with Related Data
-async function userProfileUpdateTransaction(client: MongoClient) {
+async function userProfileUpdateTransaction(client: MongoClient, databaseName = getConfig().mongo.dbName) {
   console.log("\n--- User Profile Update Transaction ---");
   
-  const session = client.startSession();
-  
   try {
-    await session.withTransaction(async () => {
-      const db = client.db('sample_mflix');
-      const usersCollection = db.collection('users');
+    const user = await runInTransaction(async (session) => {
+      const db = client.db(databaseName);
+      const { users } = createRepositories(db);
       const userActivityCollection = db.collection('user_activity');
       
       // Find a user to update
-      const user = await usersCollection.findOne({}, { session });
+      const user = await users.findOne({}, { session });
       
       if (!user) {
         throw new Error("No user found to update");
       }
       
       // Update user profile
-      await usersCollection.updateOne(
-        { _id: user._id },
+      await users.updateById(
+        user._id,
         { 
           $set: { 
             lastLogin: new Date(),
@@ -168,24 +173,22 @@ async function userProfileUpdateTransaction(client: MongoClient) {
         details: "Profile updated via transaction"
       }, { session });
       
-      console.log(`✅ User profile update transaction completed for: ${user.name || user.email}`);
-    });
+      return user;
+    }, { client, label: "userProfileUpdate", hooks: loggingHooks });
+
+    console.log(`✅ User profile update transaction completed for: ${user.name || user.email}`);
   } catch (error) {
     console.error("❌ User profile update transaction failed:", error);
-  } finally {
-    await session.endSession();
   }
 }
 
 // Example 4: Batch Operations with Transaction
-async function batchOperationsTransaction(client: MongoClient) {
+async function batchOperationsTransaction(client: MongoClient, databaseName = getConfig().mongo.dbName) {
   console.log("\n--- Batch Operations Transaction ---");
   
-  const session = client.startSession();
-  
   try {
-    await session.withTransaction(async () => {
-      const db = client.db('sample_mflix');
+    await runInTransaction(async (session) => {
+      const db = client.db(databaseName);
       const batchCollection = db.collection('batch_operations');
       
       // Create multiple related documents
@@ -207,95 +210,103 @@ async function batchOperationsTransaction(client: MongoClient) {
         },
         { upsert: true, session }
       );
-      
-      console.log("✅ Batch operations transaction completed");
+    }, {
+      client,
+      label: "batchOperations",
+      hooks: loggingHooks,
+      readConcern: { level: "snapshot" },
+      writeConcern: { w: "majority" },
+      maxCommitTimeMS: 5000
     });
+
+    console.log("✅ Batch operations transaction completed");
   } catch (error) {
     console.error("❌ Batch operations transaction failed:", error);
-  } finally {
-    await session.endSession();
   }
 }
 
-// Example 5: Transaction with Manual Control (Alternative Pattern)
-async function manualTransactionExample(client: MongoClient) {
-  console.log("\n--- Manual Transaction Control Example ---");
-  
-  const session = client.startSession();
+// Example 5: Rollback on an application error
+async function manualTransactionExample(client: MongoClient, databaseName = getConfig().mongo.dbName) {
+  console.log("\n--- Transaction Rollback Example ---");
   
   try {
-    // Start transaction manually
-    session.startTransaction();
-    
-    const db = client.db('sample_mflix');
-    const collection = db.collection('manual_transaction_test');
-    
-    // Perform operations
-    await collection.insertOne(
-      { name: "Manual Transaction Test", timestamp: new Date() },
-      { session }
-    );
-    
-    // Simulate some condition that might cause rollback
-    const shouldFail = false; // Change to true to see rollback
-    if (shouldFail) {
-      throw new Error("Simulated error - transaction will rollback");
-    }
-    
-    // Commit transaction
-    await session.commitTransaction();
-    console.log("✅ Manual transaction committed successfully");
-    
+    await runInTransaction(async (session) => {
+      const db = client.db(databaseName);
+      const collection = db.collection('manual_transaction_test');
+      
+      // Perform operations
+      await collection.insertOne(
+        { name: "Manual Transaction Test", timestamp: new Date() },
+        { session }
+      );
+      
+      // Simulate some condition that might cause rollback. Application
+      // errors are never retried; the runner aborts and rethrows them.
+      const shouldFail = false; // Change to true to see rollback
+      if (shouldFail) {
+        throw new Error("Simulated error - transaction will rollback");
+      }
+    }, { client, label: "manualTransaction", hooks: loggingHooks });
+
+    console.log("✅ Transaction committed successfully");
   } catch (error) {
-    console.error("❌ Manual transaction failed:", error);
-    await session.abortTransaction();
-    console.log("🔄 Transaction rolled back");
-  } finally {
-    await session.endSession();
+    console.error("❌ Transaction failed and was rolled back:", error);
   }
 }
 
 // Example 6: Transaction with Retry Logic
-async function transactionWithRetry(client: MongoClient) {
+async function transactionWithRetry(client: MongoClient, databaseName = getConfig().mongo.dbName) {
   console.log("\n--- Transaction with Retry Logic ---");
   
-  const maxRetries = 3;
-  let retryCount = 0;
-  
-  while (retryCount < maxRetries) {
-    const session = client.startSession();
-    
-    try {
-      await session.withTransaction(async () => {
-        const db = client.db('sample_mflix');
-        const collection = db.collection('retry_test');
-        
-        await collection.insertOne({
-          attempt: retryCount + 1,
-          timestamp: new Date(),
-          message: "Transaction with retry"
-        }, { session });
-        
-        console.log(`✅ Retry transaction succeeded on attempt ${retryCount + 1}`);
-      });
-      
-      break; // Success, exit retry loop
-      
-    } catch (error) {
-      retryCount++;
-      console.error(`❌ Transaction attempt ${retryCount} failed:`, error.message);
-      
-      if (retryCount >= maxRetries) {
-        console.error("🚫 Max retries exceeded, giving up");
-        throw error;
-      }
-      
-      // Wait before retry
-      await new Promise(resolve => setTimeout(resolve, 1000));
+  try {
+    // Transient errors (write conflicts, elections) are retried with
+    // exponential backoff; the attempt number is passed to the callback.
+    await runInTransaction(async (session, attempt) => {
+      const db = client.db(databaseName);
+      const collection = db.collection('retry_test');
       
-    } finally {
-      await session.endSession();
+      await collection.insertOne({
+        attempt,
+        timestamp: new Date(),
+        message: "Transaction with retry"
+      }, { session });
+    }, { client, label: "retryTransaction", hooks: loggingHooks, maxAttempts: 3 });
+  } catch (error) {
+    console.error("🚫 Retries exhausted or non-transient error, giving up:", error);
+    throw error;
+  }
+
+  console.log("📊 Transaction metrics:", getTransactionMetrics());
+}
+
+// Example 7: Reacting to writes with a change stream
+async function changeStreamExample(client: MongoClient, databaseName = getConfig().mongo.dbName) {
+  console.log("\n--- Change Stream Example ---");
+
+  const db = client.db(databaseName);
+  const { movies } = createRepositories(db);
+  const received: LiveEvent[] = [];
+  const listener = createChangeListener(db, { name: "example" })
+    .on(nowRentedHandler(event => { received.push(event); }))
+    .on(newUserHandler(event => { received.push(event); }));
+
+  await listener.start();
+  try {
+    const movie = await movies.findOneAndUpdate(
+      filterOf<IMovieData>().exists("title").build(),
+      updateOf<IMovieData>().inc("rentedCount").set("lastRented", new Date()).build()
+    );
+
+    // Events arrive asynchronously; give the listener a moment to catch up
+    for (let waited = 0; received.length === 0 && waited < 5000; waited += 100) {
+      await new Promise(resolve => setTimeout(resolve, 100));
     }
+
+    received.forEach(event => console.log("📡 Live event:", event));
+    console.log(`✅ Change stream saw ${received.length} event(s) for "${movie?.title}"`);
+    return received;
+  } finally {
+    await listener.stop();
   }
 }
 
@@ -316,20 +327,43 @@ async function getCollection(client: MongoClient, databaseName: string) {
   return collections;
 }
 
-async function getCollectionData(client: MongoClient, databaseName: string, collectionName: string) {
+// One keyset page at a time; pass page.nextCursor back in to continue
+async function getCollectionData(
+  client: MongoClient,
+  databaseName: string,
+  collectionName: string,
+  options: PageOptions = {}
+) {
   const db = client.db(databaseName);
   const collection = db.collection(collectionName);
-  const data = await collection.find({}).toArray();
-  return data;
+  return paginateCollection(collection, {}, options);
 }
 
-async function practice(client: MongoClient) {
-  const db = client.db('sample_mflix');
-  const users = await db.collection('users').deleteOne({
-    name: "Jaime Lannister",
-  })
-  console.log(users.deletedCount)
-  return users;
+async function practice(client: MongoClient, databaseName = getConfig().mongo.dbName) {
+  const { users } = createRepositories(client.db(databaseName));
+  // Soft delete, matching the User model: the document stays restorable.
+  // The repository only matches users that are not deleted yet.
+  const result = await users.updateOne(
+    { name: "Jaime Lannister" },
+    updateOf<IUserData>().set("deletedAt", new Date()).set("deletedBy", "practice").build()
+  );
+  console.log(result.modified)
+  return result;
+}
+
+if (require.main === module) {
+  main().catch(console.error);
 }
 
-main().catch(console.error);
\ No newline at end of file
+export {
+  basicTransactionExample,
+  movieRentalTransaction,
+  userProfileUpdateTransaction,
+  batchOperationsTransaction,
+  manualTransactionExample,
+  transactionWithRetry,
+  changeStreamExample,
+  getAllDatabases,
+  getCollection,
+  getCollectionData
+};
\ No newline at end of file
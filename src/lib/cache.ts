@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import { Aggregate, Query } from 'mongoose';
+import { BSON } from 'mongodb';
+
+const { EJSON } = BSON;
+
+// The few Redis commands the cache needs, with node-redis v4 signatures,
+// so a connected redis client can be passed in as is.
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: { PX?: number }): Promise<unknown>;
+  del(key: string): Promise<number>;
+}
+
+export interface MemoryStoreOptions {
+  maxEntries?: number;
+  now?: () => number;
+}
+
+export interface CacheOptions {
+  // 0 turns caching off
+  ttlMs?: number;
+  prefix?: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+export interface QueryCache {
+  // Runs a read query (find, findOne, countDocuments, distinct) through the cache
+  query<T, TDoc>(query: Query<T, TDoc>, options?: { ttlMs?: number }): Promise<T>;
+  aggregate<T>(aggregate: Aggregate<T[]>, options?: { ttlMs?: number }): Promise<T[]>;
+  // Anything else; the result must survive EJSON
+  wrap<T>(collections: string[], key: unknown, load: () => Promise<T>, options?: { ttlMs?: number }): Promise<T>;
+  // Forgets every cached result that read from the collection
+  invalidate(collection: string): Promise<void>;
+  stats(): CacheStats;
+}
+
+const READ_OPERATIONS = ['find', 'findOne', 'countDocuments', 'estimatedDocumentCount', 'distinct'];
+
+// Query#op is set at runtime but missing from the type declarations
+const operationOf = (query: Query<unknown, unknown>) => (query as Query<unknown, unknown> & { op: string }).op;
+
+// In-process LRU: reads move a key to the back of the Map, so the first
+// key is always the least recently used one.
+export function createMemoryStore({ maxEntries = 1000, now = Date.now }: MemoryStoreOptions = {}): CacheStore & { size(): number } {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      entries.delete(key);
+      if (entry.expiresAt <= now()) {
+        return null;
+      }
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async set(key, value, options = {}) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: options.PX ? now() + options.PX : Infinity });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+      return 'OK';
+    },
+    async del(key) {
+      return entries.delete(key) ? 1 : 0;
+    },
+    size() {
+      return entries.size;
+    }
+  };
+}
+
+// Object keys in a fixed order, so { a, b } and { b, a } share an entry.
+// Arrays keep their order; it matters for sorts and pipelines.
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null)) {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])]));
+  }
+  return value;
+}
+
+export function normalizeKey(value: unknown) {
+  return EJSON.stringify({ key: sortKeys(value) }, { relaxed: false });
+}
+
+// What makes two queries return the same thing. Sort order is significant,
+// so it is kept as a list of pairs instead of an object.
+function queryKey(query: Query<unknown, unknown>) {
+  const options = query.getOptions();
+  const sort = options.sort as Record<string, unknown> | undefined;
+  return {
+    op: operationOf(query),
+    filter: query.getFilter(),
+    projection: query.projection() ?? null,
+    sort: sort ? Object.entries(sort) : null,
+    limit: options.limit ?? null,
+    skip: options.skip ?? null,
+    collation: options.collation ?? null,
+    distinct: (query as unknown as { _distinct?: string })._distinct ?? null,
+    withDeleted: (options as { withDeleted?: boolean }).withDeleted ?? false
+  };
+}
+
+// Entries are stored under a per-collection version; invalidating deletes
+// the version, and the next read picks a new random one, so the old entries
+// are never read again and age out. A version that was evicted or expired
+// is replaced the same way, which can only cause misses, never stale hits.
+export function createQueryCache(store: CacheStore, { ttlMs = 60 * 1000, prefix = 'mflix:cache' }: CacheOptions = {}): QueryCache {
+  const counters: CacheStats = { hits: 0, misses: 0 };
+  const versionKey = (collection: string) => `${prefix}:${collection}:version`;
+
+  async function versionOf(collection: string) {
+    const current = await store.get(versionKey(collection));
+    if (current) {
+      return current;
+    }
+    const version = crypto.randomBytes(6).toString('hex');
+    await store.set(versionKey(collection), version);
+    return version;
+  }
+
+  async function cached<T>(collections: string[], key: unknown, load: () => Promise<T>, ttl = ttlMs): Promise<T> {
+    if (ttl <= 0) {
+      return load();
+    }
+
+    const versions = await Promise.all(collections.map(versionOf));
+    const digest = crypto.createHash('sha1').update(normalizeKey({ versions, key })).digest('hex');
+    const entryKey = `${prefix}:${collections.join(',')}:${digest}`;
+
+    const hit = await store.get(entryKey);
+    if (hit !== null) {
+      counters.hits++;
+      return (EJSON.parse(hit, { relaxed: true }) as { value: T }).value;
+    }
+
+    counters.misses++;
+    const value = await load();
+    await store.set(entryKey, EJSON.stringify({ value }, { relaxed: false }), { PX: ttl });
+    return value;
+  }
+
+  return {
+    async query<T, TDoc>(query: Query<T, TDoc>, options: { ttlMs?: number } = {}) {
+      const op = operationOf(query);
+      if (!READ_OPERATIONS.includes(op)) {
+        throw new Error(`Only read queries can be cached (got ${op})`);
+      }
+      // Reads inside a transaction must see its own writes
+      if (query.getOptions().session) {
+        return query.exec();
+      }
+
+      // Cached as plain objects and turned back into documents on the way out
+      const model = query.model;
+      const lean = Boolean(query.mongooseOptions().lean);
+      const raw = await cached([model.collection.collectionName], { lean, ...queryKey(query) },
+        () => query.lean().exec(), options.ttlMs);
+
+      if (lean || raw === null || typeof raw !== 'object' || op === 'distinct') {
+        return raw as T;
+      }
+      return (Array.isArray(raw) ? raw.map(doc => model.hydrate(doc)) : model.hydrate(raw)) as T;
+    },
+
+    async aggregate<T>(aggregate: Aggregate<T[]>, options: { ttlMs?: number } = {}) {
+      const { session, ...aggregateOptions } = aggregate.options as { session?: unknown };
+      if (session) {
+        return aggregate.exec();
+      }
+      const collection = aggregate.model().collection.collectionName;
+      return cached([collection], { pipeline: aggregate.pipeline(), options: aggregateOptions },
+        () => aggregate.exec(), options.ttlMs);
+    },
+
+    wrap(collections, key, load, options = {}) {
+      return cached(collections, key, load, options.ttlMs);
+    },
+
+    async invalidate(collection) {
+      await store.del(versionKey(collection));
+    },
+
+    stats() {
+      return { ...counters };
+    }
+  };
+}
+
+let shared: QueryCache | undefined;
+
+// Process-wide cache, in memory unless the server swaps in another store
+export function getQueryCache(): QueryCache {
+  shared ??= createQueryCache(createMemoryStore());
+  return shared;
+}
+
+export function setQueryCache(cache: QueryCache) {
+  shared = cache;
+}
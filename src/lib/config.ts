@@ -0,0 +1,215 @@
+import fs from 'fs';
+import { ReadPreferenceMode } from 'mongodb';
+
+export interface MongoConfig {
+  uri: string;
+  dbName: string;
+  appName: string;
+  maxPoolSize: number;
+  minPoolSize: number;
+  serverSelectionTimeoutMS: number;
+  connectTimeoutMS: number;
+  // 0 means no socket timeout
+  socketTimeoutMS: number;
+  readPreference: ReadPreferenceMode;
+  tls: {
+    // Unset leaves it to the URI (mongodb+srv:// turns TLS on)
+    enabled?: boolean;
+    caFile?: string;
+    certificateKeyFile?: string;
+    allowInvalidCertificates: boolean;
+  };
+  // Startup only; once connected the driver handles reconnects itself
+  connectRetries: number;
+  connectRetryDelayMs: number;
+}
+
+export interface AuthConfig {
+  // HMAC key for access tokens; the API will not start without one
+  jwtSecret?: string;
+  accessTokenTtlSec: number;
+  refreshTokenTtlSec: number;
+  // Failed logins in a row before the account is locked
+  maxFailedLogins: number;
+  lockoutMs: number;
+}
+
+export interface CacheConfig {
+  // How long cached reads live; 0 turns the cache off
+  ttlMs: number;
+  // Entries kept by the in-memory LRU
+  maxEntries: number;
+}
+
+export interface AppConfig {
+  mongo: MongoConfig;
+  auth: AuthConfig;
+  cache: CacheConfig;
+  port: number;
+  // How long shutdown waits for in-flight operations before closing anyway
+  shutdownTimeoutMs: number;
+  // How often the API process refreshes movie_stats; 0 turns it off
+  movieStatsRefreshMs: number;
+}
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+// Values that take precedence over the environment, e.g. CLI flags
+export interface ConfigOverrides {
+  uri?: string;
+  dbName?: string;
+}
+
+const READ_PREFERENCES: ReadPreferenceMode[] = [
+  'primary',
+  'primaryPreferred',
+  'secondary',
+  'secondaryPreferred',
+  'nearest'
+];
+
+// Every problem is collected before throwing, so one run shows them all
+function createReader(env: Env, problems: string[]) {
+  const raw = (name: string) => {
+    const value = env[name]?.trim();
+    return value === '' ? undefined : value;
+  };
+
+  return {
+    string(name: string, fallback?: string) {
+      return raw(name) ?? fallback;
+    },
+    integer(name: string, fallback: number, min = 0) {
+      const value = raw(name);
+      if (value === undefined) {
+        return fallback;
+      }
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < min) {
+        problems.push(`${name} must be an integer >= ${min} (got "${value}")`);
+        return fallback;
+      }
+      return parsed;
+    },
+    boolean(name: string, fallback?: boolean) {
+      const value = raw(name)?.toLowerCase();
+      if (value === undefined) {
+        return fallback;
+      }
+      if (['true', '1', 'yes'].includes(value)) {
+        return true;
+      }
+      if (['false', '0', 'no'].includes(value)) {
+        return false;
+      }
+      problems.push(`${name} must be true or false (got "${value}")`);
+      return fallback;
+    },
+    file(name: string) {
+      const value = raw(name);
+      if (value !== undefined && !fs.existsSync(value)) {
+        problems.push(`${name} points to a missing file: ${value}`);
+      }
+      return value;
+    }
+  };
+}
+
+export function loadConfig(env: Env = process.env, overrides: ConfigOverrides = {}): AppConfig {
+  const problems: string[] = [];
+  const read = createReader(env, problems);
+
+  const uri = overrides.uri ?? read.string('MONGODB_URI');
+  if (!uri) {
+    problems.push('MONGODB_URI is required (e.g. mongodb://localhost:27017)');
+  } else if (!/^mongodb(\+srv)?:\/\//.test(uri)) {
+    problems.push('MONGODB_URI must start with mongodb:// or mongodb+srv://');
+  }
+
+  const dbName = overrides.dbName ?? read.string('MONGODB_DB', 'sample_mflix')!;
+  if (/[\/\\. "$]/.test(dbName)) {
+    problems.push(`MONGODB_DB "${dbName}" contains characters MongoDB does not allow in database names`);
+  }
+
+  const readPreference = read.string('MONGODB_READ_PREFERENCE', 'primary') as ReadPreferenceMode;
+  if (!READ_PREFERENCES.includes(readPreference)) {
+    problems.push(`MONGODB_READ_PREFERENCE must be one of ${READ_PREFERENCES.join(', ')} (got "${readPreference}")`);
+  }
+
+  const maxPoolSize = read.integer('MONGODB_MAX_POOL_SIZE', 100, 1);
+  const minPoolSize = read.integer('MONGODB_MIN_POOL_SIZE', 0);
+  if (minPoolSize > maxPoolSize) {
+    problems.push(`MONGODB_MIN_POOL_SIZE (${minPoolSize}) cannot exceed MONGODB_MAX_POOL_SIZE (${maxPoolSize})`);
+  }
+
+  const config: AppConfig = {
+    mongo: {
+      uri: uri ?? '',
+      dbName,
+      appName: read.string('MONGODB_APP_NAME', 'mflix')!,
+      maxPoolSize,
+      minPoolSize,
+      serverSelectionTimeoutMS: read.integer('MONGODB_SERVER_SELECTION_TIMEOUT_MS', 30000, 1),
+      connectTimeoutMS: read.integer('MONGODB_CONNECT_TIMEOUT_MS', 30000, 1),
+      socketTimeoutMS: read.integer('MONGODB_SOCKET_TIMEOUT_MS', 0),
+      readPreference,
+      tls: {
+        enabled: read.boolean('MONGODB_TLS'),
+        caFile: read.file('MONGODB_TLS_CA_FILE'),
+        certificateKeyFile: read.file('MONGODB_TLS_CERT_KEY_FILE'),
+        allowInvalidCertificates: read.boolean('MONGODB_TLS_ALLOW_INVALID_CERTIFICATES', false)!
+      },
+      connectRetries: read.integer('MONGODB_CONNECT_RETRIES', 5),
+      connectRetryDelayMs: read.integer('MONGODB_CONNECT_RETRY_DELAY_MS', 1000, 1)
+    },
+    auth: {
+      jwtSecret: read.string('JWT_SECRET'),
+      accessTokenTtlSec: read.integer('ACCESS_TOKEN_TTL_SEC', 15 * 60, 1),
+      refreshTokenTtlSec: read.integer('REFRESH_TOKEN_TTL_SEC', 30 * 24 * 60 * 60, 1),
+      maxFailedLogins: read.integer('MAX_FAILED_LOGINS', 5, 1),
+      lockoutMs: read.integer('LOGIN_LOCKOUT_MS', 15 * 60 * 1000)
+    },
+    cache: {
+      ttlMs: read.integer('CACHE_TTL_MS', 60 * 1000),
+      maxEntries: read.integer('CACHE_MAX_ENTRIES', 1000, 1)
+    },
+    port: read.integer('PORT', 3000, 1),
+    shutdownTimeoutMs: read.integer('SHUTDOWN_TIMEOUT_MS', 10000),
+    movieStatsRefreshMs: read.integer('MOVIE_STATS_REFRESH_MS', 5 * 60 * 1000)
+  };
+
+  if (config.port > 65535) {
+    problems.push(`PORT must be at most 65535 (got ${config.port})`);
+  }
+  if (config.auth.jwtSecret && config.auth.jwtSecret.length < 32) {
+    problems.push('JWT_SECRET must be at least 32 characters');
+  }
+  if (config.mongo.tls.enabled === false && (config.mongo.tls.caFile || config.mongo.tls.certificateKeyFile)) {
+    problems.push('MONGODB_TLS_CA_FILE / MONGODB_TLS_CERT_KEY_FILE are set but MONGODB_TLS is false');
+  }
+
+  if (problems.length) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+let cached: AppConfig | undefined;
+
+// Process-wide configuration, read from the environment on first use
+export function getConfig(): AppConfig {
+  cached ??= loadConfig();
+  return cached;
+}
+
+// The URI carries credentials; never log it as is
+export function redactUri(uri: string) {
+  return uri.replace(/\/\/([^@/]+)@/, '//***@');
+}
@@ -0,0 +1,114 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in UTC. Supports *, numbers, ranges (1-5), lists (1,15) and
+// steps (*/10, 0-30/5). Day-of-week is 0-6 with 0 (or 7) for Sunday; as in
+// classic cron, when both day fields are restricted either one matching is
+// enough.
+
+export class CronError extends Error {
+  constructor(public expression: string, message: string) {
+    super(`Invalid cron expression "${expression}": ${message}`);
+    this.name = 'CronError';
+  }
+}
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Whether the field was restricted (not *), for the day-matching rule
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+const MINUTE_MS = 60 * 1000;
+// Far enough for any valid expression (Feb 29 on a Monday can take years)
+const SEARCH_LIMIT_YEARS = 30;
+
+function parseField(expression: string, field: string, { name, min, max }: typeof FIELDS[number]) {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronError(expression, `bad step "${stepText}" in ${name}`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      [from, to] = [min, max];
+    } else {
+      // Digits only: Number('') is 0, so "1,,2" or "-5" would slip through
+      const texts = range.split('-');
+      if (texts.length > 2 || texts.some(text => !/^\d+$/.test(text))) {
+        throw new CronError(expression, `bad ${name} "${part}"`);
+      }
+      const bounds = texts.map(Number);
+      [from, to] = bounds.length === 2 ? bounds : [bounds[0], stepText === undefined ? bounds[0] : max];
+    }
+    if (from < min || to > max || from > to) {
+      throw new CronError(expression, `${name} must be within ${min}-${max} (got "${part}")`);
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError(expression, 'expected 5 fields (minute hour day month weekday)');
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseField(expression, field, FIELDS[i]));
+  // 7 is another name for Sunday
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return { expression, minutes, hours, days, months, weekdays, anyDay: fields[2] === '*', anyWeekday: fields[4] === '*' };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date) {
+  const day = schedule.days.has(date.getUTCDate());
+  const weekday = schedule.weekdays.has(date.getUTCDay());
+  if (schedule.anyDay || schedule.anyWeekday) {
+    return day && weekday;
+  }
+  return day || weekday;
+}
+
+// The first matching minute strictly after the given time. Whole days and
+// hours that cannot match are skipped instead of walking every minute.
+export function nextCronRun(cron: string | CronSchedule, after: Date): Date {
+  const schedule = typeof cron === 'string' ? parseCron(cron) : cron;
+  const time = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after.getTime() + SEARCH_LIMIT_YEARS * 366 * 24 * 60 * MINUTE_MS;
+
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(time.getUTCMonth() + 1) || !matchesDay(schedule, time)) {
+      time.setUTCHours(24, 0, 0, 0);
+    } else if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setTime(time.getTime() + MINUTE_MS);
+    } else {
+      return time;
+    }
+  }
+  throw new CronError(schedule.expression, 'never matches');
+}
@@ -0,0 +1,99 @@
+import { BSON, ObjectId } from 'mongodb';
+
+const { EJSON } = BSON;
+
+type Row = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && !(value instanceof Date) && !(value instanceof ObjectId) && !('_bsontype' in value);
+}
+
+// { imdb: { rating: 7 } } -> { 'imdb.rating': 7 }; arrays are kept whole
+export function flattenDocument(doc: Row, prefix = '', target: Row = {}): Row {
+  for (const [key, value] of Object.entries(doc)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenDocument(value, path, target);
+    } else {
+      target[path] = value;
+    }
+  }
+  return target;
+}
+
+// Inverse of flattenDocument, used when reading CSV back in
+export function unflattenRow(row: Row): Row {
+  const result: Row = {};
+  for (const [path, value] of Object.entries(row)) {
+    const keys = path.split('.');
+    let node = result;
+    keys.slice(0, -1).forEach(key => {
+      if (!isPlainObject(node[key])) {
+        node[key] = {};
+      }
+      node = node[key] as Row;
+    });
+    node[keys[keys.length - 1]] = value;
+  }
+  return result;
+}
+
+export function formatCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof ObjectId) {
+    return value.toHexString();
+  }
+  if (typeof value === 'object') {
+    return EJSON.stringify(value, { relaxed: true });
+  }
+  return String(value);
+}
+
+export function escapeCsvField(field: string) {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+export function toCsvLine(values: unknown[]) {
+  return values.map(value => escapeCsvField(formatCsvValue(value))).join(',') + '\n';
+}
+
+// Splits one CSV record (RFC 4180). Returns null while a quoted field is
+// still open so the caller can append the next physical line.
+export function parseCsvLine(line: string): string[] | null {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    return null;
+  }
+  fields.push(field);
+  return fields;
+}
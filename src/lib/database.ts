@@ -0,0 +1,225 @@
+import mongoose from 'mongoose';
+import { Db, MongoClient, MongoClientOptions, MongoNetworkError, MongoServerSelectionError } from 'mongodb';
+import { getConfig, MongoConfig, redactUri } from './config';
+import { backoffDelay } from './transaction';
+
+export interface DatabaseConnection {
+  // The MongoClient behind the shared Mongoose connection: one pool for both
+  client: MongoClient;
+  db: Db;
+  config: MongoConfig;
+}
+
+export interface HealthStatus {
+  ok: boolean;
+  state: string;
+  latencyMs?: number;
+  inFlight: number;
+  error?: string;
+}
+
+export interface DisconnectOptions {
+  // How long to wait for running operations before closing anyway
+  timeoutMs?: number;
+}
+
+type ShutdownHook = () => void | Promise<void>;
+
+export const DEFAULT_DRAIN_TIMEOUT_MS = 10000;
+
+const MAX_RETRY_DELAY_MS = 30000;
+
+let connecting: Promise<DatabaseConnection> | undefined;
+let current: DatabaseConnection | undefined;
+let shuttingDown: Promise<void> | undefined;
+let signalsHandled = false;
+const inFlight = new Set<number>();
+const shutdownHooks: ShutdownHook[] = [];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+mongoose.connection.on('error', (err) => {
+  console.error('❌ MongoDB connection error:', err);
+});
+
+// Only unexpected drops are worth reporting; disconnect() clears current first
+mongoose.connection.on('disconnected', () => {
+  if (current) {
+    console.warn('📡 MongoDB disconnected');
+  }
+});
+
+export function toClientOptions(config: MongoConfig): MongoClientOptions {
+  const { tls } = config;
+  return {
+    appName: config.appName,
+    maxPoolSize: config.maxPoolSize,
+    minPoolSize: config.minPoolSize,
+    serverSelectionTimeoutMS: config.serverSelectionTimeoutMS,
+    connectTimeoutMS: config.connectTimeoutMS,
+    socketTimeoutMS: config.socketTimeoutMS,
+    readPreference: config.readPreference,
+    ...(tls.enabled !== undefined && { tls: tls.enabled }),
+    ...(tls.caFile && { tlsCAFile: tls.caFile }),
+    ...(tls.certificateKeyFile && { tlsCertificateKeyFile: tls.certificateKeyFile }),
+    ...(tls.allowInvalidCertificates && { tlsAllowInvalidCertificates: true })
+  };
+}
+
+// Unreachable servers are worth waiting for at startup; bad credentials
+// or a malformed URI are not.
+function isRetryable(error: unknown) {
+  return error instanceof MongoServerSelectionError
+    || error instanceof MongoNetworkError
+    || error instanceof mongoose.Error.MongooseServerSelectionError;
+}
+
+function trackOperations(client: MongoClient) {
+  // Keyed by request id so events for commands started before the listeners
+  // were attached cannot push the count below zero
+  client.on('commandStarted', event => inFlight.add(event.requestId));
+  client.on('commandSucceeded', event => inFlight.delete(event.requestId));
+  client.on('commandFailed', event => inFlight.delete(event.requestId));
+}
+
+async function open(config: MongoConfig): Promise<DatabaseConnection> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await mongoose.connect(config.uri, {
+        ...toClientOptions(config),
+        dbName: config.dbName,
+        monitorCommands: true
+      });
+      break;
+    } catch (error) {
+      if (!isRetryable(error) || attempt > config.connectRetries) {
+        throw error;
+      }
+      const delayMs = backoffDelay(attempt, config.connectRetryDelayMs, MAX_RETRY_DELAY_MS);
+      console.warn(`⏳ MongoDB at ${redactUri(config.uri)} not reachable, retrying in ${delayMs}ms `
+        + `(${attempt}/${config.connectRetries})`);
+      await sleep(delayMs);
+    }
+  }
+
+  const client = mongoose.connection.getClient();
+  trackOperations(client);
+  current = { client, db: client.db(config.dbName), config };
+  return current;
+}
+
+// Connects the shared Mongoose connection (and with it the driver client)
+// once; later calls get the same connection.
+export function connect(config: MongoConfig = getConfig().mongo): Promise<DatabaseConnection> {
+  connecting ??= open(config).catch(error => {
+    connecting = undefined;
+    throw error;
+  });
+  return connecting;
+}
+
+export function getConnection(): DatabaseConnection {
+  if (!current) {
+    throw new Error('Database is not connected; call connect() first');
+  }
+  return current;
+}
+
+export function inFlightOperations() {
+  return inFlight.size;
+}
+
+export async function ping(timeoutMs = 2000): Promise<HealthStatus> {
+  const state = mongoose.ConnectionStates[mongoose.connection.readyState];
+  if (!current) {
+    return { ok: false, state, inFlight: inFlight.size };
+  }
+
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      current.db.command({ ping: 1 }),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`ping timed out after ${timeoutMs}ms`)), timeoutMs);
+      })
+    ]);
+    return { ok: true, state, latencyMs: Date.now() - startedAt, inFlight: inFlight.size };
+  } catch (error) {
+    return { ok: false, state, inFlight: inFlight.size, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Waits for running operations to finish, then closes the pool. Whatever is
+// still running when the timeout expires is cut off.
+export async function disconnect({ timeoutMs = DEFAULT_DRAIN_TIMEOUT_MS }: DisconnectOptions = {}) {
+  const pending = connecting;
+  connecting = undefined;
+  current = undefined;
+  if (!pending || !(await pending.then(() => true, () => false))) {
+    return;
+  }
+
+  const deadline = Date.now() + timeoutMs;
+  while (inFlight.size > 0 && Date.now() < deadline) {
+    await sleep(50);
+  }
+  const drained = inFlight.size === 0;
+  if (!drained) {
+    console.warn(`⚠️ Closing the MongoDB connection with ${inFlight.size} operation(s) still running`);
+  }
+
+  await mongoose.connection.close(!drained);
+  inFlight.clear();
+}
+
+// Hooks run in reverse order of registration before the connection is
+// drained, e.g. to stop accepting HTTP requests or close change streams.
+export function onShutdown(hook: ShutdownHook) {
+  shutdownHooks.push(hook);
+}
+
+export function shutdown(options: DisconnectOptions = {}) {
+  shuttingDown ??= (async () => {
+    for (const hook of [...shutdownHooks].reverse()) {
+      try {
+        await hook();
+      } catch (error) {
+        console.error('❌ Shutdown hook failed:', error);
+      }
+    }
+    shutdownHooks.length = 0;
+    await disconnect(options);
+  })().finally(() => {
+    shuttingDown = undefined;
+  });
+  return shuttingDown;
+}
+
+// SIGINT/SIGTERM shut down gracefully; a second signal exits immediately
+export function handleShutdownSignals(options: DisconnectOptions = {}) {
+  if (signalsHandled) {
+    return;
+  }
+  signalsHandled = true;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      console.warn(`⚠️ ${signal} received again, exiting without draining`);
+      process.exit(1);
+    }
+    console.log(`\n🛑 ${signal} received, shutting down`);
+    shutdown(options).then(
+      () => console.log('👋 Shutdown complete'),
+      error => {
+        console.error('❌ Shutdown failed:', error);
+        process.exitCode = 1;
+      }
+    );
+  };
+
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+}
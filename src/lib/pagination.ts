@@ -0,0 +1,204 @@
+import { BSON, Collection, Document, Filter, WithId } from 'mongodb';
+import { FilterQuery, HydratedDocument, Model } from 'mongoose';
+
+const { EJSON } = BSON;
+
+export type SortDirection = 1 | -1;
+export type SortSpec = [field: string, direction: SortDirection][];
+
+export interface PageOptions {
+  // 'imdb.rating desc, _id' or [['imdb.rating', -1], ['_id', 1]]
+  sort?: string | SortSpec;
+  limit?: number;
+  // Token from a previous page's nextCursor or prevCursor
+  cursor?: string;
+  // Also count all documents matching the filter (one extra query)
+  includeTotal?: boolean;
+  projection?: Document;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasNext: boolean;
+  hasPrev: boolean;
+  total?: number;
+}
+
+interface CursorToken {
+  // Sort key values of the boundary document
+  k: unknown[];
+  // Canonical sort spec the token was issued for
+  s: string;
+  d: 'after' | 'before';
+}
+
+export class PaginationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// _id is always appended as the final tiebreaker so the order is total
+export function parseSortSpec(sort: string | SortSpec = '_id'): SortSpec {
+  const spec: SortSpec = typeof sort === 'string'
+    ? sort.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+      const [field, direction = 'asc'] = part.split(/\s+/);
+      if (!/^(asc|desc|1|-1)$/i.test(direction)) {
+        throw new PaginationError(`Invalid sort direction "${direction}" for ${field}`);
+      }
+      return [field, /^(desc|-1)$/i.test(direction) ? -1 : 1] as [string, SortDirection];
+    })
+    : [...sort];
+
+  if (!spec.some(([field]) => field === '_id')) {
+    spec.push(['_id', 1]);
+  }
+  return spec;
+}
+
+function specKey(spec: SortSpec) {
+  return spec.map(([field, direction]) => `${field}:${direction}`).join(',');
+}
+
+export function encodeCursor(spec: SortSpec, values: unknown[], direction: CursorToken['d']) {
+  const token: CursorToken = { k: values, s: specKey(spec), d: direction };
+  return Buffer.from(EJSON.stringify(token, { relaxed: false })).toString('base64url');
+}
+
+export function decodeCursor(spec: SortSpec, cursor: string): CursorToken {
+  let token: CursorToken;
+  try {
+    token = EJSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'), { relaxed: true }) as CursorToken;
+  } catch {
+    throw new PaginationError('Malformed cursor');
+  }
+
+  if (token?.s !== specKey(spec)) {
+    throw new PaginationError('Cursor was issued for a different sort order');
+  }
+  if (!Array.isArray(token.k) || token.k.length !== spec.length || (token.d !== 'after' && token.d !== 'before')) {
+    throw new PaginationError('Malformed cursor');
+  }
+  return token;
+}
+
+function readPath(doc: unknown, path: string): unknown {
+  if (doc && typeof (doc as { get?: unknown }).get === 'function') {
+    return (doc as { get(path: string): unknown }).get(path);
+  }
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Document)[key] : undefined),
+    doc
+  );
+}
+
+// Missing and null sort lowest in MongoDB, but range operators never match
+// them, so comparisons against null need explicit handling.
+function beyond(field: string, value: unknown, op: '$gt' | '$lt'): Document | null {
+  if (value === null || value === undefined) {
+    return op === '$gt' ? { [field]: { $ne: null } } : null;
+  }
+  return op === '$gt'
+    ? { [field]: { $gt: value } }
+    : { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+}
+
+// (a > x) OR (a = x AND b > y) OR (a = x AND b = y AND _id > z) ...
+export function keysetFilter(spec: SortSpec, values: unknown[], direction: CursorToken['d']): Document {
+  const branches: Document[] = [];
+
+  spec.forEach(([field, sortDirection], i) => {
+    const forward = (sortDirection === 1) === (direction === 'after');
+    const comparison = beyond(field, values[i], forward ? '$gt' : '$lt');
+    if (!comparison) {
+      return;
+    }
+    const equalities = spec.slice(0, i).map(([prefix], j) => ({ [prefix]: values[j] ?? null }));
+    branches.push(equalities.length ? { $and: [...equalities, comparison] } : comparison);
+  });
+
+  return branches.length ? { $or: branches } : { _id: { $exists: false } };
+}
+
+interface PageQuery {
+  filter: Document;
+  sort: Record<string, SortDirection>;
+  limit: number;
+  spec: SortSpec;
+  direction?: CursorToken['d'];
+}
+
+function buildPageQuery(filter: Document, options: PageOptions): PageQuery {
+  const spec = parseSortSpec(options.sort);
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const token = options.cursor ? decodeCursor(spec, options.cursor) : undefined;
+
+  // Paging backwards runs the query in reverse order and flips the results
+  const sort: Record<string, SortDirection> = {};
+  spec.forEach(([field, direction]) => {
+    sort[field] = token?.d === 'before' ? (-direction as SortDirection) : direction;
+  });
+
+  return {
+    filter: token ? { $and: [filter, keysetFilter(spec, token.k, token.d)] } : filter,
+    sort,
+    limit,
+    spec,
+    direction: token?.d
+  };
+}
+
+function buildPage<T>(docs: T[], query: PageQuery): Page<T> {
+  const hasMore = docs.length > query.limit;
+  const items = docs.slice(0, query.limit);
+  if (query.direction === 'before') {
+    items.reverse();
+  }
+
+  const hasNext = query.direction === 'before' ? true : hasMore;
+  const hasPrev = query.direction === 'before' ? hasMore : query.direction === 'after';
+  const keyOf = (doc: T) => query.spec.map(([field]) => readPath(doc, field) ?? null);
+
+  return {
+    items,
+    hasNext: hasNext && items.length > 0,
+    hasPrev: hasPrev && items.length > 0,
+    nextCursor: hasNext && items.length ? encodeCursor(query.spec, keyOf(items[items.length - 1]), 'after') : null,
+    prevCursor: hasPrev && items.length ? encodeCursor(query.spec, keyOf(items[0]), 'before') : null
+  };
+}
+
+export async function paginateModel<T, TQueryHelpers, TMethods>(
+  model: Model<T, TQueryHelpers, TMethods>,
+  filter: FilterQuery<T>,
+  options: PageOptions = {}
+): Promise<Page<HydratedDocument<T, TMethods>>> {
+  const query = buildPageQuery(filter, options);
+  const [docs, total] = await Promise.all([
+    model.find(query.filter as FilterQuery<T>, options.projection).sort(query.sort).limit(query.limit + 1).exec(),
+    options.includeTotal ? model.countDocuments(filter).exec() : Promise.resolve(undefined)
+  ]);
+
+  return { ...buildPage(docs as HydratedDocument<T, TMethods>[], query), ...(total !== undefined && { total }) };
+}
+
+export async function paginateCollection<T extends Document>(
+  collection: Collection<T>,
+  filter: Filter<T>,
+  options: PageOptions = {}
+): Promise<Page<WithId<T>>> {
+  const query = buildPageQuery(filter, options);
+  const [docs, total] = await Promise.all([
+    collection.find(query.filter as Filter<T>, { projection: options.projection })
+      .sort(query.sort).limit(query.limit + 1).toArray(),
+    options.includeTotal ? collection.countDocuments(filter) : Promise.resolve(undefined)
+  ]);
+
+  return { ...buildPage(docs, query), ...(total !== undefined && { total }) };
+}
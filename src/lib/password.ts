@@ -0,0 +1,29 @@
+import bcrypt from 'bcryptjs';
+
+// Cost factor for new hashes. sample_mflix ships $2b$12$ hashes, so 12 keeps
+// imported and freshly created users on the same footing.
+export const PASSWORD_SALT_ROUNDS = Number(process.env.PASSWORD_SALT_ROUNDS) || 12;
+
+const BCRYPT_HASH_PATTERN = /^\$2[abxy]?\$\d{2}\$[./A-Za-z0-9]{53}$/;
+
+export function isPasswordHash(value: string) {
+  return BCRYPT_HASH_PATTERN.test(value);
+}
+
+export async function hashPassword(plain: string) {
+  const salt = await bcrypt.genSalt(PASSWORD_SALT_ROUNDS);
+  return bcrypt.hash(plain, salt);
+}
+
+export async function comparePassword(candidate: string, hash: string) {
+  if (!isPasswordHash(hash)) {
+    return false;
+  }
+  return bcrypt.compare(candidate, hash);
+}
+
+// True when a stored hash was produced with different cost parameters than
+// the current ones, so it can be upgraded the next time the user logs in.
+export function needsRehash(hash: string) {
+  return !isPasswordHash(hash) || bcrypt.getRounds(hash) !== PASSWORD_SALT_ROUNDS;
+}
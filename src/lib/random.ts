@@ -0,0 +1,56 @@
+import { Types } from 'mongoose';
+
+// Seeded pseudo-random numbers (mulberry32): the same seed gives the same
+// sequence on every machine, which Math.random cannot promise.
+export interface Random {
+  // In [0, 1)
+  next(): number;
+  // Whole number in [min, max]
+  int(min: number, max: number): number;
+  chance(probability: number): boolean;
+  pick<T>(items: readonly T[]): T;
+  // count distinct items, in random order
+  sample<T>(items: readonly T[], count: number): T[];
+  objectId(): Types.ObjectId;
+}
+
+// FNV-1a, so string seeds (and seed:id pairs) work as well as numbers
+function hashSeed(seed: number | string) {
+  let hash = 0x811c9dc5;
+  for (const char of String(seed)) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function createRandom(seed: number | string): Random {
+  let state = hashSeed(seed);
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+
+  return {
+    next,
+    int,
+    chance: probability => next() < probability,
+    pick: items => items[int(0, items.length - 1)],
+    sample(items, count) {
+      const copy = [...items];
+      const size = Math.min(count, copy.length);
+      // Partial Fisher-Yates: only the first `size` slots are shuffled
+      for (let i = 0; i < size; i++) {
+        const j = int(i, copy.length - 1);
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+      }
+      return copy.slice(0, size);
+    },
+    objectId: () => new Types.ObjectId(Buffer.from(Array.from({ length: 12 }, () => int(0, 255))))
+  };
+}
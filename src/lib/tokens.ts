@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+
+// Minimal HS256 JSON Web Tokens (RFC 7519). Only what the API issues is
+// accepted: the header must name HS256, so "alg": "none" and key-confusion
+// tricks fail the header check before the signature is even looked at.
+
+export interface TokenClaims {
+  sub: string;
+  // Seconds since the epoch, as the spec has it
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+export type TokenErrorCode = 'MALFORMED' | 'BAD_SIGNATURE' | 'EXPIRED';
+
+export class TokenError extends Error {
+  constructor(public code: TokenErrorCode, message: string) {
+    super(message);
+    this.name = 'TokenError';
+  }
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+function base64url(value: string | Buffer) {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(input: string, secret: string) {
+  return crypto.createHmac('sha256', secret).update(input).digest();
+}
+
+export function signToken(
+  subject: string,
+  claims: Record<string, unknown>,
+  secret: string,
+  ttlSec: number,
+  now = Date.now()
+): string {
+  const iat = Math.floor(now / 1000);
+  const payload = base64url(JSON.stringify({ ...claims, sub: subject, iat, exp: iat + ttlSec }));
+  return `${HEADER}.${payload}.${base64url(sign(`${HEADER}.${payload}`, secret))}`;
+}
+
+export function verifyToken(token: string, secret: string, now = Date.now()): TokenClaims {
+  const [header, payload, signature, ...rest] = token.split('.');
+  if (rest.length || !payload || !signature || header !== HEADER) {
+    throw new TokenError('MALFORMED', 'Malformed token');
+  }
+
+  const expected = sign(`${header}.${payload}`, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new TokenError('BAD_SIGNATURE', 'Invalid token signature');
+  }
+
+  let claims: TokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new TokenError('MALFORMED', 'Malformed token');
+  }
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+    throw new TokenError('MALFORMED', 'Token is missing sub or exp');
+  }
+  if (claims.exp * 1000 <= now) {
+    throw new TokenError('EXPIRED', 'Token has expired');
+  }
+  return claims;
+}
+
+// Opaque, unguessable tokens for refresh and the like; only a hash is stored
+export function randomToken(bytes = 32) {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+export function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,209 @@
+import mongoose from 'mongoose';
+import {
+  ClientSession,
+  MongoError,
+  ReadConcernLike,
+  ReadPreferenceLike,
+  TransactionOptions as DriverTransactionOptions,
+  WriteConcern,
+  WriteConcernSettings
+} from 'mongodb';
+
+// Anything that can hand out sessions: a native MongoClient or a Mongoose
+// connection (whose startSession is async).
+export interface SessionSource {
+  startSession(): ClientSession | Promise<ClientSession>;
+}
+
+export interface TransactionAttemptInfo {
+  label: string;
+  attempt: number;
+}
+
+export interface TransactionOutcomeInfo extends TransactionAttemptInfo {
+  durationMs: number;
+}
+
+export interface TransactionAbortInfo extends TransactionOutcomeInfo {
+  error: unknown;
+  willRetry: boolean;
+}
+
+export interface TransactionRetryInfo extends TransactionAttemptInfo {
+  delayMs: number;
+  reason: typeof TRANSIENT_TRANSACTION_ERROR | typeof UNKNOWN_COMMIT_RESULT;
+}
+
+export interface TransactionHooks {
+  onAttempt?(info: TransactionAttemptInfo): void;
+  onCommit?(info: TransactionOutcomeInfo): void;
+  onAbort?(info: TransactionAbortInfo): void;
+  onRetry?(info: TransactionRetryInfo): void;
+}
+
+export interface RunInTransactionOptions {
+  // Defaults to the shared Mongoose connection
+  client?: SessionSource;
+  // Name used in hooks and metrics, e.g. 'rentMovie'
+  label?: string;
+  maxAttempts?: number;
+  maxCommitRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  readConcern?: ReadConcernLike;
+  writeConcern?: WriteConcernSettings;
+  readPreference?: ReadPreferenceLike;
+  maxCommitTimeMS?: number;
+  hooks?: TransactionHooks;
+}
+
+export interface TransactionMetrics {
+  attempts: number;
+  commits: number;
+  aborts: number;
+  retries: number;
+  failures: number;
+  totalDurationMs: number;
+}
+
+export const TRANSIENT_TRANSACTION_ERROR = 'TransientTransactionError';
+export const UNKNOWN_COMMIT_RESULT = 'UnknownTransactionCommitResult';
+
+const DEFAULTS = {
+  label: 'transaction',
+  maxAttempts: 5,
+  maxCommitRetries: 3,
+  baseDelayMs: 50,
+  maxDelayMs: 2000
+};
+
+type ResolvedOptions = typeof DEFAULTS & RunInTransactionOptions;
+
+const metricsByLabel = new Map<string, TransactionMetrics>();
+
+function metricsFor(label: string) {
+  let metrics = metricsByLabel.get(label);
+  if (!metrics) {
+    metrics = { attempts: 0, commits: 0, aborts: 0, retries: 0, failures: 0, totalDurationMs: 0 };
+    metricsByLabel.set(label, metrics);
+  }
+  return metrics;
+}
+
+export function getTransactionMetrics(): Record<string, TransactionMetrics> {
+  const snapshot: Record<string, TransactionMetrics> = {};
+  metricsByLabel.forEach((metrics, label) => {
+    snapshot[label] = { ...metrics };
+  });
+  return snapshot;
+}
+
+export function resetTransactionMetrics() {
+  metricsByLabel.clear();
+}
+
+export function hasErrorLabel(error: unknown, label: string) {
+  return error instanceof MongoError && error.hasErrorLabel(label);
+}
+
+// Exponential backoff with full jitter
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number) {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A misbehaving hook must never change the outcome of the transaction
+function emit<K extends keyof TransactionHooks>(
+  hooks: TransactionHooks | undefined,
+  name: K,
+  info: Parameters<NonNullable<TransactionHooks[K]>>[0]
+) {
+  try {
+    (hooks?.[name] as ((arg: typeof info) => void) | undefined)?.(info);
+  } catch (error) {
+    console.error(`❌ Transaction hook ${name} threw:`, error);
+  }
+}
+
+async function commitWithRetry(session: ClientSession, options: ResolvedOptions, attempt: number) {
+  for (let commitAttempt = 1; ; commitAttempt++) {
+    try {
+      await session.commitTransaction();
+      return;
+    } catch (error) {
+      // Only the commit outcome is unknown; the work itself does not need redoing
+      if (!hasErrorLabel(error, UNKNOWN_COMMIT_RESULT) || commitAttempt > options.maxCommitRetries) {
+        throw error;
+      }
+
+      const delayMs = backoffDelay(commitAttempt, options.baseDelayMs, options.maxDelayMs);
+      metricsFor(options.label).retries++;
+      emit(options.hooks, 'onRetry', { label: options.label, attempt, delayMs, reason: UNKNOWN_COMMIT_RESULT });
+      await sleep(delayMs);
+    }
+  }
+}
+
+// Runs fn inside a transaction, retrying the whole callback only when the
+// server labels the failure as transient. Any other error aborts and is
+// rethrown unchanged.
+export async function runInTransaction<T>(
+  fn: (session: ClientSession, attempt: number) => Promise<T>,
+  options: RunInTransactionOptions = {}
+): Promise<T> {
+  const settings: ResolvedOptions = { ...DEFAULTS, ...options };
+  const client = settings.client ?? mongoose.connection;
+  const metrics = metricsFor(settings.label);
+
+  const transactionOptions: DriverTransactionOptions = {
+    readConcern: settings.readConcern,
+    writeConcern: settings.writeConcern && WriteConcern.fromOptions({ writeConcern: settings.writeConcern }),
+    readPreference: settings.readPreference,
+    maxCommitTimeMS: settings.maxCommitTimeMS
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    const session = await client.startSession();
+    const startedAt = Date.now();
+    metrics.attempts++;
+    emit(settings.hooks, 'onAttempt', { label: settings.label, attempt });
+
+    try {
+      session.startTransaction(transactionOptions);
+      const result = await fn(session, attempt);
+      await commitWithRetry(session, settings, attempt);
+
+      const durationMs = Date.now() - startedAt;
+      metrics.commits++;
+      metrics.totalDurationMs += durationMs;
+      emit(settings.hooks, 'onCommit', { label: settings.label, attempt, durationMs });
+      return result;
+    } catch (error) {
+      if (session.inTransaction()) {
+        await session.abortTransaction().catch(() => undefined);
+      }
+
+      const durationMs = Date.now() - startedAt;
+      const willRetry = hasErrorLabel(error, TRANSIENT_TRANSACTION_ERROR) && attempt < settings.maxAttempts;
+      metrics.aborts++;
+      metrics.totalDurationMs += durationMs;
+      emit(settings.hooks, 'onAbort', { label: settings.label, attempt, durationMs, error, willRetry });
+
+      if (!willRetry) {
+        metrics.failures++;
+        throw error;
+      }
+
+      const delayMs = backoffDelay(attempt, settings.baseDelayMs, settings.maxDelayMs);
+      metrics.retries++;
+      emit(settings.hooks, 'onRetry', {
+        label: settings.label, attempt, delayMs, reason: TRANSIENT_TRANSACTION_ERROR
+      });
+      await sleep(delayMs);
+    } finally {
+      await session.endSession();
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationContext } from '../services/migrator';
+
+export const description = 'Backfill rentedCount and copies on movies imported without them';
+
+const DEFAULT_COPIES = 3;
+
+export async function up({ db, log }: MigrationContext) {
+  const movies = db.collection('movies');
+
+  const rented = await movies.updateMany({ rentedCount: { $exists: false } }, { $set: { rentedCount: 0 } });
+  const copies = await movies.updateMany({ copies: { $exists: false } }, { $set: { copies: DEFAULT_COPIES } });
+
+  log(`   rentedCount set on ${rented.modifiedCount} movies, copies on ${copies.modifiedCount}`);
+}
+
+// Deliberately a no-op: a backfilled rentedCount of 0 or copies of 3 looks
+// exactly like the model's defaults on movies created since, or like a
+// value set on purpose. Mongoose fills in those defaults when it loads a
+// movie without the fields anyway, so keeping them is harmless.
+export async function down({ log }: MigrationContext) {
+  log('   rentedCount and copies are left in place; they match the model defaults');
+}
@@ -0,0 +1,36 @@
+import { MigrationContext } from '../services/migrator';
+
+export const description = 'Derive createdAt/updatedAt for users and movies from their ObjectId';
+
+const COLLECTIONS = ['users', 'movies'];
+
+export async function up({ db, log }: MigrationContext) {
+  for (const name of COLLECTIONS) {
+    const result = await db.collection(name).updateMany(
+      { createdAt: { $exists: false }, _id: { $type: 'objectId' } },
+      [{ $set: { createdAt: { $toDate: '$_id' }, updatedAt: { $toDate: '$_id' } } }]
+    );
+    log(`   ${name}: ${result.modifiedCount} documents backfilled`);
+  }
+}
+
+// Documents touched since the backfill have a newer updatedAt and are kept.
+// Only ObjectId _ids can be converted; the $expr repeats the type check
+// because the server may evaluate it before the _id predicate.
+export async function down({ db }: MigrationContext) {
+  for (const name of COLLECTIONS) {
+    await db.collection(name).updateMany(
+      {
+        _id: { $type: 'objectId' },
+        $expr: {
+          $and: [
+            { $eq: [{ $type: '$_id' }, 'objectId'] },
+            { $eq: ['$createdAt', { $toDate: '$_id' }] },
+            { $eq: ['$updatedAt', { $toDate: '$_id' }] }
+          ]
+        }
+      },
+      { $unset: { createdAt: '', updatedAt: '' } }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import mongoose, { Schema, HydratedDocument, Model, Query, Types } from 'mongoose';
+
+export type AuditOperation = 'create' | 'update' | 'delete' | 'softDelete' | 'restore';
+
+export interface IAuditChange {
+  // Dotted path, e.g. 'imdb.rating'
+  path: string;
+  from?: unknown;
+  to?: unknown;
+  // Set instead of from/to for paths the model asked to keep out of the log
+  redacted?: boolean;
+}
+
+export interface IAuditLog {
+  _id: Types.ObjectId;
+  collectionName: string;
+  documentId: Types.ObjectId;
+  operation: AuditOperation;
+  // Whoever made the change: a user id, 'cli', 'api', ...
+  actor?: string | null;
+  changes: IAuditChange[];
+  at: Date;
+}
+
+export type AuditLogDocument = HydratedDocument<IAuditLog>;
+
+export interface IAuditLogModel extends Model<IAuditLog> {
+  historyOf(collectionName: string, documentId: Types.ObjectId | string): Query<AuditLogDocument[], AuditLogDocument>;
+}
+
+const auditChangeSchema = new Schema<IAuditChange>({
+  path: { type: String, required: true },
+  from: Schema.Types.Mixed,
+  to: Schema.Types.Mixed,
+  redacted: Boolean
+}, { _id: false });
+
+const auditLogSchema = new Schema<IAuditLog, IAuditLogModel>({
+  collectionName: { type: String, required: true },
+  documentId: { type: Schema.Types.ObjectId, required: true },
+  operation: {
+    type: String,
+    enum: ['create', 'update', 'delete', 'softDelete', 'restore'],
+    required: true
+  },
+  actor: { type: String, default: null },
+  changes: [auditChangeSchema],
+  at: { type: Date, default: Date.now }
+}, {
+  collection: 'audit_log',
+  versionKey: false
+});
+
+auditLogSchema.index({ collectionName: 1, documentId: 1, at: -1 });
+auditLogSchema.index({ actor: 1, at: -1 });
+
+auditLogSchema.statics.historyOf = function (collectionName: string, documentId: Types.ObjectId | string) {
+  return this.find({ collectionName, documentId }).sort({ at: -1, _id: -1 });
+};
+
+export const AuditLog = mongoose.model<IAuditLog, IAuditLogModel>('AuditLog', auditLogSchema);
@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// pending: waiting for runAt; running: claimed until lockedUntil;
+// dead: out of attempts, kept until retried or removed by hand
+export const JOB_STATUSES = ['pending', 'running', 'completed', 'dead'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// The document as stored
+export interface IJobData {
+  _id: Types.ObjectId;
+  type: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  // Not claimed before this time; moved forward by retry backoff
+  runAt: Date;
+  // Claims so far, including the current one
+  attempts: number;
+  maxAttempts: number;
+  lockedBy: string | null;
+  // The visibility timeout: past it, a running job can be claimed again
+  lockedUntil: Date | null;
+  lastError: string | null;
+  result?: unknown;
+  // The recurring schedule that enqueued it, if any
+  schedule?: string | null;
+  // At most one pending job per key
+  dedupeKey?: string;
+  completedAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IJob extends Document, IJobData {
+  _id: Types.ObjectId;
+}
+
+export type IJobModel = Model<IJob>;
+
+const jobSchema = new Schema<IJob, IJobModel>({
+  type: {
+    type: String,
+    required: [true, 'Job type is required'],
+    trim: true
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    default: () => ({})
+  },
+  status: {
+    type: String,
+    enum: JOB_STATUSES,
+    default: 'pending'
+  },
+  runAt: {
+    type: Date,
+    default: Date.now
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 5,
+    min: [1, 'A job needs at least one attempt']
+  },
+  lockedBy: {
+    type: String,
+    default: null
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  lastError: {
+    type: String,
+    default: null
+  },
+  result: Schema.Types.Mixed,
+  schedule: {
+    type: String,
+    default: null
+  },
+  dedupeKey: String,
+  completedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'jobs',
+  // payload and result are whatever the job type needs
+  minimize: false
+});
+
+// Claiming: due pending jobs of the worker's types, oldest first
+jobSchema.index({ status: 1, type: 1, runAt: 1, _id: 1 });
+// Claiming jobs whose worker died, and counting running jobs per type
+jobSchema.index({ status: 1, lockedUntil: 1 });
+jobSchema.index({ dedupeKey: 1 }, {
+  unique: true,
+  partialFilterExpression: { dedupeKey: { $type: 'string' }, status: 'pending' }
+});
+// Completed jobs are kept for a week for inspection
+jobSchema.index({ completedAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const Job = mongoose.model<IJob, IJobModel>('Job', jobSchema);
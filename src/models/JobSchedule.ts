@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { CronError, parseCron } from '../lib/cron';
+
+// A recurring job: whichever worker first sees nextRunAt pass enqueues one
+// job and moves nextRunAt to the following cron match.
+export interface IJobScheduleData {
+  // The schedule's name, e.g. 'overdue-reminders'
+  _id: string;
+  cron: string;
+  type: string;
+  payload: Record<string, unknown>;
+  maxAttempts?: number;
+  enabled: boolean;
+  nextRunAt: Date;
+  lastRunAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IJobSchedule extends Omit<Document, '_id'>, IJobScheduleData {}
+
+export type IJobScheduleModel = Model<IJobSchedule>;
+
+const jobScheduleSchema = new Schema<IJobSchedule, IJobScheduleModel>({
+  _id: {
+    type: String,
+    required: [true, 'Schedule name is required'],
+    trim: true
+  },
+  cron: {
+    type: String,
+    required: [true, 'Cron expression is required'],
+    validate: {
+      validator(value: string) {
+        try {
+          parseCron(value);
+          return true;
+        } catch (error) {
+          if (error instanceof CronError) {
+            return false;
+          }
+          throw error;
+        }
+      },
+      message: (props: { value: string }) => `"${props.value}" is not a valid cron expression`
+    }
+  },
+  type: {
+    type: String,
+    required: [true, 'Job type is required'],
+    trim: true
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    default: () => ({})
+  },
+  maxAttempts: {
+    type: Number,
+    min: 1
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  nextRunAt: {
+    type: Date,
+    required: true
+  },
+  lastRunAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'job_schedules',
+  minimize: false
+});
+
+jobScheduleSchema.index({ enabled: 1, nextRunAt: 1 });
+
+export const JobSchedule = mongoose.model<IJobSchedule, IJobScheduleModel>('JobSchedule', jobScheduleSchema);
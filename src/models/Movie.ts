@@ -1,6 +1,23 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Model, Query, ClientSession, Types } from 'mongoose';
+import {
+  MovieSearchParams,
+  MovieSearchResult,
+  buildMovieSearchPipeline,
+  toMovieSearchResult
+} from './movieSearch';
+import { cacheInvalidation } from './plugins/cacheInvalidation';
 
-export interface IMovie extends Document {
+export interface IUserRating {
+  // Mean stars, rounded to two places; null without reviews
+  average: number | null;
+  count: number;
+  // Sum of stars, kept so the average can be updated incrementally
+  total: number;
+}
+
+// The document as stored, shared with the native-driver repositories
+export interface IMovieData {
+  _id: Types.ObjectId;
   title: string;
   year?: number;
   genres?: string[];
@@ -24,11 +41,43 @@ export interface IMovie extends Document {
       numReviews?: number;
     };
   };
+  copies?: number;
   rentedCount?: number;
   lastRented?: Date;
+  // Our users' reviews, maintained by services/reviewService
+  userRating?: IUserRating;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IMovie extends Document, IMovieData {
+  _id: Types.ObjectId;
+}
+
+export interface IMovieBasicInfo {
+  _id: Types.ObjectId;
+  title: string;
+  year?: number;
+  genres?: string[];
+  rated?: string;
+  imdb?: IMovie['imdb'];
+  userRating?: IUserRating;
 }
 
-const movieSchema = new Schema<IMovie>({
+export interface IMovieMethods {
+  rent(session?: ClientSession): Promise<MovieDocument>;
+  getBasicInfo(): IMovieBasicInfo;
+}
+
+export type MovieDocument = IMovie & IMovieMethods;
+
+export interface IMovieModel extends Model<IMovie, {}, IMovieMethods> {
+  findByGenre(genre: string): Query<MovieDocument[], MovieDocument>;
+  findHighRated(minRating?: number): Query<MovieDocument[], MovieDocument>;
+  search(params: MovieSearchParams): Promise<MovieSearchResult>;
+}
+
+const movieSchema = new Schema<IMovie, IMovieModel, IMovieMethods>({
   title: {
     type: String,
     required: [true, 'Title is required'],
@@ -80,12 +129,22 @@ const movieSchema = new Schema<IMovie>({
       numReviews: { type: Number, min: 0 }
     }
   },
+  copies: {
+    type: Number,
+    default: 3, // sample_mflix has no inventory data
+    min: [0, 'Copies cannot be negative']
+  },
   rentedCount: {
     type: Number,
     default: 0,
     min: 0
   },
-  lastRented: Date
+  lastRented: Date,
+  userRating: {
+    average: { type: Number, default: null },
+    count: { type: Number, default: 0, min: 0 },
+    total: { type: Number, default: 0, min: 0 }
+  }
 }, {
   timestamps: true
 });
@@ -95,12 +154,18 @@ movieSchema.index({ title: 'text', plot: 'text' }); // Text search
 movieSchema.index({ genres: 1 });
 movieSchema.index({ year: 1 });
 movieSchema.index({ 'imdb.rating': -1 });
+movieSchema.index({ updatedAt: 1 }); // Incremental movie_stats refresh
+
+// Cached movie reads (see lib/cache) are dropped on every write
+movieSchema.plugin(cacheInvalidation);
 
 // Instance methods
-movieSchema.methods.rent = function() {
+movieSchema.methods.rent = function(session?: ClientSession) {
   this.rentedCount = (this.rentedCount || 0) + 1;
   this.lastRented = new Date();
-  return this.save();
+  // Imported sample_mflix documents carry values outside our enums (e.g.
+  // rated: 'TV-G'); renting must not fail on fields it never touched.
+  return this.save({ session, validateModifiedOnly: true });
 };
 
 movieSchema.methods.getBasicInfo = function() {
@@ -110,7 +175,8 @@ movieSchema.methods.getBasicInfo = function() {
     year: this.year,
     genres: this.genres,
     rated: this.rated,
-    imdb: this.imdb
+    imdb: this.imdb,
+    userRating: this.userRating
   };
 };
 
@@ -123,4 +189,9 @@ movieSchema.statics.findHighRated = function(minRating = 7) {
   return this.find({ 'imdb.rating': { $gte: minRating } });
 };
 
-export const Movie = mongoose.model<IMovie>('Movie', movieSchema); 
\ No newline at end of file
+movieSchema.statics.search = async function(params: MovieSearchParams) {
+  const [raw] = await this.aggregate(buildMovieSearchPipeline(params));
+  return toMovieSearchResult(raw);
+};
+
+export const Movie = mongoose.model<IMovie, IMovieModel>('Movie', movieSchema); 
\ No newline at end of file
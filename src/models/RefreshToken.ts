@@ -0,0 +1,42 @@
+import mongoose, { Schema, Model, Types } from 'mongoose';
+
+export interface IRefreshToken {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  // SHA-256 of the token; the token itself is only ever held by the client
+  tokenHash: string;
+  // Every token rotated from the same login shares a family, so reuse of an
+  // old token can revoke the whole chain
+  family: string;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  // Hash of the token this one was rotated into
+  replacedBy?: string | null;
+  userAgent?: string;
+  ip?: string;
+  createdAt?: Date;
+}
+
+export type IRefreshTokenModel = Model<IRefreshToken>;
+
+const refreshTokenSchema = new Schema<IRefreshToken, IRefreshTokenModel>({
+  user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  family: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+  revokedAt: { type: Date, default: null },
+  replacedBy: { type: String, default: null },
+  userAgent: String,
+  ip: String
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'refresh_tokens',
+  versionKey: false
+});
+
+// MongoDB removes tokens once they expire (the TTL monitor runs every minute)
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+refreshTokenSchema.index({ family: 1 });
+refreshTokenSchema.index({ user: 1 });
+
+export const RefreshToken = mongoose.model<IRefreshToken, IRefreshTokenModel>('RefreshToken', refreshTokenSchema);
@@ -0,0 +1,88 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+export type RentalStatus = 'active' | 'returned';
+
+// The document as stored, shared with the native-driver repositories
+export interface IRentalData {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  movie: Types.ObjectId;
+  rentedAt: Date;
+  dueDate: Date;
+  returnedAt?: Date;
+  status: RentalStatus;
+  extensions: number;
+  lateFeeCents: number;
+  // Last overdue reminder, so reminders go out at most once a day
+  lastReminderAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IRental extends Document, IRentalData {
+  _id: Types.ObjectId;
+}
+
+export interface IRentalMethods {
+  isOverdue(at?: Date): boolean;
+}
+
+export type RentalDocument = IRental & IRentalMethods;
+
+export type IRentalModel = Model<IRental, {}, IRentalMethods>;
+
+const rentalSchema = new Schema<IRental, IRentalModel, IRentalMethods>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required']
+  },
+  movie: {
+    type: Schema.Types.ObjectId,
+    ref: 'Movie',
+    required: [true, 'Movie is required']
+  },
+  rentedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  dueDate: {
+    type: Date,
+    required: [true, 'Due date is required']
+  },
+  returnedAt: Date,
+  status: {
+    type: String,
+    enum: ['active', 'returned'],
+    default: 'active'
+  },
+  extensions: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  lateFeeCents: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  lastReminderAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  collection: 'rentals'
+});
+
+// Active-rental lookups per user (caps) and per movie (copy limits)
+rentalSchema.index({ user: 1, status: 1 });
+rentalSchema.index({ movie: 1, status: 1 });
+rentalSchema.index({ status: 1, dueDate: 1 });
+
+rentalSchema.methods.isOverdue = function (at = new Date()) {
+  return this.status === 'active' && this.dueDate < at;
+};
+
+export const Rental = mongoose.model<IRental, IRentalModel>('Rental', rentalSchema);
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
+
+// The document as stored
+export interface IReviewData {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  movie: Types.ObjectId;
+  // Whole stars, 1 to 5
+  stars: number;
+  text?: string;
+  helpfulVotes: number;
+  // Who voted, so nobody counts twice; not loaded by default
+  helpfulVoters?: Types.ObjectId[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IReview extends Document, IReviewData {
+  _id: Types.ObjectId;
+}
+
+export type IReviewModel = Model<IReview>;
+
+const reviewSchema = new Schema<IReview, IReviewModel>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required']
+  },
+  movie: {
+    type: Schema.Types.ObjectId,
+    ref: 'Movie',
+    required: [true, 'Movie is required']
+  },
+  stars: {
+    type: Number,
+    required: [true, 'Stars are required'],
+    min: [1, 'Stars must be between 1 and 5'],
+    max: [5, 'Stars must be between 1 and 5'],
+    validate: { validator: Number.isInteger, message: 'Stars must be a whole number' }
+  },
+  text: {
+    type: String,
+    trim: true,
+    maxlength: [5000, 'Review cannot exceed 5000 characters']
+  },
+  helpfulVotes: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  helpfulVoters: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+    select: false
+  }
+}, {
+  timestamps: true,
+  collection: 'reviews'
+});
+
+// One review per user and movie; also serves "has this user reviewed it"
+reviewSchema.index({ movie: 1, user: 1 }, { unique: true });
+// The listing sorts, per movie, with the _id tiebreaker pagination adds
+reviewSchema.index({ movie: 1, helpfulVotes: -1, createdAt: -1, _id: 1 });
+reviewSchema.index({ movie: 1, createdAt: -1, _id: 1 });
+
+export const Review = mongoose.model<IReview, IReviewModel>('Review', reviewSchema);
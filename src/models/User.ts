@@ -1,15 +1,52 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Model, Query, Types, UpdateQuery } from 'mongoose';
+import { comparePassword, hashPassword, needsRehash } from '../lib/password';
+import { softDelete, SoftDeleteFields, SoftDeleteMethods, SoftDeleteStatics } from './plugins/softDelete';
+import { auditTrail } from './plugins/auditTrail';
 
-export interface IUser extends Document {
-  _id: string;
+// Each role can do everything the ones before it can
+export const USER_ROLES = ['customer', 'staff', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+// The document as stored, shared with the native-driver repositories
+export interface IUserData extends SoftDeleteFields {
+  _id: Types.ObjectId;
   name: string,
   email: string,
   password: string;
+  role: UserRole;
+  // Failed logins since the last successful one; see services/authService
+  failedLogins?: number;
+  lockedUntil?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-const userSchema = new Schema<IUser>({
+export interface IUser extends Document, IUserData {
+  _id: Types.ObjectId;
+}
+
+export interface IUserPublicProfile {
+  _id: Types.ObjectId;
+  name: string;
+  email: string;
+  role: UserRole;
+  createdAt?: Date;
+}
+
+export interface IUserMethods extends SoftDeleteMethods {
+  getPublicProfile(): IUserPublicProfile;
+  verifyPassword(candidate: string): Promise<boolean>;
+}
+
+export type UserDocument = IUser & IUserMethods;
+
+export interface IUserModel extends Model<IUser, {}, IUserMethods>, SoftDeleteStatics<UserDocument> {
+  findByEmail(email: string): Query<UserDocument | null, UserDocument>;
+  authenticate(email: string, password: string): Promise<UserDocument | null>;
+}
+
+const userSchema = new Schema<IUser, IUserModel, IUserMethods>({
   name: {
     type: String,
     required: [true, 'Name is required'],
@@ -28,24 +65,101 @@ const userSchema = new Schema<IUser>({
   password: {
     type: String,
     required: [true, 'Password is required'],
-    minlength: [6, 'Password must be at least 6 characters']
-  }
+    minlength: [6, 'Password must be at least 6 characters'],
+    select: false // Only loaded explicitly with .select('+password')
+  },
+  role: {
+    type: String,
+    enum: USER_ROLES,
+    default: 'customer'
+  },
+  failedLogins: { type: Number, default: 0 },
+  lockedUntil: { type: Date, default: null }
 }, {
   timestamps: true,
-  collection: 'users'
+  collection: 'users',
+  toJSON: {
+    transform: (_doc, ret) => {
+      delete (ret as Partial<IUser>).password;
+      return ret;
+    }
+  }
 })
 
+// Deleted users keep their email: the unique index still covers them, so a
+// soft-deleted account can always be restored without a conflict.
+userSchema.plugin(softDelete);
+// Failed login counters churn on every bad password; lockedUntil is still audited
+userSchema.plugin(auditTrail, { redact: ['password'], ignore: ['failedLogins'] });
+
+// Validation runs before this hook, so minlength is checked against the
+// plain-text value and only the hash is ever written. Whatever the value
+// looks like, it is hashed: a client could send a bcrypt-shaped string.
+// Code that already holds a hash says so with $locals.passwordHashed.
+userSchema.pre('save', async function () {
+  if (!this.isModified('password')) {
+    return;
+  }
+  if (this.$locals.passwordHashed) {
+    delete this.$locals.passwordHashed;
+    return;
+  }
+  this.password = await hashPassword(this.password);
+});
+
+// Updates bypass save middleware, so hash passwords set through them too,
+// unless the query was run with the passwordHashed option.
+async function hashPasswordInUpdate(this: Query<unknown, IUser>) {
+  const update = this.getUpdate() as UpdateQuery<IUser> | null;
+  if (!update || this.getOptions().passwordHashed) {
+    return;
+  }
+
+  for (const target of [update, update.$set]) {
+    if (target && typeof target.password === 'string') {
+      target.password = await hashPassword(target.password);
+    }
+  }
+  this.setUpdate(update);
+}
+
+userSchema.pre(['findOneAndUpdate', 'updateOne', 'updateMany'], hashPasswordInUpdate);
+
 userSchema.methods.getPublicProfile = function () {
   return {
     _id: this._id,
     name: this.name,
     email: this.email,
+    role: this.role,
     createdAt: this.createdAt,
   }
 }
 
+userSchema.methods.verifyPassword = async function (candidate: string) {
+  if (!this.password) {
+    throw new Error('Password not loaded; query the user with .select("+password")');
+  }
+  return comparePassword(candidate, this.password);
+}
+
 userSchema.statics.findByEmail = function (email: string) {
-  return this.findOne({ email: email.toLowerCase() }); 
+  return this.findOne({ email: email.toLowerCase() });
+}
+
+userSchema.statics.authenticate = async function (email: string, password: string) {
+  const user = await this.findByEmail(email).select('+password');
+  if (!user || !(await user.verifyPassword(password))) {
+    return null;
+  }
+
+  // Transparently upgrade hashes made with older cost parameters
+  if (needsRehash(user.password)) {
+    user.password = await hashPassword(password);
+    user.$locals.passwordHashed = true;
+    await user.save({ validateBeforeSave: false });
+  }
+
+  return user;
 }
 
-export const User = mongoose.model<IUser>('User', userSchema); 
\ No newline at end of file
+export const User = mongoose.model<IUser, IUserModel>('User', userSchema);
\ No newline at end of file
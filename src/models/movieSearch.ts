@@ -0,0 +1,187 @@
+import { PipelineStage } from 'mongoose';
+import { escapeRegex } from '../lib/regex';
+import type { IMovieBasicInfo } from './Movie';
+
+export type MovieSearchSort = 'relevance' | 'rating' | 'year' | 'title';
+
+export interface MovieSearchParams {
+  // Full-text query over title and plot (uses the text index)
+  text?: string;
+  // Movies matching any of these genres
+  genres?: string[];
+  yearFrom?: number;
+  yearTo?: number;
+  minRating?: number;
+  maxRating?: number;
+  rated?: string[];
+  cast?: string;
+  director?: string;
+  // Defaults to relevance when text is given, rating otherwise
+  sort?: MovieSearchSort;
+  limit?: number;
+  skip?: number;
+}
+
+export class MovieSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MovieSearchError';
+  }
+}
+
+export interface FacetCount<T> {
+  value: T;
+  count: number;
+}
+
+export interface RatingBucket {
+  // Lower bound of the bucket, or 'unrated'
+  from: number | 'unrated';
+  to?: number;
+  count: number;
+}
+
+export interface MovieSearchResult {
+  total: number;
+  results: (IMovieBasicInfo & { score?: number })[];
+  facets: {
+    genres: FacetCount<string>[];
+    decades: FacetCount<number>[];
+    ratings: RatingBucket[];
+  };
+}
+
+export const RATING_BUCKETS = [0, 5, 6, 7, 8, 9, 10.01];
+
+// Exact name match, ignoring case; cast/directors are arrays of names
+function nameMatcher(name: string) {
+  return { $regex: `^${escapeRegex(name.trim())}$`, $options: 'i' };
+}
+
+export function buildMovieSearchMatch(params: MovieSearchParams) {
+  const match: Record<string, unknown> = {};
+
+  if (params.text?.trim()) {
+    match.$text = { $search: params.text.trim() };
+  }
+  if (params.genres?.length) {
+    match.genres = { $in: params.genres };
+  }
+  if (params.yearFrom !== undefined || params.yearTo !== undefined) {
+    match.year = {
+      ...(params.yearFrom !== undefined && { $gte: params.yearFrom }),
+      ...(params.yearTo !== undefined && { $lte: params.yearTo })
+    };
+  }
+  if (params.minRating !== undefined || params.maxRating !== undefined) {
+    match['imdb.rating'] = {
+      ...(params.minRating !== undefined && { $gte: params.minRating }),
+      ...(params.maxRating !== undefined && { $lte: params.maxRating })
+    };
+  }
+  if (params.rated?.length) {
+    match.rated = { $in: params.rated };
+  }
+  if (params.cast) {
+    match.cast = nameMatcher(params.cast);
+  }
+  if (params.director) {
+    match.directors = nameMatcher(params.director);
+  }
+
+  return match;
+}
+
+const SORTS: Record<Exclude<MovieSearchSort, 'relevance'>, Record<string, 1 | -1>> = {
+  rating: { 'imdb.rating': -1, _id: 1 },
+  year: { year: -1, _id: 1 },
+  title: { title: 1, _id: 1 }
+};
+
+// Results, total and facet counts come back from a single $facet round trip
+export function buildMovieSearchPipeline(params: MovieSearchParams): PipelineStage[] {
+  const hasText = Boolean(params.text?.trim());
+  const sortBy = params.sort ?? (hasText ? 'relevance' : 'rating');
+  if (sortBy === 'relevance' && !hasText) {
+    throw new MovieSearchError('Sorting by relevance requires a text query');
+  }
+
+  const sort: Record<string, 1 | -1> = sortBy === 'relevance'
+    ? { score: -1, 'imdb.rating': -1, _id: 1 }
+    : SORTS[sortBy];
+
+  const pipeline: PipelineStage[] = [{ $match: buildMovieSearchMatch(params) }];
+  if (hasText) {
+    pipeline.push({ $addFields: { score: { $meta: 'textScore' } } });
+  }
+
+  pipeline.push({
+    $facet: {
+      results: [
+        { $sort: sort },
+        { $skip: params.skip ?? 0 },
+        { $limit: params.limit ?? 20 },
+        {
+          $project: {
+            title: 1, year: 1, genres: 1, rated: 1, imdb: 1,
+            ...(hasText && { score: 1 })
+          }
+        }
+      ],
+      total: [{ $count: 'count' }],
+      genres: [
+        { $unwind: '$genres' },
+        { $sortByCount: '$genres' },
+        { $project: { _id: 0, value: '$_id', count: 1 } }
+      ],
+      decades: [
+        { $match: { year: { $type: 'number' } } },
+        { $group: { _id: { $subtract: ['$year', { $mod: ['$year', 10] }] }, count: { $sum: 1 } } },
+        { $sort: { _id: 1 } },
+        { $project: { _id: 0, value: '$_id', count: 1 } }
+      ],
+      ratings: [
+        {
+          $bucket: {
+            groupBy: '$imdb.rating',
+            boundaries: RATING_BUCKETS,
+            default: 'unrated',
+            output: { count: { $sum: 1 } }
+          }
+        }
+      ]
+    }
+  });
+
+  return pipeline;
+}
+
+interface RawSearchResult {
+  results: (IMovieBasicInfo & { score?: number })[];
+  total: { count: number }[];
+  genres: FacetCount<string>[];
+  decades: FacetCount<number>[];
+  ratings: { _id: number | 'unrated'; count: number }[];
+}
+
+export function toMovieSearchResult(raw: RawSearchResult | undefined): MovieSearchResult {
+  if (!raw) {
+    return { total: 0, results: [], facets: { genres: [], decades: [], ratings: [] } };
+  }
+
+  return {
+    total: raw.total[0]?.count ?? 0,
+    results: raw.results,
+    facets: {
+      genres: raw.genres,
+      decades: raw.decades,
+      ratings: raw.ratings.map(bucket => {
+        if (bucket._id === 'unrated') {
+          return { from: 'unrated', count: bucket.count };
+        }
+        const next = RATING_BUCKETS[RATING_BUCKETS.indexOf(bucket._id) + 1];
+        return { from: bucket._id, to: Math.min(next, 10), count: bucket.count };
+      })
+    }
+  };
+}
@@ -0,0 +1,192 @@
+import { ClientSession, MongooseDefaultQueryMiddleware, Query, Schema, Types } from 'mongoose';
+import { BSON } from 'mongodb';
+import { flattenDocument } from '../../lib/csv';
+import { AuditLog, AuditOperation, IAuditChange, IAuditLog } from '../AuditLog';
+
+const { EJSON } = BSON;
+
+export interface AuditTrailOptions {
+  // Paths whose values must never be copied into the log (e.g. password);
+  // a change to them is still recorded, just without from/to.
+  redact?: string[];
+  // Paths that never produce a log entry on their own
+  ignore?: string[];
+}
+
+type Snapshot = Record<string, unknown>;
+type AuditEntry = Omit<IAuditLog, '_id' | 'at'>;
+type AnyQuery = Query<unknown, unknown>;
+
+const ALWAYS_IGNORED = ['_id', '__v', 'updatedAt'];
+
+const UPDATE_QUERIES: MongooseDefaultQueryMiddleware[] = [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace'
+];
+const DELETE_QUERIES: MongooseDefaultQueryMiddleware[] = ['deleteOne', 'deleteMany', 'findOneAndDelete'];
+const MULTI_QUERIES = ['updateMany', 'deleteMany'];
+
+// Query#op is set at runtime but missing from the type declarations
+const operationOf = (query: AnyQuery) => (query as AnyQuery & { op: string }).op;
+
+function snapshotOf(doc: unknown): Snapshot {
+  if (!doc) {
+    return {};
+  }
+  const plain = typeof (doc as { toObject?: unknown }).toObject === 'function'
+    ? (doc as { toObject(options: object): Snapshot }).toObject({ depopulate: true, virtuals: false, transform: false })
+    : doc as Snapshot;
+  return flattenDocument(plain);
+}
+
+function matchesPath(path: string, prefixes: string[]) {
+  return prefixes.some(prefix => path === prefix || path.startsWith(`${prefix}.`));
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  EJSON.stringify({ v: a ?? null }, { relaxed: false }) === EJSON.stringify({ v: b ?? null }, { relaxed: false });
+
+export function diffSnapshots(before: Snapshot, after: Snapshot, ignore: string[] = [], redact: string[] = []) {
+  const paths = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  const changes: IAuditChange[] = [];
+
+  for (const path of paths) {
+    if (matchesPath(path, ignore) || sameValue(before[path], after[path])) {
+      continue;
+    }
+    changes.push(matchesPath(path, redact)
+      ? { path, redacted: true }
+      : { path, from: before[path], to: after[path] });
+  }
+  return changes;
+}
+
+// Soft delete and restore are updates to deletedAt; name them in the log
+function updateOperation(changes: IAuditChange[]): AuditOperation {
+  const deletedAt = changes.find(change => change.path === 'deletedAt');
+  if (!deletedAt) {
+    return 'update';
+  }
+  return deletedAt.to ? 'softDelete' : 'restore';
+}
+
+async function record(entries: AuditEntry[], session?: ClientSession | null) {
+  if (entries.length) {
+    await AuditLog.insertMany(entries, { session: session ?? undefined });
+  }
+}
+
+// Records a before/after diff of every write to the model in the audit_log
+// collection, inside the same session as the write. The actor comes from
+// doc.$locals.actor for saves and the { actor } query option for queries.
+// Query updates and deletes read the affected documents before and after
+// the write, so pass { audit: false } for large batch jobs that should not
+// pay for that.
+export function auditTrail<DocType, TModelType>(schema: Schema<DocType, TModelType>, options: AuditTrailOptions = {}) {
+  const ignore = [...ALWAYS_IGNORED, ...(options.ignore ?? [])];
+  const redact = options.redact ?? [];
+  // select: false paths have to be loaded explicitly to notice changes
+  const projection = redact.map(path => `+${path}`).join(' ');
+  const pending = new WeakMap<AnyQuery, Snapshot[]>();
+
+  function findAffected(query: AnyQuery, filter: object, single: boolean) {
+    const { session, sort } = query.getOptions();
+    const finder = query.model.find(filter, null, { session, withDeleted: true }).lean<Snapshot[]>();
+    if (projection) {
+      finder.select(projection);
+    }
+    return single ? finder.sort(sort).limit(1) : finder;
+  }
+
+  schema.post('init', function () {
+    this.$locals.auditSnapshot = snapshotOf(this);
+  });
+
+  schema.pre('save', function () {
+    this.$locals.auditIsNew = this.isNew;
+  });
+
+  schema.post('save', async function () {
+    const before = this.$locals.auditIsNew ? {} : (this.$locals.auditSnapshot as Snapshot | undefined) ?? {};
+    const after = snapshotOf(this);
+    this.$locals.auditSnapshot = after;
+
+    const changes = diffSnapshots(before, after, ignore, redact);
+    if (!changes.length) {
+      return;
+    }
+    await record([{
+      collectionName: this.collection.collectionName,
+      documentId: this._id as Types.ObjectId,
+      operation: this.$locals.auditIsNew ? 'create' : updateOperation(changes),
+      actor: (this.$locals.actor as string | undefined) ?? null,
+      changes
+    }], this.$session());
+  });
+
+  schema.pre([...UPDATE_QUERIES, ...DELETE_QUERIES], async function (this: AnyQuery) {
+    if (this.getOptions().audit === false) {
+      return;
+    }
+    pending.set(this, await findAffected(this, this.getFilter(), !MULTI_QUERIES.includes(operationOf(this))));
+  });
+
+  schema.post(UPDATE_QUERIES, async function (this: AnyQuery, result: unknown) {
+    const before = pending.get(this);
+    pending.delete(this);
+    if (!before) {
+      return;
+    }
+
+    const ids = before.map(doc => doc._id);
+    // Upserts show up as a document that was not there before
+    const created = (result as { upsertedId?: unknown } | null)?.upsertedId
+      ?? (operationOf(this).startsWith('findOneAnd') ? (result as { _id?: unknown } | null)?._id : undefined);
+    if (created && !ids.some(id => String(id) === String(created))) {
+      ids.push(created);
+    }
+    if (!ids.length) {
+      return;
+    }
+
+    const beforeById = new Map(before.map(doc => [String(doc._id), doc]));
+    const after = await findAffected(this, { _id: { $in: ids } }, false);
+    const { actor, session } = this.getOptions();
+
+    const entries: AuditEntry[] = [];
+    for (const doc of after) {
+      const previous = beforeById.get(String(doc._id));
+      const changes = diffSnapshots(snapshotOf(previous), snapshotOf(doc), ignore, redact);
+      if (changes.length) {
+        entries.push({
+          collectionName: this.model.collection.collectionName,
+          documentId: doc._id as Types.ObjectId,
+          operation: previous ? updateOperation(changes) : 'create',
+          actor: actor ?? null,
+          changes
+        });
+      }
+    }
+    await record(entries, session);
+  });
+
+  schema.post(DELETE_QUERIES, async function (this: AnyQuery, result: unknown) {
+    const before = pending.get(this);
+    pending.delete(this);
+    if (!before?.length || (result as { deletedCount?: number } | null)?.deletedCount === 0 || result === null) {
+      return;
+    }
+
+    const { actor, session } = this.getOptions();
+    await record(before.map(doc => ({
+      collectionName: this.model.collection.collectionName,
+      documentId: doc._id as Types.ObjectId,
+      operation: 'delete',
+      actor: actor ?? null,
+      changes: diffSnapshots(snapshotOf(doc), {}, ignore, redact)
+    })), session);
+  });
+}
@@ -0,0 +1,56 @@
+import { ClientSession, Document, Model, MongooseDefaultQueryMiddleware, Query, Schema } from 'mongoose';
+import { getQueryCache } from '../../lib/cache';
+
+type AnyQuery = Query<unknown, unknown>;
+
+const WRITE_QUERIES: MongooseDefaultQueryMiddleware[] = [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete'
+];
+
+// The write already happened, so a cache that cannot be reached is logged
+// rather than failing it; its entries then expire on their TTL.
+function invalidate(collection: string, session?: ClientSession | null) {
+  const run = () => getQueryCache().invalidate(collection).catch(error => {
+    console.error(`❌ Could not invalidate cached ${collection} reads:`, error);
+  });
+
+  // A read between now and the commit could still cache the old data, so
+  // transactional writes invalidate again once the session is over
+  if (session?.inTransaction()) {
+    session.once('ended', () => void run());
+  }
+  return run();
+}
+
+// Drops the query cache's entries for the model's collection on every write
+// that goes through Mongoose: save (which rent() uses), query updates and
+// deletes, document deletes, insertMany and bulkWrite. Writes made with the
+// native driver have to call getQueryCache().invalidate() themselves.
+export function cacheInvalidation<DocType, TModelType>(schema: Schema<DocType, TModelType>) {
+  schema.post('save', async function (this: Document) {
+    await invalidate(this.collection.collectionName, this.$session());
+  });
+
+  schema.post('deleteOne', { document: true, query: false }, async function (this: Document) {
+    await invalidate(this.collection.collectionName, this.$session());
+  });
+
+  schema.post(WRITE_QUERIES, async function (this: AnyQuery) {
+    await invalidate(this.model.collection.collectionName, this.getOptions().session);
+  });
+
+  schema.post('insertMany', async function (this: Model<unknown>) {
+    await invalidate(this.collection.collectionName);
+  });
+
+  schema.post('bulkWrite', async function (this: Model<unknown>) {
+    await invalidate(this.collection.collectionName);
+  });
+}
@@ -0,0 +1,97 @@
+import { Aggregate, ClientSession, FilterQuery, Model, MongooseDefaultQueryMiddleware, Query, Schema } from 'mongoose';
+
+export interface SoftDeleteFields {
+  deletedAt?: Date | null;
+  deletedBy?: string | null;
+}
+
+export interface SoftDeleteMethods {
+  isDeleted(): boolean;
+  softDelete(actor?: string, session?: ClientSession): Promise<this>;
+  restore(actor?: string, session?: ClientSession): Promise<this>;
+}
+
+export interface SoftDeleteStatics<TDoc> {
+  findDeleted(filter?: FilterQuery<TDoc>): Query<TDoc[], TDoc>;
+}
+
+// Reads and updates only see live documents unless the query is run with
+// { withDeleted: true } or its filter mentions deletedAt itself. Deletes
+// are left alone so hard deletes (cleanup, GDPR erasure) still reach
+// soft-deleted documents.
+const FILTERED_QUERIES: MongooseDefaultQueryMiddleware[] = [
+  'find',
+  'findOne',
+  'countDocuments',
+  'distinct',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'updateOne',
+  'updateMany',
+  'replaceOne'
+];
+
+// Stages that must stay first in a pipeline
+const LEADING_STAGES = ['$geoNear', '$search', '$searchMeta', '$vectorSearch', '$collStats', '$indexStats'];
+
+function excludeDeleted(this: Query<unknown, unknown>) {
+  if (this.getOptions().withDeleted || 'deletedAt' in this.getFilter()) {
+    return;
+  }
+  this.where({ deletedAt: null });
+}
+
+function excludeDeletedFromPipeline(this: Aggregate<unknown>) {
+  if ((this.options as { withDeleted?: boolean }).withDeleted) {
+    return;
+  }
+
+  const pipeline = this.pipeline();
+  const first = pipeline[0] as { $match?: Record<string, unknown> } | undefined;
+  if (first?.$match) {
+    // Merge rather than prepend: a $text match has to be the first stage
+    if (!('deletedAt' in first.$match)) {
+      first.$match = { ...first.$match, deletedAt: null };
+    }
+    return;
+  }
+
+  const at = first && LEADING_STAGES.some(stage => stage in first) ? 1 : 0;
+  pipeline.splice(at, 0, { $match: { deletedAt: null } });
+}
+
+export function softDelete<DocType, TModelType extends Model<DocType>>(schema: Schema<DocType, TModelType>) {
+  schema.path('deletedAt', { type: Date, default: null, index: true });
+  schema.path('deletedBy', { type: String, default: null });
+
+  schema.pre(FILTERED_QUERIES, excludeDeleted);
+  schema.pre('aggregate', excludeDeletedFromPipeline);
+
+  schema.methods.isDeleted = function () {
+    return Boolean(this.deletedAt);
+  };
+
+  schema.methods.softDelete = async function (actor?: string, session?: ClientSession) {
+    if (this.deletedAt) {
+      return this;
+    }
+    this.deletedAt = new Date();
+    this.deletedBy = actor ?? null;
+    this.$locals.actor = actor;
+    return this.save({ session, validateModifiedOnly: true });
+  };
+
+  schema.methods.restore = async function (actor?: string, session?: ClientSession) {
+    if (!this.deletedAt) {
+      return this;
+    }
+    this.deletedAt = null;
+    this.deletedBy = null;
+    this.$locals.actor = actor;
+    return this.save({ session, validateModifiedOnly: true });
+  };
+
+  schema.statics.findDeleted = function (filter: FilterQuery<unknown> = {}) {
+    return this.find({ ...filter, deletedAt: { $ne: null } });
+  };
+}
@@ -2,33 +2,14 @@ import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import { User, IUser } from './models/User';
 import { Movie, IMovie } from './models/Movie';
+import { AuditLog } from './models/AuditLog';
+import { runInTransaction } from './lib/transaction';
+import { connect, disconnect, getConnection } from './lib/database';
+import { rentMovie, returnMovie, extendRental, RentalError } from './services/rentalService';
+import { genreSummary, ratingCorrelation } from './services/analytics';
 
 dotenv.config();
 
-async function connectToDatabase() {
-  try {
-    const uri = process.env.MONGODB_URI;
-    if (!uri) {
-      throw new Error('MONGODB_URI is not set');
-    }
-
-    await mongoose.connect(uri);
-    console.log('✅ Connected to MongoDB with Mongoose');
-
-    mongoose.connection.on('error', (err) => {
-      console.error('❌ MongoDB connection error:', err);
-    });
-
-    mongoose.connection.on('disconnected', () => {
-      console.log('📡 MongoDB disconnected');
-    });
-
-  } catch (error) {
-    console.error('❌ Failed to connect to MongoDB:', error);
-    process.exit(1);
-  }
-}
-
 async function userCRUDExamples() {
   console.log('\n=== User CRUD Examples with Mongoose ===');
 
@@ -75,6 +56,12 @@ async function userCRUDExamples() {
     const dany = await User.findByEmail('dany@dragonstone.com');
     console.log('🔍 Found by email:', dany?.getPublicProfile());
 
+    const authenticated = await User.authenticate('dany@dragonstone.com', 'dragons123');
+    console.log('🔐 Login with correct password:', authenticated ? 'success' : 'failed');
+
+    const rejected = await User.authenticate('dany@dragonstone.com', 'wrong-password');
+    console.log('🔐 Login with wrong password:', rejected ? 'success' : 'failed');
+
     const starks = await User.find({ 
       email: { $regex: /@winterfell\.com$/ } 
     });
@@ -100,11 +87,22 @@ async function userCRUDExamples() {
 
     console.log('\n--- Deleting Users ---');
     
-    const deleteResult = await User.deleteOne({ email: 'tyrion@casterly-rock.com' });
-    console.log(`✅ Deleted ${deleteResult.deletedCount} user`);
+    const tyrion = await User.findByEmail('tyrion@casterly-rock.com');
+    await tyrion?.softDelete('mongoose-practice');
+    console.log(`✅ Soft-deleted Tyrion, still visible: ${Boolean(await User.findByEmail('tyrion@casterly-rock.com'))}`);
+
+    const deletedUsers = await User.findDeleted();
+    console.log(`🗄️ Users in the recycle bin: ${deletedUsers.length}`);
 
+    await tyrion?.restore('mongoose-practice');
+    console.log(`♻️ Restored Tyrion, visible again: ${Boolean(await User.findByEmail('tyrion@casterly-rock.com'))}`);
+
+    const history = await AuditLog.historyOf(User.collection.collectionName, user1._id);
+    console.log('📜 Jon Snow audit trail:', history.map(entry => `${entry.operation} [${entry.changes.map(change => change.path).join(', ')}]`));
+
+    // Hard deletes still reach soft-deleted documents
     const cleanup = await User.deleteMany({ 
-      email: { $in: ['jon.snow@winterfell.com', 'dany@dragonstone.com', 'arya@winterfell.com'] }
+      email: { $in: ['jon.snow@winterfell.com', 'dany@dragonstone.com', 'tyrion@casterly-rock.com', 'arya@winterfell.com'] }
     });
     console.log(`🧹 Cleaned up ${cleanup.deletedCount} test users`);
 
@@ -139,23 +137,19 @@ async function advancedQueryExamples() {
       console.log(`   ${movie.title} (${movie.year})`);
     });
 
-    const genreStats = await Movie.aggregate([
-      { $unwind: '$genres' },
-      { $group: { 
-          _id: '$genres', 
-          count: { $sum: 1 },
-          avgRating: { $avg: '$imdb.rating' }
-        }
-      },
-      { $sort: { count: -1 } },
-      { $limit: 5 }
-    ]);
+    const { db } = getConnection();
+    const genreStats = await genreSummary(db, { limit: 5 });
 
     console.log('\n📊 Genre statistics:');
     genreStats.forEach(stat => {
-      console.log(`   ${stat._id}: ${stat.count} movies, avg rating: ${stat.avgRating?.toFixed(1)}`);
+      console.log(`   ${stat.genre}: ${stat.movies} movies, avg rating: ${stat.avgRating ?? '-'}`);
     });
 
+    const [overall] = await ratingCorrelation(db, { minVotes: 1000 });
+    if (overall) {
+      console.log(`\n🍅 IMDb vs. critics: r = ${overall.correlation} over ${overall.pairs} movies`);
+    }
+
   } catch (error) {
     console.error('❌ Advanced query error:', error);
   }
@@ -203,10 +197,8 @@ async function validationExamples() {
 async function transactionExamples() {
   console.log('\n=== Transaction Examples with Mongoose ===');
 
-  const session = await mongoose.startSession();
-  
   try {
-    await session.withTransaction(async () => {
+    await runInTransaction(async (session) => {
       const user = await User.create([{
         name: 'Transaction User',
         email: 'transaction@test.com',
@@ -215,32 +207,68 @@ async function transactionExamples() {
 
       const movie = await Movie.findOne({}, null, { session });
       if (movie) {
-        movie.rentedCount = (movie.rentedCount || 0) + 1;
-        movie.lastRented = new Date();
-        await movie.save({ session });
+        await movie.rent(session);
         
         console.log(`✅ Transaction completed: User ${user[0].name} rented "${movie.title}"`);
       }
-    });
+    }, { label: 'mongooseTransaction' });
 
   } catch (error) {
     console.error('❌ Transaction failed:', error);
   } finally {
-    await session.endSession();
-    
     await User.deleteOne({ email: 'transaction@test.com' });
   }
 }
 
+async function rentalExamples() {
+  console.log('\n=== Rental Examples ===');
+
+  const user = await User.create({
+    name: 'Rental User',
+    email: 'rental@test.com',
+    password: 'password123'
+  });
+
+  try {
+    const movie = await Movie.findOne({ title: { $exists: true } });
+    if (!movie) {
+      console.log('⚠️ No movie found to rent');
+      return;
+    }
+
+    const rental = await rentMovie(user._id, movie._id);
+    console.log(`✅ ${user.name} rented "${movie.title}", due ${rental.dueDate.toDateString()}`);
+
+    const extended = await extendRental(rental._id);
+    console.log(`📅 Rental extended, now due ${extended.dueDate.toDateString()}`);
+
+    const lateReturn = new Date(extended.dueDate.getTime() + 2 * 24 * 60 * 60 * 1000);
+    const returned = await returnMovie(rental._id, lateReturn);
+    console.log(`↩️ Returned two days late, late fee: $${(returned.lateFeeCents / 100).toFixed(2)}`);
+
+    await returnMovie(rental._id);
+  } catch (error) {
+    if (error instanceof RentalError) {
+      console.log(`❌ Rental rejected as expected (${error.code}): ${error.message}`);
+    } else {
+      console.error('❌ Rental error:', error);
+    }
+  } finally {
+    await User.deleteOne({ _id: user._id });
+  }
+}
+
 async function main() {
-  await connectToDatabase();
+  const { config } = await connect();
+  console.log(`✅ Connected to MongoDB with Mongoose (${config.dbName})`);
   
   await userCRUDExamples();
   await advancedQueryExamples();
   await validationExamples();
   await transactionExamples();
+  await rentalExamples();
   
-  await mongoose.connection.close();
+  await disconnect();
   console.log('\n🏁 Mongoose practice completed!');
 }
 
@@ -248,4 +276,4 @@ if (require.main === module) {
   main().catch(console.error);
 }
 
-export { connectToDatabase, userCRUDExamples, advancedQueryExamples }; 
\ No newline at end of file
+export { userCRUDExamples, advancedQueryExamples, transactionExamples, rentalExamples }; 
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { Document, Filter, Join, NestedPaths, UpdateFilter } from 'mongodb';
+
+// Dotted paths of a document type, e.g. 'title' | 'imdb' | 'imdb.rating'
+export type Path<T> = Join<NestedPaths<T, []>, '.'> & string;
+
+// Array fields are queried by element: { genres: 'Drama' } matches ['Drama', ...]
+type Element<V> = V extends ReadonlyArray<infer E> ? E : V;
+
+// The driver's PropertyType gives up on optional subdocuments like imdb
+export type PathValue<T, P extends string> = P extends keyof T
+  ? T[P]
+  : P extends `${infer Key}.${infer Rest}`
+    ? Key extends keyof T ? PathValue<Element<NonNullable<T[Key]>>, Rest> : unknown
+    : unknown;
+
+type Comparable<T, P extends string> = NonNullable<Element<PathValue<T, P>>>;
+
+type NumericPath<T> = { [P in Path<T>]: NonNullable<PathValue<T, P>> extends number ? P : never }[Path<T>];
+
+type ArrayPath<T> = { [P in Path<T>]: NonNullable<PathValue<T, P>> extends ReadonlyArray<unknown> ? P : never }[Path<T>];
+
+export interface FilterBuilder<T> {
+  eq<P extends Path<T>>(path: P, value: Element<PathValue<T, P>> | PathValue<T, P>): FilterBuilder<T>;
+  ne<P extends Path<T>>(path: P, value: Element<PathValue<T, P>> | PathValue<T, P>): FilterBuilder<T>;
+  in<P extends Path<T>>(path: P, values: Element<PathValue<T, P>>[]): FilterBuilder<T>;
+  nin<P extends Path<T>>(path: P, values: Element<PathValue<T, P>>[]): FilterBuilder<T>;
+  gt<P extends Path<T>>(path: P, value: Comparable<T, P>): FilterBuilder<T>;
+  gte<P extends Path<T>>(path: P, value: Comparable<T, P>): FilterBuilder<T>;
+  lt<P extends Path<T>>(path: P, value: Comparable<T, P>): FilterBuilder<T>;
+  lte<P extends Path<T>>(path: P, value: Comparable<T, P>): FilterBuilder<T>;
+  exists(path: Path<T>, exists?: boolean): FilterBuilder<T>;
+  // Escape hatch for operators the builder does not cover ($text, $or, ...)
+  where(filter: Filter<T>): FilterBuilder<T>;
+  build(): Filter<T>;
+}
+
+export interface UpdateBuilder<T> {
+  set<P extends Path<T>>(path: P, value: PathValue<T, P>): UpdateBuilder<T>;
+  unset(path: Path<T>): UpdateBuilder<T>;
+  inc(path: NumericPath<T>, by?: number): UpdateBuilder<T>;
+  push<P extends ArrayPath<T>>(path: P, value: Element<PathValue<T, P>>): UpdateBuilder<T>;
+  addToSet<P extends ArrayPath<T>>(path: P, value: Element<PathValue<T, P>>): UpdateBuilder<T>;
+  pull<P extends ArrayPath<T>>(path: P, value: Element<PathValue<T, P>>): UpdateBuilder<T>;
+  currentDate(path: Path<T>): UpdateBuilder<T>;
+  isEmpty(): boolean;
+  build(): UpdateFilter<T>;
+}
+
+// Conditions on the same path are merged, so gte + lte gives a range
+export function filterOf<T>(): FilterBuilder<T> {
+  const filter: Document = {};
+
+  const operator = (path: string, op: string, value: unknown) => {
+    const current = filter[path];
+    const isOperatorObject = current !== null && typeof current === 'object' && !Array.isArray(current)
+      && Object.keys(current).every(key => key.startsWith('$'));
+    filter[path] = { ...(isOperatorObject ? current : {}), [op]: value };
+    return builder;
+  };
+
+  const builder: FilterBuilder<T> = {
+    eq(path, value) {
+      filter[path] = value;
+      return builder;
+    },
+    ne: (path, value) => operator(path, '$ne', value),
+    in: (path, values) => operator(path, '$in', values),
+    nin: (path, values) => operator(path, '$nin', values),
+    gt: (path, value) => operator(path, '$gt', value),
+    gte: (path, value) => operator(path, '$gte', value),
+    lt: (path, value) => operator(path, '$lt', value),
+    lte: (path, value) => operator(path, '$lte', value),
+    exists: (path, exists = true) => operator(path, '$exists', exists),
+    where(extra) {
+      filter.$and = [...(filter.$and ?? []), extra];
+      return builder;
+    },
+    build: () => ({ ...filter }) as Filter<T>
+  };
+  return builder;
+}
+
+export function updateOf<T>(): UpdateBuilder<T> {
+  const update: Record<string, Document> = {};
+
+  const operator = (op: string, path: string, value: unknown) => {
+    update[op] = { ...update[op], [path]: value };
+    return builder;
+  };
+
+  const builder: UpdateBuilder<T> = {
+    set: (path, value) => operator('$set', path, value),
+    unset: path => operator('$unset', path, ''),
+    inc: (path, by = 1) => operator('$inc', path, by),
+    push: (path, value) => operator('$push', path, value),
+    addToSet: (path, value) => operator('$addToSet', path, value),
+    pull: (path, value) => operator('$pull', path, value),
+    currentDate: path => operator('$currentDate', path, true),
+    isEmpty: () => Object.keys(update).length === 0,
+    build: () => ({ ...update }) as UpdateFilter<T>
+  };
+  return builder;
+}
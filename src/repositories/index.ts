@@ -0,0 +1,19 @@
+import { Db } from 'mongodb';
+import { createUserRepository, UserRepository } from './userRepository';
+import { createMovieRepository, MovieRepository } from './movieRepository';
+import { createRentalRepository, RentalRepository } from './rentalRepository';
+
+export interface Repositories {
+  users: UserRepository;
+  movies: MovieRepository;
+  rentals: RentalRepository;
+}
+
+// Repositories are stateless wrappers, so creating them per call is cheap
+export function createRepositories(db: Db): Repositories {
+  return {
+    users: createUserRepository(db),
+    movies: createMovieRepository(db),
+    rentals: createRentalRepository(db)
+  };
+}
@@ -0,0 +1,41 @@
+import { Db, WithId } from 'mongodb';
+import type { IMovieData } from '../models/Movie';
+import { createRepository, FindManyOptions, Id, Repository, RepositoryOptions, toObjectId } from './repository';
+import { filterOf, updateOf } from './builders';
+
+export type MovieRecord = WithId<IMovieData>;
+
+export interface MovieRepository extends Repository<IMovieData> {
+  findByGenre(genre: string, options?: FindManyOptions): Promise<MovieRecord[]>;
+  findHighRated(minRating?: number, options?: FindManyOptions): Promise<MovieRecord[]>;
+  // Bumps rentedCount and lastRented; returns the updated movie
+  recordRental(id: Id, options?: RepositoryOptions): Promise<MovieRecord | null>;
+}
+
+export function createMovieRepository(db: Db): MovieRepository {
+  // Timestamps like the model, so incremental movie_stats refreshes see the change
+  const base = createRepository<IMovieData>(db.collection<IMovieData>('movies'), {
+    entity: 'Movie',
+    timestamps: true
+  });
+
+  return {
+    ...base,
+
+    findByGenre(genre, options = {}) {
+      return base.find(filterOf<IMovieData>().eq('genres', genre).build(), options);
+    },
+
+    findHighRated(minRating = 7, options = {}) {
+      return base.find(filterOf<IMovieData>().gte('imdb.rating', minRating).build(), {
+        sort: { 'imdb.rating': -1 },
+        ...options
+      });
+    },
+
+    recordRental(id, options = {}) {
+      const update = updateOf<IMovieData>().inc('rentedCount').set('lastRented', new Date());
+      return base.findOneAndUpdate({ _id: toObjectId(id, 'Movie') }, update.build(), options);
+    }
+  };
+}
@@ -0,0 +1,73 @@
+import { Db, WithId } from 'mongodb';
+import type { IRentalData } from '../models/Rental';
+import { createRepository, Id, Repository, RepositoryOptions, toObjectId } from './repository';
+import { filterOf, updateOf } from './builders';
+
+export type RentalRecord = WithId<IRentalData>;
+
+export interface NewRental {
+  user: Id;
+  movie: Id;
+  rentedAt?: Date;
+  dueDate: Date;
+}
+
+export interface ReturnDetails {
+  returnedAt?: Date;
+  lateFeeCents?: number;
+}
+
+export interface RentalRepository extends Repository<IRentalData> {
+  create(rental: NewRental, options?: RepositoryOptions): Promise<RentalRecord>;
+  findActiveByUser(userId: Id, options?: RepositoryOptions): Promise<RentalRecord[]>;
+  countActive(by: { user?: Id; movie?: Id }, options?: RepositoryOptions): Promise<number>;
+  // Only active rentals can be returned; null when it is not active
+  markReturned(id: Id, details?: ReturnDetails, options?: RepositoryOptions): Promise<RentalRecord | null>;
+}
+
+export function createRentalRepository(db: Db): RentalRepository {
+  const base = createRepository<IRentalData>(db.collection<IRentalData>('rentals'), {
+    entity: 'Rental',
+    timestamps: true
+  });
+
+  return {
+    ...base,
+
+    create({ user, movie, rentedAt = new Date(), dueDate }, options = {}) {
+      return base.insertOne({
+        user: toObjectId(user, 'User'),
+        movie: toObjectId(movie, 'Movie'),
+        rentedAt,
+        dueDate,
+        status: 'active',
+        extensions: 0,
+        lateFeeCents: 0
+      }, options);
+    },
+
+    findActiveByUser(userId, options = {}) {
+      const filter = filterOf<IRentalData>().eq('user', toObjectId(userId, 'User')).eq('status', 'active');
+      return base.find(filter.build(), { sort: { dueDate: 1 }, ...options });
+    },
+
+    countActive({ user, movie }, options = {}) {
+      const filter = filterOf<IRentalData>().eq('status', 'active');
+      if (user) {
+        filter.eq('user', toObjectId(user, 'User'));
+      }
+      if (movie) {
+        filter.eq('movie', toObjectId(movie, 'Movie'));
+      }
+      return base.count(filter.build(), options);
+    },
+
+    markReturned(id, { returnedAt = new Date(), lateFeeCents = 0 } = {}, options = {}) {
+      const update = updateOf<IRentalData>()
+        .set('status', 'returned')
+        .set('returnedAt', returnedAt)
+        .set('lateFeeCents', lateFeeCents);
+      return base.findOneAndUpdate({ _id: toObjectId(id, 'Rental'), status: 'active' }, update.build(), options);
+    }
+  };
+}
@@ -0,0 +1,275 @@
+import {
+  ClientSession,
+  Collection,
+  Document,
+  Filter,
+  MongoServerError,
+  ObjectId,
+  OptionalUnlessRequiredId,
+  Sort,
+  UpdateFilter,
+  WithId
+} from 'mongodb';
+import { Page, PageOptions, paginateCollection } from '../lib/pagination';
+
+export type Id = string | ObjectId;
+
+export interface RepositoryOptions {
+  // Pass the transaction's session to make the call part of it
+  session?: ClientSession;
+  // Skip the repository's scope (e.g. include soft-deleted users)
+  withDeleted?: boolean;
+}
+
+export interface FindManyOptions extends RepositoryOptions {
+  sort?: Sort;
+  limit?: number;
+  skip?: number;
+}
+
+export interface UpdateOptions extends RepositoryOptions {
+  upsert?: boolean;
+}
+
+export interface FindAndUpdateOptions extends RepositoryOptions {
+  // Defaults to 'after', unlike the driver
+  returnDocument?: 'before' | 'after';
+}
+
+export interface WriteResult {
+  matched: number;
+  modified: number;
+  upsertedId?: ObjectId;
+}
+
+// Documents as passed to insert: _id and timestamps are filled in
+export type NewDocument<T> = Omit<T, '_id' | 'createdAt' | 'updatedAt'> & { _id?: ObjectId };
+
+export type RepositoryErrorCode = 'INVALID_ID' | 'NOT_FOUND' | 'DUPLICATE_KEY' | 'VALIDATION_FAILED';
+
+export class RepositoryError extends Error {
+  constructor(
+    public code: RepositoryErrorCode,
+    message: string,
+    public details?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'RepositoryError';
+  }
+}
+
+export interface RepositoryConfig<T> {
+  // Used in error messages, e.g. 'User'
+  entity: string;
+  // Added to every read and update unless { withDeleted: true } is passed
+  // or the filter already mentions one of its fields, like the soft delete
+  // plugin does for the model.
+  scope?: Filter<T>;
+  // Top-level fields never returned, e.g. password hashes
+  hidden?: (keyof T & string)[];
+  // Maintain createdAt/updatedAt the way Mongoose's timestamps option does
+  timestamps?: boolean;
+}
+
+export interface Repository<T extends Document, TRecord = WithId<T>> {
+  readonly collection: Collection<T>;
+  findById(id: Id, options?: RepositoryOptions): Promise<TRecord | null>;
+  // Like findById, but a missing document is a NOT_FOUND error
+  getById(id: Id, options?: RepositoryOptions): Promise<TRecord>;
+  findOne(filter: Filter<T>, options?: FindManyOptions): Promise<TRecord | null>;
+  find(filter: Filter<T>, options?: FindManyOptions): Promise<TRecord[]>;
+  count(filter?: Filter<T>, options?: RepositoryOptions): Promise<number>;
+  paginate(filter: Filter<T>, options?: PageOptions & RepositoryOptions): Promise<Page<TRecord>>;
+  insertOne(doc: NewDocument<T>, options?: RepositoryOptions): Promise<TRecord>;
+  updateById(id: Id, update: UpdateFilter<T>, options?: UpdateOptions): Promise<WriteResult>;
+  updateOne(filter: Filter<T>, update: UpdateFilter<T>, options?: UpdateOptions): Promise<WriteResult>;
+  updateMany(filter: Filter<T>, update: UpdateFilter<T>, options?: UpdateOptions): Promise<WriteResult>;
+  findOneAndUpdate(filter: Filter<T>, update: UpdateFilter<T>, options?: FindAndUpdateOptions): Promise<TRecord | null>;
+  // Hard deletes; scopes do not apply
+  deleteById(id: Id, options?: RepositoryOptions): Promise<boolean>;
+  deleteMany(filter: Filter<T>, options?: RepositoryOptions): Promise<number>;
+}
+
+export function toObjectId(id: Id, entity = 'Document'): ObjectId {
+  if (id instanceof ObjectId) {
+    return id;
+  }
+  if (!/^[0-9a-f]{24}$/i.test(id)) {
+    throw new RepositoryError('INVALID_ID', `Invalid ${entity.toLowerCase()} id "${id}"`);
+  }
+  return new ObjectId(id);
+}
+
+// Duplicate keys and validator rejections become RepositoryErrors. Anything
+// else is rethrown as is so transaction retries still see the server's
+// error labels.
+export function translateWriteError(error: unknown, entity: string): unknown {
+  if (!(error instanceof MongoServerError)) {
+    return error;
+  }
+  if (error.code === 11000) {
+    const details: Record<string, string> = {};
+    Object.keys(error.keyValue ?? {}).forEach(field => {
+      details[field] = `${field} already exists`;
+    });
+    return new RepositoryError('DUPLICATE_KEY', `${entity} already exists`, details);
+  }
+  if (error.code === 121) {
+    return new RepositoryError('VALIDATION_FAILED', `${entity} failed document validation`);
+  }
+  return error;
+}
+
+// Plain driver access with the conventions the Mongoose models apply:
+// scopes, hidden fields and timestamps. Validation, middleware and the
+// audit trail live in Mongoose and do not run here; unique indexes and
+// collection validators still do.
+export function createRepository<T extends Document, TRecord = WithId<T>>(
+  collection: Collection<T>,
+  config: RepositoryConfig<T>
+): Repository<T, TRecord> {
+  const { entity, scope, hidden = [], timestamps = false } = config;
+  const projection = hidden.length ? Object.fromEntries(hidden.map(field => [field, 0])) : undefined;
+
+  const scoped = (filter: Filter<T>, options: RepositoryOptions): Filter<T> => {
+    if (!scope || options.withDeleted || Object.keys(scope).some(field => field in filter)) {
+      return filter;
+    }
+    return { ...filter, ...scope };
+  };
+
+  const byId = (id: Id) => ({ _id: toObjectId(id, entity) }) as Filter<T>;
+
+  const stamped = (update: UpdateFilter<T>, upsert = false): UpdateFilter<T> => {
+    if (!timestamps) {
+      return update;
+    }
+    const now = new Date();
+    const { $set = {}, $setOnInsert = {} } = update as Document;
+    return {
+      ...update,
+      $set: { updatedAt: now, ...$set },
+      ...(upsert && { $setOnInsert: { createdAt: now, ...$setOnInsert } })
+    } as UpdateFilter<T>;
+  };
+
+  const withoutHidden = (doc: Document): TRecord => {
+    const record = { ...doc };
+    hidden.forEach(field => delete record[field]);
+    return record as TRecord;
+  };
+
+  const write = async <R>(operation: () => Promise<R>): Promise<R> => {
+    try {
+      return await operation();
+    } catch (error) {
+      throw translateWriteError(error, entity);
+    }
+  };
+
+  const toWriteResult = (result: { matchedCount: number; modifiedCount: number; upsertedId: ObjectId | null }) => ({
+    matched: result.matchedCount,
+    modified: result.modifiedCount,
+    ...(result.upsertedId && { upsertedId: result.upsertedId })
+  });
+
+  const repository: Repository<T, TRecord> = {
+    collection,
+
+    async findById(id, options = {}) {
+      return repository.findOne(byId(id), options);
+    },
+
+    async getById(id, options = {}) {
+      const doc = await repository.findById(id, options);
+      if (!doc) {
+        throw new RepositoryError('NOT_FOUND', `${entity} ${id} not found`);
+      }
+      return doc;
+    },
+
+    async findOne(filter, options = {}) {
+      const doc = await collection.findOne(scoped(filter, options), {
+        projection,
+        sort: options.sort,
+        skip: options.skip,
+        session: options.session
+      });
+      return doc as TRecord | null;
+    },
+
+    async find(filter, options = {}) {
+      const cursor = collection.find(scoped(filter, options), { projection, session: options.session });
+      if (options.sort) {
+        cursor.sort(options.sort);
+      }
+      if (options.skip) {
+        cursor.skip(options.skip);
+      }
+      if (options.limit) {
+        cursor.limit(options.limit);
+      }
+      return await cursor.toArray() as TRecord[];
+    },
+
+    count(filter = {}, options = {}) {
+      return collection.countDocuments(scoped(filter, options), { session: options.session });
+    },
+
+    async paginate(filter, options = {}) {
+      const page = await paginateCollection(collection, scoped(filter, options), {
+        ...options,
+        projection: { ...options.projection, ...projection }
+      });
+      return page as unknown as Page<TRecord>;
+    },
+
+    async insertOne(doc, options = {}) {
+      const now = new Date();
+      const stored = { ...doc, ...(timestamps && { createdAt: now, updatedAt: now }) } as Document;
+      const result = await write(() =>
+        collection.insertOne(stored as OptionalUnlessRequiredId<T>, { session: options.session }));
+      return withoutHidden({ ...stored, _id: result.insertedId });
+    },
+
+    async updateById(id, update, options = {}) {
+      return repository.updateOne(byId(id), update, options);
+    },
+
+    async updateOne(filter, update, options = {}) {
+      const result = await write(() => collection.updateOne(scoped(filter, options), stamped(update, options.upsert), {
+        upsert: options.upsert,
+        session: options.session
+      }));
+      return toWriteResult(result);
+    },
+
+    async updateMany(filter, update, options = {}) {
+      const result = await write(() => collection.updateMany(scoped(filter, options), stamped(update, options.upsert), {
+        upsert: options.upsert,
+        session: options.session
+      }));
+      return toWriteResult(result);
+    },
+
+    async findOneAndUpdate(filter, update, options = {}) {
+      const doc = await write(() => collection.findOneAndUpdate(scoped(filter, options), stamped(update), {
+        projection,
+        returnDocument: options.returnDocument ?? 'after',
+        session: options.session
+      }));
+      return doc as TRecord | null;
+    },
+
+    async deleteById(id, options = {}) {
+      const result = await collection.deleteOne(byId(id), { session: options.session });
+      return result.deletedCount === 1;
+    },
+
+    async deleteMany(filter, options = {}) {
+      const result = await collection.deleteMany(filter, { session: options.session });
+      return result.deletedCount;
+    }
+  };
+  return repository;
+}
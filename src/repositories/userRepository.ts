@@ -0,0 +1,69 @@
+import { Db, WithId } from 'mongodb';
+import type { IUserData, UserRole } from '../models/User';
+import { hashPassword } from '../lib/password';
+import { createRepository, Id, Repository, RepositoryOptions, toObjectId } from './repository';
+import { updateOf } from './builders';
+
+// Password hashes never leave the repository
+export type UserRecord = Omit<WithId<IUserData>, 'password'>;
+
+export interface NewUser {
+  name: string;
+  email: string;
+  // Plain text; hashed before it is stored
+  password: string;
+  role?: UserRole;
+}
+
+export interface UserRepository extends Repository<IUserData, UserRecord> {
+  create(user: NewUser, options?: RepositoryOptions): Promise<UserRecord>;
+  findByEmail(email: string, options?: RepositoryOptions): Promise<UserRecord | null>;
+  // Both return false when there was nothing to change
+  softDelete(id: Id, actor?: string, options?: RepositoryOptions): Promise<boolean>;
+  restore(id: Id, options?: RepositoryOptions): Promise<boolean>;
+}
+
+export function createUserRepository(db: Db): UserRepository {
+  const base = createRepository<IUserData, UserRecord>(db.collection<IUserData>('users'), {
+    entity: 'User',
+    scope: { deletedAt: null },
+    hidden: ['password'],
+    timestamps: true
+  });
+
+  return {
+    ...base,
+
+    async create({ name, email, password, role = 'customer' }, options = {}) {
+      return base.insertOne({
+        name: name.trim(),
+        email: email.trim().toLowerCase(),
+        password: await hashPassword(password),
+        role,
+        deletedAt: null,
+        deletedBy: null
+      }, options);
+    },
+
+    findByEmail(email, options = {}) {
+      return base.findOne({ email: email.trim().toLowerCase() }, options);
+    },
+
+    async softDelete(id, actor, options = {}) {
+      const update = updateOf<IUserData>().set('deletedAt', new Date()).set('deletedBy', actor ?? null);
+      // Scoped to live users, so deleting twice keeps the original deletedAt
+      const result = await base.updateById(id, update.build(), { ...options, withDeleted: false });
+      return result.modified === 1;
+    },
+
+    async restore(id, options = {}) {
+      const update = updateOf<IUserData>().set('deletedAt', null).set('deletedBy', null);
+      const result = await base.updateOne(
+        { _id: toObjectId(id, 'User'), deletedAt: { $ne: null } },
+        update.build(),
+        options
+      );
+      return result.modified === 1;
+    }
+  };
+}
@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+import { createApp } from './api/app';
+import { createMemoryStore, createQueryCache, setQueryCache } from './lib/cache';
+import { getConfig } from './lib/config';
+import { connect, handleShutdownSignals, onShutdown } from './lib/database';
+import { scheduleMovieStatsRefresh } from './services/movieStats';
+
+dotenv.config();
+
+async function main() {
+  const config = getConfig();
+  if (!config.auth.jwtSecret) {
+    throw new Error('JWT_SECRET is required to serve the API (at least 32 characters)');
+  }
+  const { db } = await connect(config.mongo);
+  console.log(`✅ Connected to MongoDB (${config.mongo.dbName})`);
+  setQueryCache(createQueryCache(createMemoryStore({ maxEntries: config.cache.maxEntries }), { ttlMs: config.cache.ttlMs }));
+
+  if (config.movieStatsRefreshMs > 0) {
+    const scheduler = scheduleMovieStatsRefresh(db, {
+      intervalMs: config.movieStatsRefreshMs,
+      onRefresh: ({ mode, changedMovies, genres, durationMs }) =>
+        console.log(`📊 movie_stats ${mode} refresh: ${changedMovies} movies, ${genres} genres in ${durationMs}ms`)
+    });
+    onShutdown(() => scheduler.stop());
+  }
+
+  const server = createApp().listen(config.port, () => {
+    console.log(`🚀 API listening on http://localhost:${config.port}`);
+  });
+
+  // Stop taking requests first; the connection is drained after this
+  onShutdown(() => new Promise<void>((resolve, reject) => {
+    server.close(error => (error ? reject(error) : resolve()));
+  }));
+  handleShutdownSignals({ timeoutMs: config.shutdownTimeoutMs });
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
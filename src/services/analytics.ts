@@ -0,0 +1,348 @@
+import { Db, Document, ObjectId } from 'mongodb';
+
+// Reusable, parameterized pipelines over movies and rentals. Builders are
+// exported separately from the runners so a pipeline can be inspected,
+// explained or reused in a $facet.
+
+export interface GenreSummaryParams {
+  limit?: number;
+}
+
+export interface GenreSummary {
+  genre: string;
+  movies: number;
+  avgRating: number | null;
+}
+
+export interface TopRatedParams {
+  genres?: string[];
+  decadeFrom?: number;
+  decadeTo?: number;
+  // Ratings backed by few votes are noise
+  minVotes?: number;
+  perGroup?: number;
+}
+
+export interface RatedTitle {
+  _id: ObjectId;
+  title: string;
+  year: number;
+  rating: number;
+  votes: number;
+}
+
+export interface TopRatedGroup {
+  genre: string;
+  decade: number;
+  movies: RatedTitle[];
+}
+
+export type PersonRole = 'directors' | 'cast';
+
+export interface LeaderboardParams {
+  role: PersonRole;
+  genre?: string;
+  minMovies?: number;
+  limit?: number;
+}
+
+export interface LeaderboardEntry {
+  name: string;
+  movies: number;
+  avgRating: number;
+  totalVotes: number;
+  bestTitle: string;
+  bestRating: number;
+}
+
+export type CorrelationGroup = 'none' | 'genre' | 'decade';
+
+export interface CorrelationParams {
+  groupBy?: CorrelationGroup;
+  minVotes?: number;
+  // Groups with fewer rated pairs are left out
+  minPairs?: number;
+}
+
+export interface RatingCorrelation {
+  // null when not grouped
+  group: string | number | null;
+  pairs: number;
+  avgImdb: number;
+  avgCritic: number;
+  // Pearson's r; null when either rating has no variance
+  correlation: number | null;
+}
+
+export interface RentalTrendParams {
+  from?: Date;
+  to?: Date;
+  // Width of the moving average, in weeks
+  window?: number;
+}
+
+export interface RentalWeek {
+  // Start of the week (Monday, UTC)
+  week: Date;
+  rentals: number;
+  returned: number;
+  lateFeeCents: number;
+  movingAverage: number;
+  cumulative: number;
+}
+
+export interface MostRentedParams {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface MostRentedTitle {
+  movieId: ObjectId;
+  title: string | null;
+  year: number | null;
+  rentals: number;
+  active: number;
+  lateFeeCents: number;
+}
+
+// sample_mflix has ratings stored as '' and years like '2012è'
+const RATED = { 'imdb.rating': { $type: 'number' } };
+const DATED = { year: { $type: 'number' } };
+
+const round = (expression: unknown, places = 2) => ({ $round: [expression, places] });
+
+function rentedBetween(from?: Date, to?: Date): Document {
+  if (!from && !to) {
+    return {};
+  }
+  return { rentedAt: { ...(from && { $gte: from }), ...(to && { $lt: to }) } };
+}
+
+export function genreSummaryPipeline({ limit = 10 }: GenreSummaryParams = {}): Document[] {
+  return [
+    { $unwind: '$genres' },
+    { $group: { _id: '$genres', movies: { $sum: 1 }, avgRating: { $avg: '$imdb.rating' } } },
+    { $sort: { movies: -1, _id: 1 } },
+    { $limit: limit },
+    { $project: { _id: 0, genre: '$_id', movies: 1, avgRating: round('$avgRating', 1) } }
+  ];
+}
+
+export function topRatedPipeline(params: TopRatedParams = {}): Document[] {
+  const { genres, decadeFrom, decadeTo, minVotes = 1000, perGroup = 3 } = params;
+  const decade = { $subtract: ['$year', { $mod: ['$year', 10] }] };
+
+  return [
+    {
+      $match: {
+        ...RATED,
+        ...DATED,
+        'imdb.votes': { $gte: minVotes },
+        ...(genres?.length && { genres: { $in: genres } })
+      }
+    },
+    { $unwind: '$genres' },
+    ...(genres?.length ? [{ $match: { genres: { $in: genres } } }] : []),
+    { $set: { decade } },
+    ...(decadeFrom !== undefined || decadeTo !== undefined
+      ? [{
+        $match: {
+          decade: { ...(decadeFrom !== undefined && { $gte: decadeFrom }), ...(decadeTo !== undefined && { $lte: decadeTo }) }
+        }
+      }]
+      : []),
+    {
+      $group: {
+        _id: { genre: '$genres', decade: '$decade' },
+        movies: {
+          $topN: {
+            n: perGroup,
+            sortBy: { 'imdb.rating': -1, 'imdb.votes': -1, _id: 1 },
+            output: { _id: '$_id', title: '$title', year: '$year', rating: '$imdb.rating', votes: '$imdb.votes' }
+          }
+        }
+      }
+    },
+    { $sort: { '_id.genre': 1, '_id.decade': 1 } },
+    { $project: { _id: 0, genre: '$_id.genre', decade: '$_id.decade', movies: 1 } }
+  ];
+}
+
+export function leaderboardPipeline({ role, genre, minMovies = 3, limit = 10 }: LeaderboardParams): Document[] {
+  return [
+    { $match: { ...RATED, [role]: { $type: 'array' }, ...(genre && { genres: genre }) } },
+    { $unwind: `$${role}` },
+    {
+      $group: {
+        _id: `$${role}`,
+        movies: { $sum: 1 },
+        avgRating: { $avg: '$imdb.rating' },
+        totalVotes: { $sum: { $ifNull: ['$imdb.votes', 0] } },
+        best: { $top: { sortBy: { 'imdb.rating': -1, _id: 1 }, output: { title: '$title', rating: '$imdb.rating' } } }
+      }
+    },
+    { $match: { movies: { $gte: minMovies } } },
+    { $sort: { avgRating: -1, movies: -1, _id: 1 } },
+    { $limit: limit },
+    {
+      $project: {
+        _id: 0,
+        name: '$_id',
+        movies: 1,
+        avgRating: round('$avgRating'),
+        totalVotes: 1,
+        bestTitle: '$best.title',
+        bestRating: '$best.rating'
+      }
+    }
+  ];
+}
+
+// Pearson's r from running sums, so the whole thing stays in one $group:
+// r = (n·Σxy − Σx·Σy) / √((n·Σx² − (Σx)²) · (n·Σy² − (Σy)²))
+export function ratingCorrelationPipeline(params: CorrelationParams = {}): Document[] {
+  const { groupBy = 'none', minVotes = 0, minPairs = 2 } = params;
+  const x = '$imdb.rating';
+  const y = '$tomatoes.critic.rating';
+  const groupKey = { none: null, genre: '$genres', decade: { $subtract: ['$year', { $mod: ['$year', 10] }] } }[groupBy];
+
+  return [
+    {
+      $match: {
+        ...RATED,
+        'tomatoes.critic.rating': { $type: 'number' },
+        ...(minVotes > 0 && { 'imdb.votes': { $gte: minVotes } }),
+        ...(groupBy === 'decade' && DATED)
+      }
+    },
+    ...(groupBy === 'genre' ? [{ $unwind: '$genres' }] : []),
+    {
+      $group: {
+        _id: groupKey,
+        n: { $sum: 1 },
+        sumX: { $sum: x },
+        sumY: { $sum: y },
+        sumXY: { $sum: { $multiply: [x, y] } },
+        sumX2: { $sum: { $multiply: [x, x] } },
+        sumY2: { $sum: { $multiply: [y, y] } }
+      }
+    },
+    { $match: { n: { $gte: minPairs } } },
+    {
+      $set: {
+        numerator: { $subtract: [{ $multiply: ['$n', '$sumXY'] }, { $multiply: ['$sumX', '$sumY'] }] },
+        denominator: {
+          $sqrt: {
+            $multiply: [
+              { $max: [0, { $subtract: [{ $multiply: ['$n', '$sumX2'] }, { $multiply: ['$sumX', '$sumX'] }] }] },
+              { $max: [0, { $subtract: [{ $multiply: ['$n', '$sumY2'] }, { $multiply: ['$sumY', '$sumY'] }] }] }
+            ]
+          }
+        }
+      }
+    },
+    {
+      $project: {
+        _id: 0,
+        group: '$_id',
+        pairs: '$n',
+        avgImdb: round({ $divide: ['$sumX', '$n'] }),
+        avgCritic: round({ $divide: ['$sumY', '$n'] }),
+        correlation: {
+          $cond: [{ $eq: ['$denominator', 0] }, null, round({ $divide: ['$numerator', '$denominator'] }, 3)]
+        }
+      }
+    },
+    { $sort: { pairs: -1, group: 1 } }
+  ];
+}
+
+// Weeks without rentals are left out rather than reported as zero
+export function rentalTrendsPipeline({ from, to, window = 4 }: RentalTrendParams = {}): Document[] {
+  return [
+    { $match: rentedBetween(from, to) },
+    {
+      $group: {
+        _id: { $dateTrunc: { date: '$rentedAt', unit: 'week', startOfWeek: 'monday' } },
+        rentals: { $sum: 1 },
+        returned: { $sum: { $cond: [{ $eq: ['$status', 'returned'] }, 1, 0] } },
+        lateFeeCents: { $sum: { $ifNull: ['$lateFeeCents', 0] } }
+      }
+    },
+    {
+      $setWindowFields: {
+        sortBy: { _id: 1 },
+        output: {
+          movingAverage: { $avg: '$rentals', window: { documents: [-(window - 1), 0] } },
+          cumulative: { $sum: '$rentals', window: { documents: ['unbounded', 'current'] } }
+        }
+      }
+    },
+    { $sort: { _id: 1 } },
+    {
+      $project: {
+        _id: 0,
+        week: '$_id',
+        rentals: 1,
+        returned: 1,
+        lateFeeCents: 1,
+        movingAverage: round('$movingAverage'),
+        cumulative: 1
+      }
+    }
+  ];
+}
+
+export function mostRentedPipeline({ from, to, limit = 10 }: MostRentedParams = {}): Document[] {
+  return [
+    { $match: rentedBetween(from, to) },
+    {
+      $group: {
+        _id: '$movie',
+        rentals: { $sum: 1 },
+        active: { $sum: { $cond: [{ $eq: ['$status', 'active'] }, 1, 0] } },
+        lateFeeCents: { $sum: { $ifNull: ['$lateFeeCents', 0] } }
+      }
+    },
+    { $sort: { rentals: -1, _id: 1 } },
+    { $limit: limit },
+    { $lookup: { from: 'movies', localField: '_id', foreignField: '_id', as: 'movie', pipeline: [{ $project: { title: 1, year: 1 } }] } },
+    { $unwind: { path: '$movie', preserveNullAndEmptyArrays: true } },
+    {
+      $project: {
+        _id: 0,
+        movieId: '$_id',
+        title: { $ifNull: ['$movie.title', null] },
+        year: { $ifNull: ['$movie.year', null] },
+        rentals: 1,
+        active: 1,
+        lateFeeCents: 1
+      }
+    }
+  ];
+}
+
+export function genreSummary(db: Db, params: GenreSummaryParams = {}) {
+  return db.collection('movies').aggregate<GenreSummary>(genreSummaryPipeline(params)).toArray();
+}
+
+export function topRatedByGenreAndDecade(db: Db, params: TopRatedParams = {}) {
+  return db.collection('movies').aggregate<TopRatedGroup>(topRatedPipeline(params)).toArray();
+}
+
+export function peopleLeaderboard(db: Db, params: LeaderboardParams) {
+  return db.collection('movies').aggregate<LeaderboardEntry>(leaderboardPipeline(params)).toArray();
+}
+
+export function ratingCorrelation(db: Db, params: CorrelationParams = {}) {
+  return db.collection('movies').aggregate<RatingCorrelation>(ratingCorrelationPipeline(params)).toArray();
+}
+
+export function rentalTrends(db: Db, params: RentalTrendParams = {}) {
+  return db.collection('rentals').aggregate<RentalWeek>(rentalTrendsPipeline(params)).toArray();
+}
+
+export function mostRentedTitles(db: Db, params: MostRentedParams = {}) {
+  return db.collection('rentals').aggregate<MostRentedTitle>(mostRentedPipeline(params)).toArray();
+}
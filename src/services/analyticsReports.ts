@@ -0,0 +1,201 @@
+import { Db } from 'mongodb';
+import { flattenDocument, toCsvLine } from '../lib/csv';
+import {
+  CorrelationGroup,
+  genreSummary,
+  mostRentedTitles,
+  peopleLeaderboard,
+  ratingCorrelation,
+  rentalTrends,
+  topRatedByGenreAndDecade
+} from './analytics';
+
+export type ReportFormat = 'json' | 'csv';
+
+// Parameters as they arrive from a query string or CLI flags
+export type ReportParams = Record<string, string | undefined>;
+
+export interface ReportDefinition {
+  name: string;
+  description: string;
+  // Accepted parameters, for usage and error messages
+  params: string[];
+  // CSV columns, in order
+  columns: string[];
+  run(db: Db, params: ReportParams): Promise<object[]>;
+}
+
+export interface Report {
+  name: string;
+  generatedAt: Date;
+  params: ReportParams;
+  rows: object[];
+}
+
+export class ReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportError';
+  }
+}
+
+const CORRELATION_GROUPS: CorrelationGroup[] = ['none', 'genre', 'decade'];
+
+function int(params: ReportParams, name: string, { min = 0, max = Infinity } = {}) {
+  const value = params[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ReportError(`${name} must be an integer between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+function date(params: ReportParams, name: string) {
+  const value = params[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new ReportError(`${name} must be a date, e.g. 2024-01-31`);
+  }
+  return parsed;
+}
+
+function list(params: ReportParams, name: string) {
+  const values = params[name]?.split(',').map(value => value.trim()).filter(Boolean);
+  return values?.length ? values : undefined;
+}
+
+const leaderboard = (role: 'directors' | 'cast', label: string): ReportDefinition => ({
+  name: role,
+  description: `${label} with the best average IMDb rating`,
+  params: ['genre', 'minMovies', 'limit'],
+  columns: ['name', 'movies', 'avgRating', 'totalVotes', 'bestTitle', 'bestRating'],
+  async run(db, params) {
+    return peopleLeaderboard(db, {
+      role,
+      genre: params.genre || undefined,
+      minMovies: int(params, 'minMovies', { min: 1 }),
+      limit: int(params, 'limit', { min: 1, max: 1000 })
+    });
+  }
+});
+
+export const REPORTS: Record<string, ReportDefinition> = {
+  genres: {
+    name: 'genres',
+    description: 'Movie count and average IMDb rating per genre',
+    params: ['limit'],
+    columns: ['genre', 'movies', 'avgRating'],
+    async run(db, params) {
+      return genreSummary(db, { limit: int(params, 'limit', { min: 1, max: 1000 }) });
+    }
+  },
+  'top-rated': {
+    name: 'top-rated',
+    description: 'Best rated movies per genre and decade',
+    params: ['genres', 'decadeFrom', 'decadeTo', 'minVotes', 'perGroup'],
+    columns: ['genre', 'decade', 'rank', 'title', 'year', 'rating', 'votes', '_id'],
+    async run(db, params) {
+      const groups = await topRatedByGenreAndDecade(db, {
+        genres: list(params, 'genres'),
+        decadeFrom: int(params, 'decadeFrom'),
+        decadeTo: int(params, 'decadeTo'),
+        minVotes: int(params, 'minVotes'),
+        perGroup: int(params, 'perGroup', { min: 1, max: 100 })
+      });
+      // One row per movie so the CSV stays flat
+      return groups.flatMap(({ genre, decade, movies }) =>
+        movies.map((movie, i) => ({ genre, decade, rank: i + 1, ...movie })));
+    }
+  },
+  directors: leaderboard('directors', 'Directors'),
+  cast: leaderboard('cast', 'Actors'),
+  'rating-correlation': {
+    name: 'rating-correlation',
+    description: 'Correlation between IMDb and Rotten Tomatoes critic ratings',
+    params: ['groupBy', 'minVotes', 'minPairs'],
+    columns: ['group', 'pairs', 'avgImdb', 'avgCritic', 'correlation'],
+    async run(db, params) {
+      const groupBy = (params.groupBy || 'none') as CorrelationGroup;
+      if (!CORRELATION_GROUPS.includes(groupBy)) {
+        throw new ReportError(`groupBy must be one of ${CORRELATION_GROUPS.join(', ')}`);
+      }
+      return ratingCorrelation(db, {
+        groupBy,
+        minVotes: int(params, 'minVotes'),
+        minPairs: int(params, 'minPairs', { min: 2 })
+      });
+    }
+  },
+  'rental-trends': {
+    name: 'rental-trends',
+    description: 'Rentals per week with a moving average and running total',
+    params: ['from', 'to', 'window'],
+    columns: ['week', 'rentals', 'returned', 'lateFeeCents', 'movingAverage', 'cumulative'],
+    async run(db, params) {
+      return rentalTrends(db, {
+        from: date(params, 'from'),
+        to: date(params, 'to'),
+        window: int(params, 'window', { min: 1, max: 52 })
+      });
+    }
+  },
+  'most-rented': {
+    name: 'most-rented',
+    description: 'Titles rented most often',
+    params: ['from', 'to', 'limit'],
+    columns: ['movieId', 'title', 'year', 'rentals', 'active', 'lateFeeCents'],
+    async run(db, params) {
+      return mostRentedTitles(db, {
+        from: date(params, 'from'),
+        to: date(params, 'to'),
+        limit: int(params, 'limit', { min: 1, max: 1000 })
+      });
+    }
+  }
+};
+
+// Own keys only: `in` or a bare lookup would accept 'constructor'. The
+// es2016 target has no Object.hasOwn.
+export function hasReport(name: string) {
+  return Object.prototype.hasOwnProperty.call(REPORTS, name);
+}
+
+export function getReport(name: string): ReportDefinition {
+  const report = hasReport(name) ? REPORTS[name] : undefined;
+  if (!report) {
+    throw new ReportError(`Unknown report "${name}"; available: ${Object.keys(REPORTS).join(', ')}`);
+  }
+  return report;
+}
+
+export async function runReport(db: Db, name: string, params: ReportParams = {}): Promise<Report> {
+  const definition = getReport(name);
+  const unknown = Object.keys(params).filter(param => params[param] !== undefined && !definition.params.includes(param));
+  if (unknown.length) {
+    throw new ReportError(
+      `Unknown parameter(s) for ${name}: ${unknown.join(', ')}; accepted: ${definition.params.join(', ')}`
+    );
+  }
+
+  return { name, generatedAt: new Date(), params, rows: await definition.run(db, params) };
+}
+
+// JSON keeps the report envelope; CSV is just the rows, with nested values
+// flattened to dotted columns the way the exporter does it.
+export function renderReport(report: Report, format: ReportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2) + '\n';
+  }
+
+  const { columns } = getReport(report.name);
+  return toCsvLine(columns) + report.rows
+    .map(row => flattenDocument(row as Record<string, unknown>))
+    .map(row => toCsvLine(columns.map(column => row[column])))
+    .join('');
+}
@@ -0,0 +1,108 @@
+import { Db, Document } from 'mongodb';
+import { createRandom } from '../lib/random';
+import { hashPassword } from '../lib/password';
+import { personName, SEED_PASSWORD } from './seeder';
+
+export interface AnonymizeOptions {
+  // Fake names are derived from seed and user id, so reruns agree
+  seed?: number | string;
+  // Copied unchanged alongside the users; they only refer to users by _id
+  collections?: string[];
+  // Empty the target collections first instead of refusing to write to them
+  replace?: boolean;
+  // What every anonymized user logs in with
+  password?: string;
+  batchSize?: number;
+}
+
+export interface AnonymizeResult {
+  source: string;
+  target: string;
+  users: number;
+  copied: Record<string, number>;
+  durationMs: number;
+}
+
+export type AnonymizeErrorCode = 'SAME_DATABASE' | 'NOT_EMPTY';
+
+export class AnonymizeError extends Error {
+  constructor(public code: AnonymizeErrorCode, message: string) {
+    super(message);
+    this.name = 'AnonymizeError';
+  }
+}
+
+export const DEFAULT_ANONYMIZED_COLLECTIONS = ['movies', 'rentals', 'reviews'];
+
+// Only fields known to hold nothing personal survive; the _id stays so
+// rentals, reviews and helpful votes still point at the right user.
+export function anonymizeUser(user: Document, seed: number | string, passwordHash: string): Document {
+  return {
+    _id: user._id,
+    name: personName(createRandom(`${seed}:${user._id}`)),
+    email: `user.${user._id}@example.com`,
+    password: passwordHash,
+    role: user.role ?? 'customer',
+    failedLogins: 0,
+    lockedUntil: null,
+    ...(user.deletedAt !== undefined && { deletedAt: user.deletedAt, deletedBy: user.deletedBy == null ? null : 'anonymized' }),
+    ...(user.createdAt && { createdAt: user.createdAt }),
+    ...(user.updatedAt && { updatedAt: user.updatedAt })
+  };
+}
+
+async function copyCollection(source: Db, target: Db, name: string, batchSize: number, transform = (doc: Document) => doc) {
+  let copied = 0;
+  let batch: Document[] = [];
+  const flush = async () => {
+    await target.collection(name).insertMany(batch, { ordered: false });
+    copied += batch.length;
+    batch = [];
+  };
+
+  for await (const doc of source.collection(name).find()) {
+    batch.push(transform(doc));
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+  if (batch.length) {
+    await flush();
+  }
+  return copied;
+}
+
+// Copies production users into a development database with names, emails
+// and password hashes replaced, plus the collections that reference them.
+// Audit logs, refresh tokens and sample_mflix comments are deliberately not
+// copied: they carry personal data of their own.
+export async function anonymizeInto(source: Db, target: Db, options: AnonymizeOptions = {}): Promise<AnonymizeResult> {
+  const startedAt = Date.now();
+  if (source.databaseName === target.databaseName) {
+    throw new AnonymizeError('SAME_DATABASE', 'Refusing to anonymize a database into itself');
+  }
+
+  const names = ['users', ...(options.collections ?? DEFAULT_ANONYMIZED_COLLECTIONS)];
+  if (options.replace) {
+    await Promise.all(names.map(name => target.collection(name).deleteMany({})));
+  } else {
+    for (const name of names) {
+      if (await target.collection(name).estimatedDocumentCount() > 0) {
+        throw new AnonymizeError('NOT_EMPTY', `${target.databaseName}.${name} already has documents`);
+      }
+    }
+  }
+
+  const seed = options.seed ?? 'anonymized';
+  const batchSize = options.batchSize ?? 1000;
+  // Hashed once and shared, as seedDatabase does
+  const passwordHash = await hashPassword(options.password ?? SEED_PASSWORD);
+  const users = await copyCollection(source, target, 'users', batchSize, user => anonymizeUser(user, seed, passwordHash));
+
+  const copied: Record<string, number> = {};
+  for (const name of names.slice(1)) {
+    copied[name] = await copyCollection(source, target, name, batchSize);
+  }
+
+  return { source: source.databaseName, target: target.databaseName, users, copied, durationMs: Date.now() - startedAt };
+}
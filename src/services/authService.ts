@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { AuthConfig, getConfig } from '../lib/config';
+import { hashToken, randomToken, signToken, TokenError, verifyToken } from '../lib/tokens';
+import { IUserPublicProfile, User, UserDocument, UserRole, USER_ROLES } from '../models/User';
+import { RefreshToken } from '../models/RefreshToken';
+
+export type AuthErrorCode = 'INVALID_CREDENTIALS' | 'ACCOUNT_LOCKED' | 'INVALID_TOKEN' | 'INVALID_REFRESH_TOKEN';
+
+export class AuthError extends Error {
+  constructor(
+    public code: AuthErrorCode,
+    message: string,
+    // Set for ACCOUNT_LOCKED
+    public lockedUntil?: Date
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Who a request is made by, as carried in the access token
+export interface AuthPrincipal {
+  userId: string;
+  role: UserRole;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  tokenType: 'Bearer';
+  // Lifetime of the access token, in seconds
+  expiresIn: number;
+  refreshToken: string;
+  user: IUserPublicProfile;
+}
+
+// Recorded with refresh tokens so users can tell their sessions apart
+export interface ClientInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+const AUTH_ACTOR = 'auth';
+
+export function hasRole(principal: AuthPrincipal, role: UserRole) {
+  return USER_ROLES.indexOf(principal.role) >= USER_ROLES.indexOf(role);
+}
+
+function secretOf(settings: AuthConfig) {
+  if (!settings.jwtSecret) {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return settings.jwtSecret;
+}
+
+async function issueTokens(
+  user: UserDocument,
+  family: string,
+  client: ClientInfo,
+  settings: AuthConfig,
+  refreshToken = randomToken()
+): Promise<IssuedTokens> {
+  const accessToken = signToken(String(user._id), { role: user.role }, secretOf(settings), settings.accessTokenTtlSec);
+  await RefreshToken.create({
+    user: user._id,
+    tokenHash: hashToken(refreshToken),
+    family,
+    expiresAt: new Date(Date.now() + settings.refreshTokenTtlSec * 1000),
+    userAgent: client.userAgent,
+    ip: client.ip
+  });
+  return { accessToken, tokenType: 'Bearer', expiresIn: settings.accessTokenTtlSec, refreshToken, user: user.getPublicProfile() };
+}
+
+// Counts the failure and locks the account once the limit is reached, in a
+// single update so concurrent guesses cannot slip past the limit.
+async function recordFailedLogin(userId: Types.ObjectId, settings: AuthConfig) {
+  const attempts = { $add: [{ $ifNull: ['$failedLogins', 0] }, 1] };
+  const locks = { $gte: [attempts, settings.maxFailedLogins] };
+  const user = await User.findOneAndUpdate({ _id: userId }, [
+    {
+      $set: {
+        lockedUntil: { $cond: [locks, new Date(Date.now() + settings.lockoutMs), '$lockedUntil'] },
+        failedLogins: { $cond: [locks, 0, attempts] }
+      }
+    }
+  ], { new: true }).setOptions({ actor: AUTH_ACTOR });
+  return user?.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : undefined;
+}
+
+// Unknown emails and wrong passwords get the same error, so the endpoint
+// cannot be used to find out who has an account.
+export async function login(
+  email: string,
+  password: string,
+  client: ClientInfo = {},
+  settings: AuthConfig = getConfig().auth
+): Promise<IssuedTokens> {
+  const account = await User.findByEmail(email);
+  if (!account) {
+    throw new AuthError('INVALID_CREDENTIALS', 'Invalid email or password');
+  }
+  if (account.lockedUntil && account.lockedUntil > new Date()) {
+    throw new AuthError('ACCOUNT_LOCKED', 'Too many failed logins; try again later', account.lockedUntil);
+  }
+
+  const user = await User.authenticate(email, password);
+  if (!user) {
+    const lockedUntil = await recordFailedLogin(account._id, settings);
+    if (lockedUntil) {
+      throw new AuthError('ACCOUNT_LOCKED', 'Too many failed logins; try again later', lockedUntil);
+    }
+    throw new AuthError('INVALID_CREDENTIALS', 'Invalid email or password');
+  }
+
+  if (account.failedLogins || account.lockedUntil) {
+    await User.updateOne({ _id: user._id }, { $set: { failedLogins: 0, lockedUntil: null } })
+      .setOptions({ actor: AUTH_ACTOR });
+  }
+  return issueTokens(user, crypto.randomUUID(), client, settings);
+}
+
+async function revokeFamily(family: string) {
+  await RefreshToken.updateMany({ family, revokedAt: null }, { $set: { revokedAt: new Date() } });
+}
+
+// Every refresh token works once: it is swapped for a new one in the same
+// family. Presenting one that was already swapped means two parties hold the
+// chain, so the whole family is revoked and everyone has to log in again.
+// Lockout only guards passwords; it does not end existing sessions.
+export async function refresh(
+  refreshToken: string,
+  client: ClientInfo = {},
+  settings: AuthConfig = getConfig().auth
+): Promise<IssuedTokens> {
+  const now = new Date();
+  const next = randomToken();
+  const current = await RefreshToken.findOneAndUpdate(
+    { tokenHash: hashToken(refreshToken), revokedAt: null, expiresAt: { $gt: now } },
+    { $set: { revokedAt: now, replacedBy: hashToken(next) } }
+  );
+
+  if (!current) {
+    const reused = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken), revokedAt: { $ne: null } });
+    if (reused) {
+      await revokeFamily(reused.family);
+    }
+    throw new AuthError('INVALID_REFRESH_TOKEN', 'Invalid or expired refresh token');
+  }
+
+  // Soft-deleted users are not found, which ends their sessions too
+  const user = await User.findById(current.user);
+  if (!user) {
+    await revokeFamily(current.family);
+    throw new AuthError('INVALID_REFRESH_TOKEN', 'Invalid or expired refresh token');
+  }
+  return issueTokens(user, current.family, client, settings, next);
+}
+
+// Ends the session the refresh token belongs to; unknown tokens are ignored
+export async function logout(refreshToken: string) {
+  const token = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) });
+  if (token) {
+    await revokeFamily(token.family);
+  }
+}
+
+// Ends every session of a user, e.g. after a password or role change.
+// Access tokens already issued stay valid until they expire.
+export async function revokeUserSessions(userId: Types.ObjectId | string) {
+  const result = await RefreshToken.updateMany({ user: userId, revokedAt: null }, { $set: { revokedAt: new Date() } });
+  return result.modifiedCount;
+}
+
+export function verifyAccessToken(token: string, settings: AuthConfig = getConfig().auth): AuthPrincipal {
+  try {
+    const claims = verifyToken(token, secretOf(settings));
+    const role = claims.role as UserRole;
+    if (!USER_ROLES.includes(role)) {
+      throw new TokenError('MALFORMED', 'Token has no valid role');
+    }
+    return { userId: claims.sub, role };
+  } catch (error) {
+    if (error instanceof TokenError) {
+      throw new AuthError('INVALID_TOKEN', error.message);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,410 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import { BSON, ClientSession, CollectionInfo, Db, Document, MongoBulkWriteError, MongoClient, MongoServerError, Timestamp } from 'mongodb';
+import { getQueryCache } from '../lib/cache';
+
+const { EJSON } = BSON;
+
+// A backup is a directory with one gzipped file per collection and a
+// manifest.json describing the collections (options and indexes from
+// listCollections/listIndexes), document counts and file checksums.
+
+export type BackupFormat = 'bson' | 'ejson';
+
+export interface BackupCollection {
+  name: string;
+  type: 'collection' | 'view' | 'timeseries';
+  // As listCollections reports them (validator, collation, viewOn, ...)
+  options: Document;
+  // Everything but _id_, as listIndexes reports them
+  indexes: Document[];
+  documents: number;
+  // Relative to the backup directory; views have no data file
+  file: string | null;
+  sha256: string | null;
+}
+
+export interface BackupManifest {
+  version: number;
+  database: string;
+  createdAt: Date;
+  format: BackupFormat;
+  // Every collection was read at this cluster time when the backup is a snapshot
+  atClusterTime: Timestamp | null;
+  collections: BackupCollection[];
+}
+
+export interface BackupProgress {
+  collection: string;
+  documents: number;
+}
+
+export interface BackupOptions {
+  // Defaults to every collection except system ones
+  collections?: string[];
+  // Defaults to <backups>/<database>-<timestamp>
+  outputDir?: string;
+  format?: BackupFormat;
+  // Read all collections at one point in time (needs a replica set, and a
+  // dump that finishes within the server's snapshot window, 5 minutes by default)
+  snapshot?: boolean;
+  progressEvery?: number;
+  onProgress?(progress: BackupProgress): void;
+}
+
+export interface BackupResult {
+  dir: string;
+  manifest: BackupManifest;
+  durationMs: number;
+}
+
+export interface RestoreOptions {
+  // Collection name patterns; * matches anything, e.g. 'movie*'
+  include?: string[];
+  exclude?: string[];
+  // Backed-up name -> name to restore as
+  rename?: Record<string, string>;
+  // Drop each target collection first instead of adding to it
+  drop?: boolean;
+  indexes?: boolean;
+  batchSize?: number;
+  onProgress?(progress: BackupProgress): void;
+}
+
+export interface RestoredCollection {
+  from: string;
+  to: string;
+  inserted: number;
+  // Documents whose _id was already there (only without drop)
+  duplicates: number;
+  indexes: number;
+}
+
+export interface RestoreResult {
+  database: string;
+  collections: RestoredCollection[];
+  durationMs: number;
+}
+
+export type BackupErrorCode = 'NOT_A_BACKUP' | 'UNSUPPORTED_VERSION' | 'CHECKSUM_MISMATCH' | 'COLLECTION_NOT_FOUND';
+
+export class BackupError extends Error {
+  constructor(public code: BackupErrorCode, message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export const DEFAULT_BACKUP_DIR = process.env.BACKUP_DIR || 'backups';
+export const MANIFEST_FILE = 'manifest.json';
+
+const MANIFEST_VERSION = 1;
+const EXTENSIONS: Record<BackupFormat, string> = { bson: 'bson.gz', ejson: 'jsonl.gz' };
+const NAMESPACE_NOT_FOUND = 26;
+const DUPLICATE_KEY = 11000;
+
+// Keys listIndexes adds that createIndexes does not take back
+function toIndexSpec({ v, ns, ...spec }: Document) {
+  return spec as { key: Document; name: string } & Document;
+}
+
+function timestampForPath(date: Date) {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+// Hashes what goes through, so the checksum is of the file as written
+function digestStream(hash: crypto.Hash) {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    }
+  });
+}
+
+async function fileChecksum(filePath: string) {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+async function* encodeDocuments(source: AsyncIterable<Document>, format: BackupFormat, onDocument: () => void) {
+  for await (const doc of source) {
+    onDocument();
+    // Canonical EJSON keeps int/long/double apart, as BSON does
+    yield format === 'bson' ? Buffer.from(BSON.serialize(doc)) : EJSON.stringify(doc, { relaxed: false }) + '\n';
+  }
+}
+
+// BSON files are documents back to back, each starting with its int32 length
+async function* bsonDocuments(input: Readable): AsyncGenerator<Document> {
+  let buffered = Buffer.alloc(0);
+  for await (const chunk of input) {
+    buffered = buffered.length ? Buffer.concat([buffered, chunk as Buffer]) : chunk as Buffer;
+    while (buffered.length >= 4 && buffered.length >= buffered.readInt32LE(0)) {
+      const size = buffered.readInt32LE(0);
+      // Keep Int32/Double/Long wrappers so numbers are restored with their types
+      yield BSON.deserialize(buffered.subarray(0, size), { promoteValues: false });
+      buffered = buffered.subarray(size);
+    }
+  }
+  if (buffered.length) {
+    throw new Error('Backup file ends in the middle of a document');
+  }
+}
+
+async function* ejsonDocuments(input: Readable): AsyncGenerator<Document> {
+  for await (const line of readline.createInterface({ input, crlfDelay: Infinity })) {
+    if (line.trim()) {
+      yield EJSON.parse(line, { relaxed: false }) as Document;
+    }
+  }
+}
+
+function collectionType(info: CollectionInfo): BackupCollection['type'] {
+  if (info.type === 'view') {
+    return 'view';
+  }
+  return info.options?.timeseries ? 'timeseries' : 'collection';
+}
+
+async function dumpCollection(
+  db: Db,
+  info: CollectionInfo,
+  dir: string,
+  options: BackupOptions & { session?: ClientSession }
+): Promise<BackupCollection> {
+  const type = collectionType(info);
+  const entry: BackupCollection = {
+    name: info.name,
+    type,
+    options: info.options ?? {},
+    indexes: [],
+    documents: 0,
+    file: null,
+    sha256: null
+  };
+  if (type === 'view') {
+    return entry;
+  }
+
+  const collection = db.collection(info.name);
+  // Outside the snapshot session: only reads of documents support snapshots
+  entry.indexes = (await collection.listIndexes().toArray())
+    .filter(index => index.name !== '_id_')
+    .map(toIndexSpec);
+
+  const format = options.format ?? 'bson';
+  const progressEvery = options.progressEvery ?? 1000;
+  entry.file = `${info.name}.${EXTENSIONS[format]}`;
+  const hash = crypto.createHash('sha256');
+  const cursor = collection.find({}, { session: options.session, sort: { _id: 1 } });
+
+  try {
+    await pipeline(
+      Readable.from(encodeDocuments(cursor, format, () => {
+        entry.documents++;
+        if (entry.documents % progressEvery === 0) {
+          options.onProgress?.({ collection: info.name, documents: entry.documents });
+        }
+      })),
+      createGzip(),
+      digestStream(hash),
+      fs.createWriteStream(path.join(dir, entry.file))
+    );
+  } finally {
+    await cursor.close();
+  }
+
+  entry.sha256 = hash.digest('hex');
+  options.onProgress?.({ collection: info.name, documents: entry.documents });
+  return entry;
+}
+
+export async function createBackup(client: MongoClient, databaseName: string, options: BackupOptions = {}): Promise<BackupResult> {
+  const startedAt = new Date();
+  const db = client.db(databaseName);
+  const dir = options.outputDir ?? path.join(DEFAULT_BACKUP_DIR, `${databaseName}-${timestampForPath(startedAt)}`);
+
+  const all = (await db.listCollections().toArray()).filter(info => !info.name.startsWith('system.'));
+  const wanted = options.collections ?? all.map(info => info.name);
+  const missing = wanted.filter(name => !all.some(info => info.name === name));
+  if (missing.length) {
+    throw new BackupError('COLLECTION_NOT_FOUND', `No collection(s) ${missing.join(', ')} in ${databaseName}`);
+  }
+  const selected = all.filter(info => wanted.includes(info.name)).sort((a, b) => a.name.localeCompare(b.name));
+
+  await fs.promises.mkdir(dir, { recursive: true });
+  const session = options.snapshot === false ? undefined : client.startSession({ snapshot: true });
+  try {
+    const collections: BackupCollection[] = [];
+    for (const info of selected) {
+      collections.push(await dumpCollection(db, info, dir, { ...options, session }));
+    }
+
+    const manifest: BackupManifest = {
+      version: MANIFEST_VERSION,
+      database: databaseName,
+      createdAt: startedAt,
+      format: options.format ?? 'bson',
+      atClusterTime: session?.operationTime ?? null,
+      collections
+    };
+    await fs.promises.writeFile(path.join(dir, MANIFEST_FILE), EJSON.stringify(manifest, undefined, 2, { relaxed: true }));
+    return { dir, manifest, durationMs: Date.now() - startedAt.getTime() };
+  } finally {
+    await session?.endSession();
+  }
+}
+
+export async function readManifest(dir: string): Promise<BackupManifest> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(path.join(dir, MANIFEST_FILE), 'utf8');
+  } catch {
+    throw new BackupError('NOT_A_BACKUP', `${dir} has no ${MANIFEST_FILE}`);
+  }
+  const manifest = EJSON.parse(text, { relaxed: true }) as BackupManifest;
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new BackupError('UNSUPPORTED_VERSION', `Backup format version ${manifest.version} is not supported`);
+  }
+  return manifest;
+}
+
+// Checks every data file against the manifest; returns the names that fail
+export async function verifyBackup(dir: string): Promise<string[]> {
+  const manifest = await readManifest(dir);
+  const failed: string[] = [];
+  for (const entry of manifest.collections) {
+    if (entry.file && await fileChecksum(path.join(dir, entry.file)).catch(() => null) !== entry.sha256) {
+      failed.push(entry.name);
+    }
+  }
+  return failed;
+}
+
+function matchesPattern(name: string, pattern: string) {
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(name);
+}
+
+export function selectCollections(manifest: BackupManifest, options: Pick<RestoreOptions, 'include' | 'exclude'>) {
+  return manifest.collections.filter(entry =>
+    (!options.include?.length || options.include.some(pattern => matchesPattern(entry.name, pattern)))
+    && !options.exclude?.some(pattern => matchesPattern(entry.name, pattern)));
+}
+
+async function insertBatch(db: Db, name: string, batch: Document[]) {
+  try {
+    const result = await db.collection(name).insertMany(batch, { ordered: false });
+    return { inserted: result.insertedCount, duplicates: 0 };
+  } catch (error) {
+    if (error instanceof MongoBulkWriteError) {
+      const writeErrors = Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors];
+      if (writeErrors.every(writeError => writeError.code === DUPLICATE_KEY)) {
+        return { inserted: error.insertedCount, duplicates: writeErrors.length };
+      }
+    }
+    throw error;
+  }
+}
+
+async function restoreCollection(db: Db, dir: string, manifest: BackupManifest, entry: BackupCollection, to: string, options: RestoreOptions) {
+  const restored: RestoredCollection = { from: entry.name, to, inserted: 0, duplicates: 0, indexes: 0 };
+  const exists = (await db.listCollections({ name: to }, { nameOnly: true }).toArray()).length > 0;
+  if (!exists) {
+    await db.createCollection(to, entry.options);
+  }
+  if (!entry.file) {
+    return restored;
+  }
+
+  const input = fs.createReadStream(path.join(dir, entry.file)).pipe(createGunzip());
+  const documents = manifest.format === 'bson' ? bsonDocuments(input) : ejsonDocuments(input);
+  const batchSize = options.batchSize ?? 1000;
+  let batch: Document[] = [];
+  const flush = async () => {
+    const { inserted, duplicates } = await insertBatch(db, to, batch);
+    restored.inserted += inserted;
+    restored.duplicates += duplicates;
+    batch = [];
+    options.onProgress?.({ collection: to, documents: restored.inserted + restored.duplicates });
+  };
+
+  for await (const doc of documents) {
+    batch.push(doc);
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+  if (batch.length) {
+    await flush();
+  }
+
+  if (options.indexes !== false && entry.indexes.length) {
+    await db.collection(to).createIndexes(entry.indexes.map(toIndexSpec));
+    restored.indexes = entry.indexes.length;
+  }
+  return restored;
+}
+
+// Restores into any database, not only the one backed up. Checksums are
+// verified before anything is written. Views are created last, pointing at
+// their source under its restored name.
+export async function restoreBackup(db: Db, dir: string, options: RestoreOptions = {}): Promise<RestoreResult> {
+  const startedAt = Date.now();
+  const manifest = await readManifest(dir);
+  const selected = selectCollections(manifest, options);
+
+  for (const entry of selected) {
+    if (entry.file && await fileChecksum(path.join(dir, entry.file)) !== entry.sha256) {
+      throw new BackupError('CHECKSUM_MISMATCH', `${entry.file} does not match the manifest; the backup is damaged`);
+    }
+  }
+
+  const renamed = (name: string) => options.rename?.[name] ?? name;
+  const ordered = [...selected.filter(entry => entry.type !== 'view'), ...selected.filter(entry => entry.type === 'view')];
+  const collections: RestoredCollection[] = [];
+
+  for (const entry of ordered) {
+    const to = renamed(entry.name);
+    const target = entry.type === 'view' ? { ...entry, options: { ...entry.options, viewOn: renamed(entry.options.viewOn) } } : entry;
+    try {
+      if (options.drop) {
+        await db.collection(to).drop().catch(error => {
+          if (!(error instanceof MongoServerError && error.code === NAMESPACE_NOT_FOUND)) {
+            throw error;
+          }
+        });
+      }
+      collections.push(await restoreCollection(db, dir, manifest, target, to, options));
+    } finally {
+      // Cached reads of the old contents must not outlive the restore,
+      // even one that failed halfway
+      await getQueryCache().invalidate(to);
+    }
+  }
+
+  return { database: db.databaseName, collections, durationMs: Date.now() - startedAt };
+}
+
+// Backups under a directory, newest first
+export async function listBackups(root = DEFAULT_BACKUP_DIR) {
+  const names = await fs.promises.readdir(root).catch(() => [] as string[]);
+  const backups: { dir: string; manifest: BackupManifest }[] = [];
+  for (const name of names) {
+    const dir = path.join(root, name);
+    const manifest = await readManifest(dir).catch(() => null);
+    if (manifest) {
+      backups.push({ dir, manifest });
+    }
+  }
+  return backups.sort((a, b) => b.manifest.createdAt.getTime() - a.manifest.createdAt.getTime());
+}
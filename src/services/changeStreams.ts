@@ -0,0 +1,280 @@
+import {
+  BSON,
+  ChangeStream,
+  ChangeStreamDocument,
+  Db,
+  Document,
+  MongoServerError,
+  ObjectId,
+  ResumeToken
+} from 'mongodb';
+import type { IMovieData } from '../models/Movie';
+import type { IUserData } from '../models/User';
+import type { IRentalData } from '../models/Rental';
+import { backoffDelay } from '../lib/transaction';
+
+const { EJSON } = BSON;
+
+export type WatchedCollection = 'movies' | 'users' | 'rentals';
+export type ChangeOperation = 'insert' | 'update' | 'replace' | 'delete';
+
+// Shapes of the documents as stored; the stream never carries passwords
+export interface WatchedDocuments {
+  movies: Pick<IMovieData, '_id' | 'title' | 'year' | 'genres' | 'imdb' | 'copies' | 'rentedCount' | 'lastRented'>;
+  users: Pick<IUserData, '_id' | 'name' | 'email' | 'createdAt' | 'deletedAt'>;
+  rentals: Pick<IRentalData,
+    '_id' | 'user' | 'movie' | 'rentedAt' | 'dueDate' | 'returnedAt' | 'status' | 'extensions' | 'lateFeeCents'>;
+}
+
+export interface ChangeEvent<C extends WatchedCollection = WatchedCollection> {
+  collection: C;
+  operation: ChangeOperation;
+  documentId: ObjectId;
+  // Current document for inserts, replaces and updates (looked up, so it may
+  // already include later writes); missing for deletes and for updates to
+  // documents deleted since.
+  fullDocument?: WatchedDocuments[C];
+  // Updates only, keyed by dotted path
+  updatedFields?: Record<string, unknown>;
+  removedFields?: string[];
+  at: Date;
+}
+
+export interface ChangeHandler<C extends WatchedCollection = WatchedCollection> {
+  name: string;
+  collection: C;
+  // Defaults to every operation
+  operations?: ChangeOperation[];
+  // Updates only reach the handler when one of these paths (or a parent or
+  // child of one) changed; inserts, replaces and deletes always do.
+  fields?: string[];
+  handle(event: ChangeEvent<C>): void | Promise<void>;
+}
+
+export interface ChangeListenerOptions {
+  // Resume tokens are stored per name; listeners sharing a name share a position
+  name?: string;
+  tokenCollection?: string;
+  // Defaults to the collections of the registered handlers
+  collections?: WatchedCollection[];
+  // How long one poll waits for changes; also bounds how long stop() takes
+  maxAwaitTimeMS?: number;
+  // Backoff between reconnects after the stream fails
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onError?(error: unknown, context: { handler?: string; event?: ChangeEvent }): void;
+}
+
+export interface ChangeListener {
+  on<C extends WatchedCollection>(handler: ChangeHandler<C>): ChangeListener;
+  // Resolves once the stream is open, so writes made afterwards are seen
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  readonly processed: number;
+}
+
+interface StoredToken {
+  _id: string;
+  token: ResumeToken;
+  updatedAt: Date;
+}
+
+export const DEFAULT_TOKEN_COLLECTION = 'change_stream_tokens';
+
+const OPERATIONS: ChangeOperation[] = ['insert', 'update', 'replace', 'delete'];
+
+// Resume token no longer in the oplog; the only way forward is to start over
+const CHANGE_STREAM_HISTORY_LOST = 286;
+
+const IDLE_CHECKPOINT_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function overlaps(path: string, field: string) {
+  return path === field || path.startsWith(`${field}.`) || field.startsWith(`${path}.`);
+}
+
+export function handlerAccepts(handler: ChangeHandler, event: ChangeEvent) {
+  if (handler.collection !== event.collection) {
+    return false;
+  }
+  if (handler.operations && !handler.operations.includes(event.operation)) {
+    return false;
+  }
+  if (event.operation !== 'update' || !handler.fields?.length) {
+    return true;
+  }
+
+  const changed = [...Object.keys(event.updatedFields ?? {}), ...(event.removedFields ?? [])];
+  return changed.some(path => handler.fields!.some(field => overlaps(path, field)));
+}
+
+export function toChangeEvent(change: ChangeStreamDocument): ChangeEvent | undefined {
+  switch (change.operationType) {
+    case 'insert':
+    case 'update':
+    case 'replace':
+    case 'delete':
+      break;
+    default:
+      return undefined;
+  }
+
+  const event: ChangeEvent = {
+    collection: change.ns.coll as WatchedCollection,
+    operation: change.operationType,
+    documentId: change.documentKey._id as ObjectId,
+    at: change.clusterTime ? new Date(change.clusterTime.getHighBits() * 1000) : new Date()
+  };
+  if (change.operationType !== 'delete' && change.fullDocument) {
+    event.fullDocument = change.fullDocument as ChangeEvent['fullDocument'];
+  }
+  if (change.operationType === 'update') {
+    event.updatedFields = change.updateDescription.updatedFields ?? {};
+    event.removedFields = change.updateDescription.removedFields ?? [];
+  }
+  return event;
+}
+
+// One database-level stream covers every watched collection, so there is a
+// single resume token per listener. Tokens are checkpointed after the
+// handlers for an event finish, which makes delivery at-least-once: after a
+// crash the last event may be handled again.
+export function createChangeListener(db: Db, options: ChangeListenerOptions = {}): ChangeListener {
+  const name = options.name ?? 'default';
+  const tokens = db.collection<StoredToken>(options.tokenCollection ?? DEFAULT_TOKEN_COLLECTION);
+  const maxAwaitTimeMS = options.maxAwaitTimeMS ?? 1000;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 30000;
+  const onError = options.onError ?? ((error, { handler }) =>
+    console.error(`❌ Change listener ${name}${handler ? ` (${handler})` : ''}:`, error));
+
+  const handlers: ChangeHandler[] = [];
+  let stream: ChangeStream | undefined;
+  let loop: Promise<void> | undefined;
+  let stopped = true;
+  let processed = 0;
+  let savedToken: string | undefined;
+  let savedAt = 0;
+
+  function pipeline(): Document[] {
+    const collections = options.collections ?? [...new Set(handlers.map(handler => handler.collection))];
+    const operations = [...new Set(handlers.flatMap(handler => handler.operations ?? OPERATIONS))];
+    return [
+      { $match: { 'ns.coll': { $in: collections }, operationType: { $in: [...operations, 'invalidate'] } } },
+      { $project: { 'fullDocument.password': 0, 'updateDescription.updatedFields.password': 0 } }
+    ];
+  }
+
+  async function loadToken() {
+    const stored = await tokens.findOne({ _id: name });
+    return stored?.token;
+  }
+
+  async function saveToken(token: ResumeToken | undefined) {
+    const serialized = token ? EJSON.stringify(token) : undefined;
+    if (!serialized || serialized === savedToken) {
+      return;
+    }
+    await tokens.updateOne({ _id: name }, { $set: { token, updatedAt: new Date() } }, { upsert: true });
+    savedToken = serialized;
+    savedAt = Date.now();
+  }
+
+  async function dispatch(event: ChangeEvent) {
+    for (const handler of handlers) {
+      if (!handlerAccepts(handler, event)) {
+        continue;
+      }
+      try {
+        await handler.handle(event);
+      } catch (error) {
+        // One broken handler must not hold up the others or the stream
+        onError(error, { handler: handler.name, event });
+      }
+    }
+    processed++;
+  }
+
+  async function open() {
+    const token = await loadToken();
+    stream = db.watch(pipeline(), {
+      fullDocument: 'updateLookup',
+      maxAwaitTimeMS,
+      ...(token ? { startAfter: token } : {})
+    });
+    // The cursor is created lazily; poll once so start() means "listening"
+    const first = await stream.tryNext();
+    return { current: stream, first };
+  }
+
+  async function consume(current: ChangeStream, first: ChangeStreamDocument | null) {
+    for (let change = first; !stopped && !current.closed; change = await current.tryNext()) {
+      const event = change && toChangeEvent(change);
+      if (event) {
+        await dispatch(event);
+        await saveToken(current.resumeToken);
+      } else if (change || !savedToken || Date.now() - savedAt >= IDLE_CHECKPOINT_MS) {
+        // An invalidate must be checkpointed or the reopened stream replays
+        // it. Quiet polls still move the post-batch token forward; saving it
+        // now and then keeps a restart from rescanning a long idle stretch.
+        await saveToken(current.resumeToken);
+      }
+    }
+  }
+
+  async function run(initial: Awaited<ReturnType<typeof open>>) {
+    let next: Awaited<ReturnType<typeof open>> | undefined = initial;
+    for (let failures = 0; !stopped;) {
+      try {
+        next ??= await open();
+        await consume(next.current, next.first);
+        failures = 0;
+      } catch (error) {
+        if (stopped) {
+          break;
+        }
+        if (error instanceof MongoServerError && error.code === CHANGE_STREAM_HISTORY_LOST) {
+          await tokens.deleteOne({ _id: name });
+          savedToken = undefined;
+        }
+        onError(error, {});
+        await sleep(backoffDelay(++failures, baseDelayMs, maxDelayMs));
+      } finally {
+        await next?.current.close().catch(() => undefined);
+        next = undefined;
+      }
+    }
+  }
+
+  return {
+    on(handler) {
+      handlers.push(handler as unknown as ChangeHandler);
+      return this;
+    },
+    async start() {
+      if (!stopped) {
+        return;
+      }
+      if (!handlers.length) {
+        throw new Error('Register at least one handler before starting the listener');
+      }
+      stopped = false;
+      try {
+        loop = run(await open());
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+    },
+    async stop() {
+      stopped = true;
+      await stream?.close().catch(() => undefined);
+      await loop;
+      loop = undefined;
+    },
+    get processed() {
+      return processed;
+    }
+  };
+}
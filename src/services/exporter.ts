@@ -0,0 +1,185 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { BSON, Db, Document, Filter, FindCursor, Sort } from 'mongodb';
+import { flattenDocument, toCsvLine } from '../lib/csv';
+
+export type ExportFormat = 'jsonl' | 'csv' | 'ejson';
+
+export interface ExportProgress {
+  collection: string;
+  exported: number;
+  total?: number;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  filter?: Filter<Document>;
+  projection?: Document;
+  sort?: Sort;
+  limit?: number;
+  outputDir?: string;
+  // Defaults to <collection>.<extension>
+  fileName?: string;
+  gzip?: boolean;
+  // CSV columns; inferred from the first csvSampleSize documents when omitted
+  fields?: string[];
+  csvSampleSize?: number;
+  // Count matching documents up front so progress can report a total
+  countTotal?: boolean;
+  progressEvery?: number;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+export interface ExportResult {
+  collection: string;
+  format: ExportFormat;
+  filePath: string;
+  exported: number;
+  durationMs: number;
+}
+
+const { EJSON } = BSON;
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  jsonl: 'jsonl',
+  csv: 'csv',
+  ejson: 'json'
+};
+
+export const DEFAULT_EXPORT_DIR = process.env.EXPORT_DIR || 'exports';
+
+// One relaxed Extended JSON document per line: ObjectIds and Dates survive
+// as { $oid } / { $date } instead of collapsing to strings.
+async function* jsonLines(cursor: AsyncIterable<Document>, onDocument: () => void) {
+  for await (const doc of cursor) {
+    onDocument();
+    yield EJSON.stringify(doc, { relaxed: true }) + '\n';
+  }
+}
+
+// A single array of canonical Extended JSON v2 documents (numbers keep
+// their BSON type too), written element by element.
+async function* canonicalEjsonArray(cursor: AsyncIterable<Document>, onDocument: () => void) {
+  let first = true;
+  yield '[';
+  for await (const doc of cursor) {
+    onDocument();
+    yield (first ? '\n  ' : ',\n  ') + EJSON.stringify(doc, { relaxed: false });
+    first = false;
+  }
+  yield first ? ']\n' : '\n]\n';
+}
+
+// Headers have to be written before the first row, so unless fields are
+// given the first few documents are buffered to discover the columns.
+// Columns that only appear after the sample are not exported.
+async function* csvRows(
+  cursor: AsyncIterable<Document>,
+  onDocument: () => void,
+  fields: string[] | undefined,
+  sampleSize: number
+) {
+  const iterator = cursor[Symbol.asyncIterator]();
+  const sample: Document[] = [];
+
+  if (!fields) {
+    const discovered = new Set<string>();
+    while (sample.length < sampleSize) {
+      const next = await iterator.next();
+      if (next.done) {
+        break;
+      }
+      const flat = flattenDocument(next.value);
+      Object.keys(flat).forEach(key => discovered.add(key));
+      sample.push(flat);
+    }
+    fields = [...discovered];
+  }
+
+  yield toCsvLine(fields);
+
+  const columns = fields;
+  const toRow = (flat: Document) => toCsvLine(columns.map(field => flat[field]));
+
+  for (const flat of sample) {
+    onDocument();
+    yield toRow(flat);
+  }
+
+  for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+    onDocument();
+    yield toRow(flattenDocument(next.value));
+  }
+}
+
+async function countMatching(db: Db, collectionName: string, options: ExportOptions) {
+  const collection = db.collection(collectionName);
+  const hasFilter = options.filter && Object.keys(options.filter).length > 0;
+  const total = hasFilter
+    ? await collection.countDocuments(options.filter!)
+    : await collection.estimatedDocumentCount();
+  return options.limit ? Math.min(total, options.limit) : total;
+}
+
+export async function exportCollection(
+  db: Db,
+  collectionName: string,
+  options: ExportOptions
+): Promise<ExportResult> {
+  const startedAt = Date.now();
+  const outputDir = options.outputDir ?? DEFAULT_EXPORT_DIR;
+  const fileName = (options.fileName ?? `${collectionName}.${EXTENSIONS[options.format]}`)
+    + (options.gzip ? '.gz' : '');
+  const filePath = path.join(outputDir, fileName);
+  const progressEvery = options.progressEvery ?? 1000;
+
+  const total = options.countTotal ? await countMatching(db, collectionName, options) : undefined;
+
+  let cursor: FindCursor<Document> = db.collection(collectionName).find(options.filter ?? {}, {
+    projection: options.projection,
+    sort: options.sort
+  });
+  if (options.limit) {
+    cursor = cursor.limit(options.limit);
+  }
+
+  let exported = 0;
+  const onDocument = () => {
+    exported++;
+    if (exported % progressEvery === 0) {
+      options.onProgress?.({ collection: collectionName, exported, total });
+    }
+  };
+
+  const source = options.format === 'csv'
+    ? csvRows(cursor, onDocument, options.fields, options.csvSampleSize ?? 100)
+    : options.format === 'ejson'
+      ? canonicalEjsonArray(cursor, onDocument)
+      : jsonLines(cursor, onDocument);
+
+  await fs.promises.mkdir(outputDir, { recursive: true });
+
+  try {
+    const output = fs.createWriteStream(filePath);
+    if (options.gzip) {
+      await pipeline(Readable.from(source), createGzip(), output);
+    } else {
+      await pipeline(Readable.from(source), output);
+    }
+  } finally {
+    await cursor.close();
+  }
+
+  options.onProgress?.({ collection: collectionName, exported, total });
+
+  return {
+    collection: collectionName,
+    format: options.format,
+    filePath,
+    exported,
+    durationMs: Date.now() - startedAt
+  };
+}
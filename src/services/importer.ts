@@ -0,0 +1,465 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Readable } from 'stream';
+import { createGunzip } from 'zlib';
+import mongoose, { Schema } from 'mongoose';
+import { AnyBulkWriteOperation, BSON, Db, Document, MongoBulkWriteError } from 'mongodb';
+import { getQueryCache } from '../lib/cache';
+import { parseCsvLine, unflattenRow } from '../lib/csv';
+import { hashPassword, isPasswordHash } from '../lib/password';
+import { User } from '../models/User';
+import { Movie } from '../models/Movie';
+import { DEFAULT_EXPORT_DIR } from './exporter';
+
+const { EJSON } = BSON;
+
+// json/ejson are both arrays; EJSON parsing handles plain JSON too
+export type ImportFormat = 'json' | 'ejson' | 'jsonl' | 'csv';
+export type ImportMode = 'insert' | 'upsert';
+
+export interface ImportProgress {
+  collection: string;
+  processed: number;
+  rejected: number;
+}
+
+export interface RejectedRow {
+  // 1-based position of the record in the file
+  record: number;
+  errors: Record<string, string>;
+  data?: Document;
+}
+
+export interface ImportOptions {
+  // Inferred from the file extension when omitted
+  format?: ImportFormat;
+  mode?: ImportMode;
+  // Dotted path(s) identifying a document in upsert mode, e.g. 'imdb.id'
+  upsertKey?: string | string[];
+  // Validate and cast every record through this schema before writing
+  model?: ValidatingModel;
+  // Applied after validation, e.g. to hash plain-text passwords
+  transform?: (doc: Document, options: ImportOptions) => Document | Promise<Document>;
+  // The file is a trusted dump whose passwords are already bcrypt hashes;
+  // without it every password is hashed, whatever it looks like
+  passwordsHashed?: boolean;
+  batchSize?: number;
+  // CSV cells that look like numbers/booleans/JSON are converted
+  inferTypes?: boolean;
+  // Where rejected rows are written; defaults to <exports>/<collection>.rejected.jsonl
+  reportPath?: string;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+export interface ImportResult {
+  collection: string;
+  processed: number;
+  inserted: number;
+  upserted: number;
+  modified: number;
+  rejected: number;
+  reportPath?: string;
+  durationMs: number;
+}
+
+// Any Mongoose model; only construction, validation and the schema are used
+export interface ValidatingModel {
+  new (doc: Document): mongoose.Document;
+  schema: Schema;
+}
+
+interface ParsedRecord {
+  index: number;
+  data?: Document;
+  error?: string;
+}
+
+// Ready-made options for the collections we know how to validate
+export const importPresets: Record<'users' | 'movies', Partial<ImportOptions>> = {
+  users: {
+    model: User,
+    upsertKey: 'email',
+    transform: async (doc, options) => {
+      // Bulk writes skip save middleware, so hash here what the model would.
+      // A value shaped like a hash is only trusted when the caller says so.
+      if (typeof doc.password === 'string' && !(options.passwordsHashed && isPasswordHash(doc.password))) {
+        doc.password = await hashPassword(doc.password);
+      }
+      return doc;
+    }
+  },
+  movies: {
+    model: Movie,
+    upsertKey: 'imdb.id'
+  }
+};
+
+export function detectFormat(filePath: string): ImportFormat {
+  const ext = path.extname(filePath.replace(/\.gz$/, '')).toLowerCase();
+  switch (ext) {
+    case '.jsonl':
+    case '.ndjson':
+      return 'jsonl';
+    case '.csv':
+      return 'csv';
+    case '.ejson':
+      return 'ejson';
+    case '.json':
+      return 'json';
+    default:
+      throw new Error(`Cannot infer import format from "${filePath}"; pass format explicitly`);
+  }
+}
+
+function openInput(filePath: string): Readable {
+  const stream = fs.createReadStream(filePath);
+  return filePath.endsWith('.gz') ? stream.pipe(createGunzip()) : stream;
+}
+
+function parseEjson(text: string): Document {
+  const value = EJSON.parse(text, { relaxed: true });
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Record is not an object');
+  }
+  return value as Document;
+}
+
+async function* jsonLinesRecords(input: Readable): AsyncGenerator<ParsedRecord> {
+  let index = 0;
+  for await (const line of readline.createInterface({ input, crlfDelay: Infinity })) {
+    if (!line.trim()) {
+      continue;
+    }
+    index++;
+    try {
+      yield { index, data: parseEjson(line) };
+    } catch (error) {
+      yield { index, error: (error as Error).message };
+    }
+  }
+}
+
+// Streams the elements of a top-level JSON array without loading the whole
+// file, by tracking nesting depth and string state character by character.
+async function* jsonArrayRecords(input: Readable): AsyncGenerator<ParsedRecord> {
+  let index = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let element = '';
+
+  input.setEncoding('utf8');
+  for await (const chunk of input) {
+    for (const char of chunk as string) {
+      // An element ends at a top-level comma or the closing bracket
+      const delimiter = !inString && depth === 1 && (char === ',' || char === ']');
+      if (depth >= 1 && !delimiter) {
+        element += char;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+      }
+
+      if (delimiter && element.trim()) {
+        index++;
+        try {
+          yield { index, data: parseEjson(element) };
+        } catch (error) {
+          yield { index, error: (error as Error).message };
+        }
+        element = '';
+      }
+    }
+  }
+}
+
+function inferCsvValue(value: string): unknown {
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  if (/^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  if (/^[[{]/.test(value)) {
+    try {
+      return EJSON.parse(value, { relaxed: true });
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+async function* csvRecords(input: Readable, inferTypes: boolean): AsyncGenerator<ParsedRecord> {
+  let header: string[] | undefined;
+  let pending = '';
+  let index = 0;
+
+  for await (const line of readline.createInterface({ input, crlfDelay: Infinity })) {
+    pending = pending ? `${pending}\n${line}` : line;
+    const fields = parseCsvLine(pending);
+    if (!fields) {
+      continue; // quoted field spans lines
+    }
+    pending = '';
+
+    if (!header) {
+      header = fields;
+      continue;
+    }
+    if (fields.length === 1 && fields[0] === '') {
+      continue;
+    }
+
+    index++;
+    if (fields.length !== header.length) {
+      yield { index, error: `Expected ${header.length} columns, found ${fields.length}` };
+      continue;
+    }
+
+    const row: Document = {};
+    header.forEach((column, i) => {
+      // Empty cells mean "field absent", as written by the exporter
+      if (fields[i] !== '') {
+        row[column] = inferTypes ? inferCsvValue(fields[i]) : fields[i];
+      }
+    });
+    yield { index, data: unflattenRow(row) };
+  }
+
+  if (pending) {
+    yield { index: index + 1, error: 'Unterminated quoted field at end of file' };
+  }
+}
+
+function readRecords(filePath: string, format: ImportFormat, inferTypes: boolean) {
+  const input = openInput(filePath);
+  switch (format) {
+    case 'jsonl':
+      return jsonLinesRecords(input);
+    case 'csv':
+      return csvRecords(input, inferTypes);
+    default:
+      return jsonArrayRecords(input);
+  }
+}
+
+function getPath(doc: Document, dottedPath: string): unknown {
+  return dottedPath.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Document)[key] : undefined),
+    doc
+  );
+}
+
+async function validateWithModel(model: ValidatingModel, data: Document) {
+  const doc = new model(data);
+  try {
+    await doc.validate();
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      const errors: Record<string, string> = {};
+      Object.values(error.errors).forEach(err => {
+        errors[err.path] = err.message;
+      });
+      return { errors };
+    }
+    throw error;
+  }
+  return { doc: doc.toObject({ depopulate: true, versionKey: false }) as Document };
+}
+
+// Dotted paths to the leaves of a document; arrays, dates and ids are leaves
+function leafPaths(doc: Document, prefix = ''): [string, unknown][] {
+  return Object.entries(doc).flatMap(([key, value]) => {
+    const dotted = prefix + key;
+    return value && Object.getPrototypeOf(value) === Object.prototype
+      ? leafPaths(value, `${dotted}.`)
+      : [[dotted, value] as [string, unknown]];
+  });
+}
+
+function toWriteOperation(
+  doc: Document,
+  input: Document,
+  options: ImportOptions,
+  upsertKeys: string[],
+  timestamps: boolean
+): AnyBulkWriteOperation<Document> {
+  const now = new Date();
+
+  if (options.mode !== 'upsert') {
+    return { insertOne: { document: timestamps ? { createdAt: now, updatedAt: now, ...doc } : doc } };
+  }
+
+  const filter: Document = {};
+  upsertKeys.forEach(key => {
+    filter[key] = getPath(doc, key);
+  });
+
+  // Only what the record contains is updated. Schema defaults the model
+  // filled in (role, copies, counters...) apply to new documents alone, so
+  // re-importing never resets them. Existing documents also keep their _id
+  // and creation time.
+  const { _id, createdAt, ...fields } = doc;
+  const set: Document = {};
+  const setOnInsert: Document = {};
+  for (const [dotted, value] of leafPaths(fields)) {
+    (getPath(input, dotted) !== undefined ? set : setOnInsert)[dotted] = value;
+  }
+  if (_id !== undefined) {
+    setOnInsert._id = _id;
+  }
+  if (timestamps) {
+    setOnInsert.createdAt = createdAt ?? now;
+    set.updatedAt = now;
+  }
+
+  return {
+    updateOne: {
+      filter,
+      update: {
+        ...(Object.keys(set).length && { $set: set }),
+        ...(Object.keys(setOnInsert).length && { $setOnInsert: setOnInsert })
+      },
+      upsert: true
+    }
+  };
+}
+
+export async function importFile(
+  db: Db,
+  collectionName: string,
+  filePath: string,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const startedAt = Date.now();
+  const format = options.format ?? detectFormat(filePath);
+  const batchSize = options.batchSize ?? 1000;
+  const upsertKeys = ([] as string[]).concat(options.upsertKey ?? []);
+  const timestamps = Boolean(options.model?.schema.get('timestamps'));
+  const collection = db.collection(collectionName);
+  const reportPath = options.reportPath
+    ?? path.join(DEFAULT_EXPORT_DIR, `${collectionName}.rejected.jsonl`);
+
+  if (options.mode === 'upsert' && upsertKeys.length === 0) {
+    throw new Error('Upsert mode requires an upsertKey');
+  }
+
+  const result: ImportResult = {
+    collection: collectionName,
+    processed: 0,
+    inserted: 0,
+    upserted: 0,
+    modified: 0,
+    rejected: 0,
+    durationMs: 0
+  };
+
+  let report: fs.WriteStream | undefined;
+  const reject = async (row: RejectedRow) => {
+    result.rejected++;
+    if (!report) {
+      await fs.promises.mkdir(path.dirname(reportPath), { recursive: true });
+      report = fs.createWriteStream(reportPath);
+      result.reportPath = reportPath;
+    }
+    report.write(EJSON.stringify(row, { relaxed: true }) + '\n');
+  };
+
+  let batch: { index: number; data: Document; op: AnyBulkWriteOperation<Document> }[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) {
+      return;
+    }
+    const pending = batch;
+    batch = [];
+
+    try {
+      const written = await collection.bulkWrite(pending.map(entry => entry.op), { ordered: false });
+      result.inserted += written.insertedCount;
+      result.upserted += written.upsertedCount;
+      result.modified += written.modifiedCount;
+    } catch (error) {
+      if (!(error instanceof MongoBulkWriteError)) {
+        throw error;
+      }
+      // Unordered: everything but the failed operations was applied
+      result.inserted += error.result.insertedCount;
+      result.upserted += error.result.upsertedCount;
+      result.modified += error.result.modifiedCount;
+      const writeErrors = Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors];
+      for (const writeError of writeErrors) {
+        const entry = pending[writeError.index];
+        const message = writeError.code === 11000 ? 'Duplicate key' : writeError.errmsg ?? 'Write failed';
+        await reject({ record: entry.index, errors: { _write: message }, data: entry.data });
+      }
+    } finally {
+      // bulkWrite goes through the driver, past the cacheInvalidation plugin
+      await getQueryCache().invalidate(collectionName);
+    }
+
+    options.onProgress?.({ collection: collectionName, processed: result.processed, rejected: result.rejected });
+  };
+
+  try {
+    for await (const parsed of readRecords(filePath, format, options.inferTypes ?? true)) {
+      result.processed++;
+
+      if (!parsed.data) {
+        await reject({ record: parsed.index, errors: { _parse: parsed.error ?? 'Unparseable record' } });
+        continue;
+      }
+
+      let doc = parsed.data;
+      if (options.model) {
+        const validated = await validateWithModel(options.model, doc);
+        if (validated.errors) {
+          await reject({ record: parsed.index, errors: validated.errors, data: doc });
+          continue;
+        }
+        doc = validated.doc;
+      }
+      if (options.transform) {
+        doc = await options.transform(doc, options);
+      }
+
+      const missingKey = upsertKeys.find(key => getPath(doc, key) === undefined);
+      if (options.mode === 'upsert' && missingKey) {
+        await reject({ record: parsed.index, errors: { [missingKey]: 'Upsert key is missing' }, data: doc });
+        continue;
+      }
+
+      batch.push({ index: parsed.index, data: parsed.data, op: toWriteOperation(doc, parsed.data, options, upsertKeys, timestamps) });
+      if (batch.length >= batchSize) {
+        await flush();
+      }
+    }
+    await flush();
+  } finally {
+    if (report) {
+      const stream = report;
+      await new Promise(resolve => stream.end(resolve));
+    }
+  }
+
+  result.durationMs = Date.now() - startedAt;
+  return result;
+}
@@ -0,0 +1,381 @@
+import { Collection, Db, Document, ObjectId } from 'mongodb';
+import { IndexesDiff } from 'mongoose';
+import { AuditLog } from '../models/AuditLog';
+import { Job } from '../models/Job';
+import { JobSchedule } from '../models/JobSchedule';
+import { Movie } from '../models/Movie';
+import { RefreshToken } from '../models/RefreshToken';
+import { Rental } from '../models/Rental';
+import { Review } from '../models/Review';
+import { User } from '../models/User';
+
+// Keeps the indexes the models declare in step with the cluster, and checks
+// that the queries the app relies on actually use them.
+
+// The parts of a Mongoose model the index tooling needs
+export interface IndexedModel {
+  modelName: string;
+  collection: Pick<Collection, 'collectionName' | 'createIndex' | 'dropIndex'>;
+  listIndexes(): Promise<Document[]>;
+  diffIndexes(options?: Record<string, unknown>): Promise<IndexesDiff>;
+}
+
+export interface IndexSpec {
+  name: string;
+  key: Document;
+  // unique, sparse, partialFilterExpression, ...
+  options: Document;
+}
+
+export interface IndexDiff {
+  model: string;
+  collection: string;
+  // Declared and present with the same options
+  inSync: string[];
+  // Declared but not in the database
+  missing: IndexSpec[];
+  // In the database but not declared. An index declared with different
+  // options shows up here and in missing under the same name.
+  unknown: IndexSpec[];
+}
+
+export interface SyncOptions {
+  dryRun?: boolean;
+  // Also drop unknown indexes, including ones declared with other options
+  dropUnknown?: boolean;
+}
+
+export interface IndexAction {
+  collection: string;
+  action: 'create' | 'drop';
+  name: string;
+  key: Document;
+  status: 'applied' | 'planned' | 'skipped';
+  // Why a skipped action was skipped
+  reason?: string;
+}
+
+export interface RegisteredQuery {
+  name: string;
+  description: string;
+  collection: string;
+  filter: Document;
+  sort?: Document;
+  projection?: Document;
+  limit?: number;
+}
+
+export type PlanIssueType = 'COLLSCAN' | 'UNINDEXED_SORT' | 'LOW_SELECTIVITY';
+
+export interface PlanIssue {
+  type: PlanIssueType;
+  message: string;
+}
+
+export interface QueryPlan {
+  query: string;
+  collection: string;
+  // Stages of the winning plan, outermost first
+  stages: string[];
+  indexes: string[];
+  nReturned: number;
+  keysExamined: number;
+  docsExamined: number;
+  executionTimeMs: number;
+  issues: PlanIssue[];
+}
+
+export interface ExplainOptions {
+  // Flag plans that examine more than this many keys or documents per result
+  maxExaminedPerResult?: number;
+  // ...but only once they examine at least this many in total
+  minExamined?: number;
+}
+
+export interface IndexUsage {
+  collection: string;
+  name: string;
+  key: Document;
+  // Operations that used the index since `since`
+  ops: number;
+  since: Date;
+  // The member the counters come from
+  host: string;
+}
+
+export const INDEXED_MODELS: IndexedModel[] = [
+  User, Movie, Rental, Review, AuditLog, RefreshToken, Job, JobSchedule
+];
+
+// Queries the app runs often enough that a plan change matters. The ids are
+// placeholders: plans depend on the shape of the filter, not on its values.
+export const QUERIES: Record<string, RegisteredQuery> = {
+  'user-by-email': {
+    name: 'user-by-email',
+    description: 'Login and profile lookups',
+    collection: 'users',
+    filter: { email: 'sean_bean@gameofthron.es', deletedAt: null }
+  },
+  'users-by-email-domain': {
+    name: 'users-by-email-domain',
+    description: 'Users search by email suffix; unanchored, so it walks the whole email index',
+    collection: 'users',
+    filter: { email: { $regex: /@winterfell\.com$/ } }
+  },
+  'users-by-name': {
+    name: 'users-by-name',
+    description: 'Active users listed by name',
+    collection: 'users',
+    filter: { deletedAt: null },
+    sort: { name: 1 },
+    limit: 50
+  },
+  'movies-top-rated-in-genre': {
+    name: 'movies-top-rated-in-genre',
+    description: 'Best rated movies of a genre',
+    collection: 'movies',
+    filter: { genres: 'Drama' },
+    sort: { 'imdb.rating': -1 },
+    limit: 20
+  },
+  'movies-by-year': {
+    name: 'movies-by-year',
+    description: 'Movies released in a range of years',
+    collection: 'movies',
+    filter: { year: { $gte: 1990, $lt: 2000 } },
+    sort: { year: 1 }
+  },
+  'movies-by-director': {
+    name: 'movies-by-director',
+    description: 'Filmography of a director',
+    collection: 'movies',
+    filter: { directors: 'Christopher Nolan' }
+  },
+  'movies-text-search': {
+    name: 'movies-text-search',
+    description: 'Full-text search over titles and plots',
+    collection: 'movies',
+    filter: { $text: { $search: 'godfather' } },
+    limit: 20
+  },
+  'rentals-active-by-user': {
+    name: 'rentals-active-by-user',
+    description: 'Active rentals counted against the per-user limit',
+    collection: 'rentals',
+    filter: { user: new ObjectId('000000000000000000000000'), status: 'active' }
+  },
+  'rentals-overdue': {
+    name: 'rentals-overdue',
+    description: 'Overdue rentals, oldest first',
+    collection: 'rentals',
+    filter: { status: 'active', dueDate: { $lt: new Date(0) } },
+    sort: { dueDate: 1 }
+  },
+  'reviews-most-helpful': {
+    name: 'reviews-most-helpful',
+    description: 'Reviews of a movie, most helpful first',
+    collection: 'reviews',
+    filter: { movie: new ObjectId('000000000000000000000000') },
+    sort: { helpfulVotes: -1, createdAt: -1, _id: 1 },
+    limit: 20
+  },
+  'audit-history': {
+    name: 'audit-history',
+    description: 'Change history of one document',
+    collection: 'audit_log',
+    filter: { collectionName: 'users', documentId: new ObjectId('000000000000000000000000') },
+    sort: { at: -1, _id: -1 }
+  },
+  'jobs-due': {
+    name: 'jobs-due',
+    description: 'Due jobs of one type, as workers claim them',
+    collection: 'jobs',
+    filter: { status: 'pending', type: 'overdue-reminders', runAt: { $lte: new Date(0) } },
+    sort: { runAt: 1, _id: 1 },
+    limit: 1
+  }
+};
+
+// The driver's default, e.g. { user: 1, status: 1 } -> 'user_1_status_1'
+function defaultIndexName(key: Document) {
+  return Object.entries(key).map(([field, direction]) => `${field}_${direction}`).join('_');
+}
+
+function toSpec({ v, key, name, ns, ...options }: Document): IndexSpec {
+  return { name, key, options };
+}
+
+export async function diffIndexes(models: IndexedModel[] = INDEXED_MODELS): Promise<IndexDiff[]> {
+  return Promise.all(models.map(async model => {
+    const { toCreate, toDrop } = await model.diffIndexes({ indexOptionsToCreate: true });
+    const existing = await model.listIndexes().catch(error => {
+      // The collection does not exist yet
+      if (error.codeName === 'NamespaceNotFound') {
+        return [];
+      }
+      throw error;
+    });
+
+    const missing = (toCreate as [Document, Document][]).map(([key, options]) => ({
+      name: options.name ?? defaultIndexName(key),
+      key,
+      options
+    }));
+    const unknown = existing.filter(index => toDrop.includes(index.name)).map(toSpec);
+    const inSync = existing
+      .map(index => index.name as string)
+      .filter(name => name !== '_id_' && !toDrop.includes(name));
+
+    return { model: model.modelName, collection: model.collection.collectionName, inSync, missing, unknown };
+  }));
+}
+
+// Builds missing indexes. Unknown indexes are only dropped with
+// dropUnknown; other applications sharing the cluster may rely on them.
+// An index declared with options that differ from the existing one needs
+// that one dropped first, so it is skipped too unless dropUnknown is set.
+export async function syncIndexes(
+  options: SyncOptions = {},
+  models: IndexedModel[] = INDEXED_MODELS
+): Promise<IndexAction[]> {
+  const { dryRun = false, dropUnknown = false } = options;
+  const diffs = await diffIndexes(models);
+  const actions: IndexAction[] = [];
+
+  for (const [i, diff] of diffs.entries()) {
+    const { collection } = models[i];
+
+    for (const index of diff.unknown) {
+      const action: IndexAction = { collection: diff.collection, action: 'drop', name: index.name, key: index.key, status: 'planned' };
+      if (!dropUnknown) {
+        actions.push({ ...action, status: 'skipped', reason: 'not declared by the model; pass dropUnknown to drop it' });
+        continue;
+      }
+      if (!dryRun) {
+        await collection.dropIndex(index.name);
+        action.status = 'applied';
+      }
+      actions.push(action);
+    }
+
+    for (const index of diff.missing) {
+      const action: IndexAction = { collection: diff.collection, action: 'create', name: index.name, key: index.key, status: 'planned' };
+      const conflict = diff.unknown.find(existing =>
+        existing.name === index.name || JSON.stringify(existing.key) === JSON.stringify(index.key));
+      if (conflict && !dropUnknown) {
+        actions.push({ ...action, status: 'skipped', reason: `conflicts with existing index ${conflict.name}` });
+        continue;
+      }
+      if (!dryRun) {
+        await collection.createIndex(index.key, index.options);
+        action.status = 'applied';
+      }
+      actions.push(action);
+    }
+  }
+  return actions;
+}
+
+// Classic plans nest stages through inputStage(s); slot-based ones wrap the
+// same tree in queryPlan, and sharded ones list a plan per shard.
+function planStages(plan: Document | undefined): Document[] {
+  if (!plan) {
+    return [];
+  }
+  if (plan.queryPlan) {
+    return planStages(plan.queryPlan);
+  }
+  if (plan.shards) {
+    return (plan.shards as Document[]).flatMap(shard => planStages(shard.winningPlan));
+  }
+  const children = [plan.inputStage, ...(plan.inputStages ?? [])].filter(Boolean);
+  return [plan, ...children.flatMap(planStages)];
+}
+
+export function analyzePlan(query: RegisteredQuery, explain: Document, options: ExplainOptions = {}): QueryPlan {
+  const { maxExaminedPerResult = 10, minExamined = 1000 } = options;
+  const stages = planStages(explain.queryPlanner?.winningPlan);
+  const stats = explain.executionStats ?? {};
+  const nReturned: number = stats.nReturned ?? 0;
+  const keysExamined: number = stats.totalKeysExamined ?? 0;
+  const docsExamined: number = stats.totalDocsExamined ?? 0;
+  const issues: PlanIssue[] = [];
+
+  if (stages.some(stage => stage.stage === 'COLLSCAN')) {
+    issues.push({ type: 'COLLSCAN', message: `scans all of ${query.collection}; no index supports the filter` });
+  }
+  if (stages.some(stage => stage.stage === 'SORT')) {
+    issues.push({ type: 'UNINDEXED_SORT', message: `sorts ${JSON.stringify(query.sort)} in memory` });
+  }
+  const examined = Math.max(keysExamined, docsExamined);
+  if (examined >= minExamined && examined > maxExaminedPerResult * Math.max(nReturned, 1)) {
+    issues.push({
+      type: 'LOW_SELECTIVITY',
+      message: `examines ${examined} keys/documents for ${nReturned} result(s)`
+    });
+  }
+
+  return {
+    query: query.name,
+    collection: query.collection,
+    stages: stages.map(stage => stage.stage as string),
+    indexes: [...new Set(stages.map(stage => stage.indexName as string | undefined).filter(Boolean) as string[])],
+    nReturned,
+    keysExamined,
+    docsExamined,
+    executionTimeMs: stats.executionTimeMillis ?? 0,
+    issues
+  };
+}
+
+// Runs each query with explain('executionStats'), so it really executes
+// against the current data; point it at a secondary for large collections.
+export async function explainQueries(
+  db: Db,
+  queries: RegisteredQuery[] = Object.values(QUERIES),
+  options: ExplainOptions = {}
+): Promise<QueryPlan[]> {
+  const plans: QueryPlan[] = [];
+  for (const query of queries) {
+    const cursor = db.collection(query.collection).find(query.filter, { projection: query.projection });
+    if (query.sort) {
+      cursor.sort(query.sort);
+    }
+    if (query.limit) {
+      cursor.limit(query.limit);
+    }
+    plans.push(analyzePlan(query, await cursor.explain('executionStats'), options));
+  }
+  return plans;
+}
+
+// $indexStats counts per member and restarts from zero when mongod restarts
+// or the index is rebuilt, so check `since` and every member before trusting
+// a zero.
+export async function indexUsage(
+  db: Db,
+  collections: string[] = INDEXED_MODELS.map(model => model.collection.collectionName)
+): Promise<IndexUsage[]> {
+  const usage = await Promise.all(collections.map(async collection => {
+    const stats = await db.collection(collection).aggregate([{ $indexStats: {} }]).toArray().catch(error => {
+      if (error.codeName === 'NamespaceNotFound') {
+        return [];
+      }
+      throw error;
+    });
+    return stats.map(stat => ({
+      collection,
+      name: stat.name as string,
+      key: stat.key as Document,
+      ops: Number(stat.accesses.ops),
+      since: stat.accesses.since as Date,
+      host: stat.host as string
+    }));
+  }));
+  return usage.flat().sort((a, b) => a.collection.localeCompare(b.collection) || a.name.localeCompare(b.name));
+}
+
+export async function unusedIndexes(db: Db, collections?: string[]): Promise<IndexUsage[]> {
+  const usage = await indexUsage(db, collections);
+  return usage.filter(index => index.ops === 0 && index.name !== '_id_');
+}
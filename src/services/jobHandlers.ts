@@ -0,0 +1,97 @@
+import { Db, ObjectId } from 'mongodb';
+import { Rental } from '../models/Rental';
+import { exportCollection, ExportFormat } from './exporter';
+import { JobHandler } from './jobQueue';
+import { refreshMovieStats } from './movieStats';
+
+export interface OverdueReminder {
+  userId: ObjectId;
+  email: string;
+  name: string;
+  rentals: { rentalId: ObjectId; title: string; dueDate: Date }[];
+}
+
+export type ReminderSink = (reminder: OverdueReminder) => void | Promise<void>;
+
+export const JOB_TYPES = {
+  overdueReminders: 'overdue-reminders',
+  refreshMovieStats: 'refresh-movie-stats',
+  exportCollection: 'export-collection'
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPORT_FORMATS: ExportFormat[] = ['jsonl', 'csv', 'ejson'];
+
+// One reminder per user covering all their overdue rentals. Rentals are
+// marked before the reminders go out, so a retry after a failed delivery
+// skips them until the next day rather than reminding twice.
+export function overdueRemindersHandler(notify: ReminderSink): JobHandler {
+  return async () => {
+    const now = new Date();
+    const due = {
+      status: 'active',
+      dueDate: { $lt: now },
+      $or: [{ lastReminderAt: null }, { lastReminderAt: { $lte: new Date(now.getTime() - DAY_MS) } }]
+    };
+    const rentals = await Rental.find(due, { _id: 1 }).lean();
+    if (!rentals.length) {
+      return { reminded: 0, rentals: 0 };
+    }
+
+    const ids = rentals.map(rental => rental._id);
+    await Rental.updateMany({ _id: { $in: ids } }, { $set: { lastReminderAt: now } });
+
+    const reminders = await Rental.aggregate<OverdueReminder>([
+      { $match: { _id: { $in: ids } } },
+      { $lookup: { from: 'movies', localField: 'movie', foreignField: '_id', as: 'movie' } },
+      { $group: {
+        _id: '$user',
+        rentals: { $push: { rentalId: '$_id', title: { $first: '$movie.title' }, dueDate: '$dueDate' } }
+      } },
+      // Soft-deleted accounts get no mail
+      { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'user' } },
+      { $unwind: '$user' },
+      { $match: { 'user.deletedAt': null } },
+      { $project: { _id: 0, userId: '$_id', email: '$user.email', name: '$user.name', rentals: 1 } },
+      { $sort: { email: 1 } }
+    ]);
+
+    for (const reminder of reminders) {
+      await notify(reminder);
+    }
+    return { reminded: reminders.length, rentals: ids.length };
+  };
+}
+
+// payload: { full?: boolean }. Another process holding the refresh lock
+// counts as done; the scheduler or the next run catches up.
+export function refreshMovieStatsHandler(db: Db): JobHandler {
+  return async ({ payload }) => {
+    const result = await refreshMovieStats(db, { full: payload.full === true });
+    return result ?? { skipped: 'another refresh is running' };
+  };
+}
+
+// payload: { collection, format?, gzip?, filter?, outputDir? }
+export function exportCollectionHandler(db: Db): JobHandler {
+  return async ({ payload }) => {
+    const format = (payload.format ?? 'jsonl') as ExportFormat;
+    if (typeof payload.collection !== 'string' || !EXPORT_FORMATS.includes(format)) {
+      throw new Error(`export-collection needs a collection and a format of ${EXPORT_FORMATS.join(', ')}`);
+    }
+    return exportCollection(db, payload.collection, {
+      format,
+      gzip: payload.gzip === true,
+      filter: payload.filter as Record<string, unknown> | undefined,
+      outputDir: typeof payload.outputDir === 'string' ? payload.outputDir : undefined
+    });
+  };
+}
+
+export function defaultJobHandlers(db: Db, notify: ReminderSink): Record<string, JobHandler> {
+  return {
+    [JOB_TYPES.overdueReminders]: overdueRemindersHandler(notify),
+    [JOB_TYPES.refreshMovieStats]: refreshMovieStatsHandler(db),
+    [JOB_TYPES.exportCollection]: exportCollectionHandler(db)
+  };
+}
@@ -0,0 +1,401 @@
+import crypto from 'crypto';
+import os from 'os';
+import { Types } from 'mongoose';
+import { nextCronRun, parseCron } from '../lib/cron';
+import { IJob, Job, JobStatus } from '../models/Job';
+import { JobSchedule, IJobSchedule } from '../models/JobSchedule';
+
+// Jobs live in the jobs collection of the shared connection. A worker claims
+// one with a single findOneAndUpdate, which also sets a visibility timeout;
+// if the worker dies, the job becomes claimable again once that passes.
+// Failures are retried with exponential backoff until maxAttempts, after
+// which the job is left in the dead state.
+
+export type JobErrorCode = 'JOB_NOT_FOUND' | 'NOT_DEAD' | 'ALREADY_QUEUED';
+
+export class JobError extends Error {
+  constructor(public code: JobErrorCode, message: string) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  delayMs?: number;
+  maxAttempts?: number;
+  // A second job with the same key is refused while the first is pending
+  dedupeKey?: string;
+  schedule?: string;
+}
+
+export interface ClaimOptions {
+  visibilityTimeoutMs?: number;
+  // Most jobs of a type running at once, across all workers
+  limits?: Record<string, number>;
+  now?: Date;
+}
+
+export interface JobContext {
+  id: Types.ObjectId;
+  type: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+  // Aborted when the worker lost the job (lock expired and re-claimed) or is stopping
+  signal: AbortSignal;
+}
+
+export type JobHandler = (job: JobContext) => Promise<unknown>;
+
+export type JobEvent =
+  | { type: 'completed'; job: IJob; durationMs: number }
+  | { type: 'failed'; job: IJob; error: unknown; willRetry: boolean }
+  | { type: 'scheduled'; schedule: string; job: IJob };
+
+export interface WorkerOptions {
+  handlers: Record<string, JobHandler>;
+  id?: string;
+  // Jobs this worker runs at the same time
+  concurrency?: number;
+  limits?: Record<string, number>;
+  pollIntervalMs?: number;
+  visibilityTimeoutMs?: number;
+  onEvent?(event: JobEvent): void;
+  onError?(error: unknown): void;
+}
+
+export interface JobWorker {
+  readonly id: string;
+  readonly processed: number;
+  start(): void;
+  // Claims and runs due jobs until none are left; returns how many ran
+  runOnce(): Promise<number>;
+  // Stops claiming and waits for running jobs
+  stop(): Promise<void>;
+}
+
+type Id = string | Types.ObjectId;
+
+export const jobPolicy = {
+  visibilityTimeoutMs: 5 * 60 * 1000,
+  backoffBaseMs: 10 * 1000,
+  maxBackoffMs: 60 * 60 * 1000,
+  pollIntervalMs: 1000
+};
+
+const isDuplicateKey = (error: unknown) => (error as { code?: number }).code === 11000;
+
+export function retryDelay(attempts: number) {
+  return Math.min(jobPolicy.backoffBaseMs * 2 ** (attempts - 1), jobPolicy.maxBackoffMs);
+}
+
+export async function enqueue(type: string, payload: Record<string, unknown> = {}, options: EnqueueOptions = {}): Promise<IJob> {
+  const runAt = options.runAt ?? new Date(Date.now() + (options.delayMs ?? 0));
+  try {
+    return await Job.create({
+      type,
+      payload,
+      runAt,
+      maxAttempts: options.maxAttempts,
+      dedupeKey: options.dedupeKey,
+      schedule: options.schedule ?? null
+    });
+  } catch (error) {
+    if (isDuplicateKey(error)) {
+      throw new JobError('ALREADY_QUEUED', `A job with key ${options.dedupeKey} is already pending`);
+    }
+    throw error;
+  }
+}
+
+// Types at their limit are left out of the claim. The count is read just
+// before claiming, so two workers racing for the last slot can both get it;
+// limits shape load, they are not a lock.
+async function claimableTypes(types: string[], limits: Record<string, number>, now: Date) {
+  const limited = types.filter(type => limits[type] !== undefined);
+  if (!limited.length) {
+    return types;
+  }
+
+  const running = await Job.aggregate<{ _id: string; count: number }>([
+    { $match: { status: 'running', lockedUntil: { $gt: now }, type: { $in: limited } } },
+    { $group: { _id: '$type', count: { $sum: 1 } } }
+  ]);
+  const counts = new Map(running.map(({ _id, count }) => [_id, count]));
+  return types.filter(type => (counts.get(type) ?? 0) < (limits[type] ?? Infinity));
+}
+
+// Takes the oldest due job of the given types: pending ones past runAt and
+// running ones whose visibility timeout expired. A job that keeps timing
+// out is dead once it has used up its attempts.
+export async function claimJob(types: string[], workerId: string, options: ClaimOptions = {}): Promise<IJob | null> {
+  for (;;) {
+    const now = options.now ?? new Date();
+    const eligible = await claimableTypes(types, options.limits ?? {}, now);
+    if (!eligible.length) {
+      return null;
+    }
+
+    const job = await Job.findOneAndUpdate(
+      {
+        type: { $in: eligible },
+        $or: [
+          { status: 'pending', runAt: { $lte: now } },
+          { status: 'running', lockedUntil: { $lte: now } }
+        ]
+      },
+      {
+        $set: {
+          status: 'running',
+          lockedBy: workerId,
+          lockedUntil: new Date(now.getTime() + (options.visibilityTimeoutMs ?? jobPolicy.visibilityTimeoutMs))
+        },
+        $inc: { attempts: 1 }
+      },
+      { sort: { runAt: 1, _id: 1 }, new: true }
+    );
+    if (!job || job.attempts <= job.maxAttempts) {
+      return job;
+    }
+
+    await Job.updateOne({ _id: job._id, lockedBy: workerId }, {
+      $set: { status: 'dead', lockedBy: null, lockedUntil: null, lastError: job.lastError ?? 'Visibility timeout expired on every attempt' },
+      $inc: { attempts: -1 }
+    });
+  }
+}
+
+// Pushes the visibility timeout out while a long job runs; false if the job
+// is no longer this worker's
+export async function extendLock(jobId: Id, workerId: string, visibilityTimeoutMs = jobPolicy.visibilityTimeoutMs) {
+  const result = await Job.updateOne(
+    { _id: jobId, status: 'running', lockedBy: workerId },
+    { $set: { lockedUntil: new Date(Date.now() + visibilityTimeoutMs) } }
+  );
+  return result.matchedCount === 1;
+}
+
+// Both return false when the worker no longer held the job, in which case
+// whoever claimed it since decides the outcome
+export async function completeJob(jobId: Id, workerId: string, result?: unknown) {
+  const update = await Job.updateOne({ _id: jobId, status: 'running', lockedBy: workerId }, {
+    $set: { status: 'completed', result: result ?? null, completedAt: new Date(), lockedBy: null, lockedUntil: null }
+  });
+  return update.modifiedCount === 1;
+}
+
+export async function failJob(job: IJob, workerId: string, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  const willRetry = job.attempts < job.maxAttempts;
+  const settle = (status: JobStatus, runAt: Date, lastError: string) => Job.updateOne(
+    { _id: job._id, status: 'running', lockedBy: workerId },
+    { $set: { status, runAt, lastError, lockedBy: null, lockedUntil: null } }
+  );
+
+  try {
+    const update = willRetry
+      ? await settle('pending', new Date(Date.now() + retryDelay(job.attempts)), message)
+      : await settle('dead', job.runAt, message);
+    return { updated: update.modifiedCount === 1, willRetry };
+  } catch (updateError) {
+    if (!isDuplicateKey(updateError)) {
+      throw updateError;
+    }
+    // The dedupe index only covers pending jobs, so a job with the same key
+    // may have been queued while this one ran; that one does the work now
+    const update = await settle('dead', job.runAt, `${message} (not retried: a job with key ${job.dedupeKey} is already pending)`);
+    return { updated: update.modifiedCount === 1, willRetry: false };
+  }
+}
+
+// Puts a dead job back in the queue with a fresh set of attempts
+export async function retryJob(jobId: Id): Promise<IJob> {
+  const job = await Job.findOneAndUpdate(
+    { _id: jobId, status: 'dead' },
+    { $set: { status: 'pending', runAt: new Date(), attempts: 0, lockedBy: null, lockedUntil: null } },
+    { new: true }
+  ).catch(error => {
+    if (isDuplicateKey(error)) {
+      throw new JobError('ALREADY_QUEUED', `Job ${jobId} has the dedupe key of a job that is already pending`);
+    }
+    throw error;
+  });
+  if (job) {
+    return job;
+  }
+  if (await Job.exists({ _id: jobId })) {
+    throw new JobError('NOT_DEAD', `Job ${jobId} is not in the dead-letter state`);
+  }
+  throw new JobError('JOB_NOT_FOUND', `Job ${jobId} not found`);
+}
+
+export async function jobCounts(): Promise<Record<string, Partial<Record<JobStatus, number>>>> {
+  const rows = await Job.aggregate<{ _id: { type: string; status: JobStatus }; count: number }>([
+    { $group: { _id: { type: '$type', status: '$status' }, count: { $sum: 1 } } },
+    { $sort: { '_id.type': 1, '_id.status': 1 } }
+  ]);
+  const counts: Record<string, Partial<Record<JobStatus, number>>> = {};
+  for (const { _id, count } of rows) {
+    (counts[_id.type] ??= {})[_id.status] = count;
+  }
+  return counts;
+}
+
+// Creates or replaces a recurring job; the first run is the next cron match
+export async function scheduleJob(
+  name: string,
+  cron: string,
+  type: string,
+  payload: Record<string, unknown> = {},
+  options: { maxAttempts?: number; now?: Date } = {}
+): Promise<IJobSchedule> {
+  const nextRunAt = nextCronRun(parseCron(cron), options.now ?? new Date());
+  return JobSchedule.findOneAndUpdate(
+    { _id: name },
+    { $set: { cron, type, payload, maxAttempts: options.maxAttempts, enabled: true, nextRunAt } },
+    { upsert: true, new: true, runValidators: true }
+  ).orFail();
+}
+
+export async function unscheduleJob(name: string) {
+  return (await JobSchedule.deleteOne({ _id: name })).deletedCount === 1;
+}
+
+// Enqueues one job per due schedule. Moving nextRunAt is a compare-and-set
+// on its old value, so with many workers polling only one enqueues each
+// occurrence. Runs missed while no worker was up collapse into one.
+export async function enqueueDueSchedules(now = new Date()) {
+  const due = await JobSchedule.find({ enabled: true, nextRunAt: { $lte: now } });
+  const enqueued: { schedule: string; job: IJob }[] = [];
+
+  for (const schedule of due) {
+    const moved = await JobSchedule.updateOne(
+      { _id: schedule._id, nextRunAt: schedule.nextRunAt },
+      { $set: { nextRunAt: nextCronRun(schedule.cron, now), lastRunAt: now } }
+    );
+    if (moved.modifiedCount === 1) {
+      const job = await enqueue(schedule.type, schedule.payload, {
+        maxAttempts: schedule.maxAttempts,
+        schedule: schedule._id
+      });
+      enqueued.push({ schedule: schedule._id, job });
+    }
+  }
+  return enqueued;
+}
+
+// Polls for due jobs of the handled types and runs up to `concurrency` of
+// them at once, extending each one's lock while its handler runs. Also
+// enqueues due recurring jobs on every poll.
+export function createWorker(options: WorkerOptions): JobWorker {
+  const id = options.id ?? `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+  const types = Object.keys(options.handlers);
+  const concurrency = options.concurrency ?? 1;
+  const visibilityTimeoutMs = options.visibilityTimeoutMs ?? jobPolicy.visibilityTimeoutMs;
+  const onError = options.onError ?? (error => console.error('❌ Job worker error:', error));
+  const running = new Set<Promise<void>>();
+  const stopping = new AbortController();
+  let processed = 0;
+  let timer: NodeJS.Timeout | undefined;
+  let polling: Promise<number> | undefined;
+
+  async function run(job: IJob) {
+    const lost = new AbortController();
+    const abort = () => lost.abort();
+    stopping.signal.addEventListener('abort', abort);
+    const heartbeat = setInterval(() => {
+      extendLock(job._id, id, visibilityTimeoutMs)
+        .then(held => held || lost.abort())
+        .catch(onError);
+    }, visibilityTimeoutMs / 2);
+    heartbeat.unref();
+
+    const startedAt = Date.now();
+    try {
+      const result = await options.handlers[job.type]({
+        id: job._id,
+        type: job.type,
+        payload: job.payload,
+        attempts: job.attempts,
+        signal: lost.signal
+      });
+      if (await completeJob(job._id, id, result)) {
+        options.onEvent?.({ type: 'completed', job, durationMs: Date.now() - startedAt });
+      }
+    } catch (error) {
+      const { updated, willRetry } = await failJob(job, id, error);
+      if (updated) {
+        options.onEvent?.({ type: 'failed', job, error, willRetry });
+      }
+    } finally {
+      clearInterval(heartbeat);
+      stopping.signal.removeEventListener('abort', abort);
+      processed++;
+    }
+  }
+
+  // Fills free slots with due jobs; resolves with the number started
+  async function fill() {
+    for (const { schedule, job } of await enqueueDueSchedules()) {
+      options.onEvent?.({ type: 'scheduled', schedule, job });
+    }
+
+    let started = 0;
+    while (!stopping.signal.aborted && running.size < concurrency) {
+      const job = await claimJob(types, id, { visibilityTimeoutMs, limits: options.limits });
+      if (!job) {
+        break;
+      }
+      const task: Promise<void> = run(job).catch(onError).finally(() => {
+        running.delete(task);
+        // A freed slot is filled right away instead of on the next poll
+        if (timer) {
+          poll();
+        }
+      });
+      running.add(task);
+      started++;
+    }
+    return started;
+  }
+
+  function poll() {
+    clearTimeout(timer);
+    polling ??= fill().catch(error => {
+      onError(error);
+      return 0;
+    }).finally(() => {
+      polling = undefined;
+      if (!stopping.signal.aborted) {
+        timer = setTimeout(poll, options.pollIntervalMs ?? jobPolicy.pollIntervalMs);
+        timer.unref();
+      }
+    });
+    return polling;
+  }
+
+  return {
+    id,
+    get processed() {
+      return processed;
+    },
+    start() {
+      timer = setTimeout(poll, 0);
+      timer.unref();
+    },
+    async runOnce() {
+      const before = processed;
+      while (await fill() > 0 || running.size) {
+        await Promise.race(running);
+      }
+      return processed - before;
+    },
+    async stop() {
+      clearTimeout(timer);
+      timer = undefined;
+      stopping.abort();
+      await polling;
+      await Promise.allSettled(running);
+    }
+  };
+}
@@ -0,0 +1,103 @@
+import { Db, ObjectId } from 'mongodb';
+import { ChangeHandler } from './changeStreams';
+
+export type LiveEvent =
+  | { type: 'now-rented'; movieId: ObjectId; title: string; rentedCount: number; at: Date }
+  | { type: 'new-user'; userId: ObjectId; name: string; at: Date }
+  | { type: 'returned'; rentalId: ObjectId; movieId: ObjectId; lateFeeCents: number; at: Date };
+
+export type LiveEventSink = (event: LiveEvent) => void | Promise<void>;
+
+export interface RentalStats {
+  _id: ObjectId;
+  active: number;
+  returned: number;
+  lateFeeCents: number;
+  updatedAt: Date;
+}
+
+export const RENTAL_STATS_COLLECTION = 'rental_stats';
+
+export function nowRentedHandler(notify: LiveEventSink): ChangeHandler<'movies'> {
+  return {
+    name: 'now-rented',
+    collection: 'movies',
+    operations: ['update'],
+    fields: ['rentedCount'],
+    handle: ({ documentId, fullDocument, at }) => notify({
+      type: 'now-rented',
+      movieId: documentId,
+      title: fullDocument?.title ?? '(deleted)',
+      rentedCount: fullDocument?.rentedCount ?? 0,
+      at
+    })
+  };
+}
+
+export function newUserHandler(notify: LiveEventSink): ChangeHandler<'users'> {
+  return {
+    name: 'new-user',
+    collection: 'users',
+    operations: ['insert'],
+    handle: ({ documentId, fullDocument, at }) => notify({
+      type: 'new-user',
+      userId: documentId,
+      name: fullDocument?.name ?? '',
+      at
+    })
+  };
+}
+
+export function returnedHandler(notify: LiveEventSink): ChangeHandler<'rentals'> {
+  return {
+    name: 'returned',
+    collection: 'rentals',
+    operations: ['update'],
+    fields: ['status'],
+    async handle({ documentId, fullDocument, at }) {
+      if (fullDocument?.status === 'returned') {
+        await notify({
+          type: 'returned',
+          rentalId: documentId,
+          movieId: fullDocument.movie,
+          lateFeeCents: fullDocument.lateFeeCents ?? 0,
+          at
+        });
+      }
+    }
+  };
+}
+
+// Per-movie rental counters in rental_stats. Counters are incremented, so an
+// event replayed after a crash is counted twice; rebuild the collection from
+// rentals if exact figures matter.
+export function rentalStatsHandler(db: Db): ChangeHandler<'rentals'> {
+  const stats = db.collection<RentalStats>(RENTAL_STATS_COLLECTION);
+
+  return {
+    name: 'rental-stats',
+    collection: 'rentals',
+    operations: ['insert', 'update'],
+    fields: ['status'],
+    async handle({ operation, fullDocument }) {
+      if (!fullDocument) {
+        return;
+      }
+
+      const $inc = operation === 'insert'
+        ? { active: 1 }
+        : fullDocument.status === 'returned'
+          ? { active: -1, returned: 1, lateFeeCents: fullDocument.lateFeeCents ?? 0 }
+          : undefined;
+      if (!$inc) {
+        return;
+      }
+
+      await stats.updateOne(
+        { _id: fullDocument.movie },
+        { $inc, $set: { updatedAt: new Date() } },
+        { upsert: true }
+      );
+    }
+  };
+}
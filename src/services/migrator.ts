@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Db, MongoServerError } from 'mongodb';
+
+export interface MigrationContext {
+  db: Db;
+  log: (message: string) => void;
+}
+
+// Shape of every file in src/migrations, named NNN-description.ts
+export interface MigrationModule {
+  description: string;
+  up(context: MigrationContext): Promise<void>;
+  down(context: MigrationContext): Promise<void>;
+}
+
+export interface Migration extends MigrationModule {
+  version: number;
+  name: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  _id: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+  durationMs: number;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt?: Date;
+}
+
+export interface MigratorOptions {
+  directory?: string;
+  dryRun?: boolean;
+  // A lock older than this is considered abandoned by a crashed run
+  lockTtlMs?: number;
+  log?: (message: string) => void;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+const MIGRATIONS_COLLECTION = 'migrations';
+const LOCK_COLLECTION = 'migrations_lock';
+const LOCK_ID = 'migrations';
+const MIGRATION_FILE = /^(\d+)[-_][\w-]+\.(ts|js)$/;
+
+export const DEFAULT_MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+
+export async function loadMigrations(directory = DEFAULT_MIGRATIONS_DIR): Promise<Migration[]> {
+  const files = (await fs.readdir(directory)).filter(file => MIGRATION_FILE.test(file) && !file.endsWith('.d.ts'));
+  const migrations: Migration[] = [];
+
+  for (const file of files) {
+    const fullPath = path.join(directory, file);
+    const source = await fs.readFile(fullPath);
+    const mod = require(fullPath) as MigrationModule;
+
+    if (typeof mod.up !== 'function' || typeof mod.down !== 'function') {
+      throw new MigrationError(`${file} must export up() and down()`);
+    }
+
+    migrations.push({
+      version: Number(MIGRATION_FILE.exec(file)![1]),
+      name: path.basename(file, path.extname(file)),
+      checksum: crypto.createHash('sha256').update(source).digest('hex'),
+      description: mod.description,
+      up: mod.up,
+      down: mod.down
+    });
+  }
+
+  migrations.sort((a, b) => a.version - b.version);
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migrations[i - 1].version === migration.version) {
+      throw new MigrationError(`Duplicate migration version ${migration.version}`);
+    }
+  });
+  return migrations;
+}
+
+export async function migrationStatus(db: Db, options: MigratorOptions = {}): Promise<MigrationStatus[]> {
+  const migrations = await loadMigrations(options.directory);
+  const applied = await db.collection<AppliedMigration>(MIGRATIONS_COLLECTION)
+    .find().sort({ _id: 1 }).toArray();
+  const appliedByVersion = new Map(applied.map(record => [record._id, record]));
+
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const record = appliedByVersion.get(migration.version);
+    appliedByVersion.delete(migration.version);
+    if (!record) {
+      return { version: migration.version, name: migration.name, state: 'pending' };
+    }
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: record.checksum === migration.checksum ? 'applied' : 'modified',
+      appliedAt: record.appliedAt
+    };
+  });
+
+  // Recorded in the database but no longer on disk
+  appliedByVersion.forEach(record => {
+    statuses.push({ version: record._id, name: record.name, state: 'missing', appliedAt: record.appliedAt });
+  });
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+async function withLock<T>(db: Db, options: MigratorOptions, fn: () => Promise<T>): Promise<T> {
+  const locks = db.collection<{ _id: string; owner: string; acquiredAt: Date; expiresAt: Date }>(LOCK_COLLECTION);
+  const owner = `${os.hostname()}:${process.pid}:${crypto.randomUUID()}`;
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + (options.lockTtlMs ?? 10 * 60 * 1000));
+
+  try {
+    await locks.insertOne({ _id: LOCK_ID, owner, acquiredAt: now, expiresAt });
+  } catch (error) {
+    if (!(error instanceof MongoServerError && error.code === 11000)) {
+      throw error;
+    }
+
+    // Take over only a lock whose holder has clearly gone away
+    const takenOver = await locks.findOneAndUpdate(
+      { _id: LOCK_ID, expiresAt: { $lt: now } },
+      { $set: { owner, acquiredAt: now, expiresAt } }
+    );
+    if (!takenOver) {
+      const current = await locks.findOne({ _id: LOCK_ID });
+      throw new MigrationError(
+        `Migrations are locked by ${current?.owner ?? 'another process'} since ${current?.acquiredAt?.toISOString()}`
+      );
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await locks.deleteOne({ _id: LOCK_ID, owner });
+  }
+}
+
+function assertUnchanged(statuses: MigrationStatus[]) {
+  const changed = statuses.filter(status => status.state === 'modified' || status.state === 'missing');
+  if (changed.length > 0) {
+    const list = changed.map(status => `${status.name} (${status.state})`).join(', ');
+    throw new MigrationError(`Applied migrations differ from the files on disk: ${list}`);
+  }
+}
+
+// Applies all pending migrations in version order. Returns the ones applied
+// (or, in dry-run mode, the ones that would be).
+export async function migrateUp(db: Db, options: MigratorOptions = {}): Promise<Migration[]> {
+  const log = options.log ?? console.log;
+  const context: MigrationContext = { db, log };
+
+  const run = async () => {
+    const migrations = await loadMigrations(options.directory);
+    const statuses = await migrationStatus(db, options);
+    assertUnchanged(statuses);
+
+    const pendingVersions = new Set(statuses.filter(s => s.state === 'pending').map(s => s.version));
+    const pending = migrations.filter(migration => pendingVersions.has(migration.version));
+
+    for (const migration of pending) {
+      if (options.dryRun) {
+        log(`🔍 Would apply ${migration.name}: ${migration.description}`);
+        continue;
+      }
+
+      log(`⬆️  Applying ${migration.name}: ${migration.description}`);
+      const startedAt = Date.now();
+      await migration.up(context);
+      await db.collection<AppliedMigration>(MIGRATIONS_COLLECTION).insertOne({
+        _id: migration.version,
+        name: migration.name,
+        checksum: migration.checksum,
+        appliedAt: new Date(),
+        durationMs: Date.now() - startedAt
+      });
+    }
+    return pending;
+  };
+
+  return options.dryRun ? run() : withLock(db, options, run);
+}
+
+// Reverts the most recently applied `steps` migrations, newest first
+export async function migrateDown(db: Db, steps = 1, options: MigratorOptions = {}): Promise<Migration[]> {
+  const log = options.log ?? console.log;
+  const context: MigrationContext = { db, log };
+
+  const run = async () => {
+    const migrations = await loadMigrations(options.directory);
+    const statuses = await migrationStatus(db, options);
+    assertUnchanged(statuses);
+
+    const appliedVersions = statuses.filter(s => s.state === 'applied').map(s => s.version);
+    const toRevert = appliedVersions.slice(-steps).reverse()
+      .map(version => migrations.find(migration => migration.version === version)!);
+
+    for (const migration of toRevert) {
+      if (options.dryRun) {
+        log(`🔍 Would revert ${migration.name}`);
+        continue;
+      }
+
+      log(`⬇️  Reverting ${migration.name}`);
+      await migration.down(context);
+      await db.collection<AppliedMigration>(MIGRATIONS_COLLECTION).deleteOne({ _id: migration.version });
+    }
+    return toRevert;
+  };
+
+  return options.dryRun ? run() : withLock(db, options, run);
+}
@@ -0,0 +1,328 @@
+import crypto from 'crypto';
+import os from 'os';
+import { Db, Document, MongoServerError } from 'mongodb';
+import { getQueryCache } from '../lib/cache';
+
+// Per-genre statistics materialized into movie_stats with $merge, so reads
+// don't aggregate the whole movies collection.
+
+export interface GenreStats {
+  // The genre
+  _id: string;
+  movies: number;
+  ratedMovies: number;
+  avgRating: number | null;
+  totalVotes: number;
+  // Sum of the movies' rentedCount
+  totalRentals: number;
+  rentedMovies: number;
+  lastRented: Date | null;
+  // Newest updatedAt among the genre's movies when it was computed
+  sourceUpdatedAt: Date | null;
+  refreshedAt: Date;
+}
+
+export type RefreshMode = 'full' | 'incremental';
+
+export interface ViewState {
+  _id: string;
+  // Movies updated at or after this are picked up by the next refresh
+  watermark: Date | null;
+  lastRefreshAt: Date;
+  lastFullRefreshAt: Date | null;
+  lastMode: RefreshMode;
+  lastDurationMs: number;
+  lockedBy?: string | null;
+  lockExpiresAt?: Date | null;
+}
+
+export interface RefreshOptions {
+  // Recompute every genre; also drops genres no movie has any more
+  full?: boolean;
+  lockTtlMs?: number;
+}
+
+export interface RefreshResult {
+  mode: RefreshMode;
+  changedMovies: number;
+  genres: number;
+  watermark: Date | null;
+  durationMs: number;
+}
+
+export interface Staleness {
+  refreshedAt: Date | null;
+  ageMs: number | null;
+  // Movies changed since the last refresh
+  pendingChanges: number;
+  stale: boolean;
+}
+
+export type GenreStatsSort = 'movies' | 'rating' | 'rentals' | 'genre';
+
+export interface GenreStatsQuery {
+  genres?: string[];
+  sort?: GenreStatsSort;
+  limit?: number;
+}
+
+export interface SchedulerOptions {
+  intervalMs: number;
+  // How often an incremental run is replaced by a full one
+  fullRefreshEveryMs?: number;
+  onRefresh?(result: RefreshResult): void;
+  onError?(error: unknown): void;
+}
+
+export interface MovieStatsScheduler {
+  // Runs a refresh now, outside the schedule; null if another one holds the lock
+  refreshNow(options?: RefreshOptions): Promise<RefreshResult | null>;
+  // Waits for a running refresh to finish
+  stop(): Promise<void>;
+}
+
+export const MOVIE_STATS_COLLECTION = 'movie_stats';
+export const VIEW_STATE_COLLECTION = 'materialized_views';
+
+const VIEW_ID = MOVIE_STATS_COLLECTION;
+
+// updatedAt comes from the clocks of whichever app servers wrote the movies,
+// so each incremental run looks a little further back than the watermark.
+const WATERMARK_OVERLAP_MS = 60 * 1000;
+
+const SORTS: Record<GenreStatsSort, Document> = {
+  movies: { movies: -1, _id: 1 },
+  rating: { avgRating: -1, _id: 1 },
+  rentals: { totalRentals: -1, _id: 1 },
+  genre: { _id: 1 }
+};
+
+// Recomputes the given genres (all when omitted) and merges them into the
+// view. Every document written carries the same refreshedAt, which is how
+// genres that no longer have movies are found afterwards.
+export function movieStatsPipeline(refreshedAt: Date, genres?: string[]): Document[] {
+  const inGenres = genres ? [{ $match: { genres: { $in: genres } } }] : [];
+  return [
+    ...inGenres,
+    { $unwind: '$genres' },
+    ...inGenres,
+    {
+      $group: {
+        _id: '$genres',
+        movies: { $sum: 1 },
+        ratedMovies: { $sum: { $cond: [{ $isNumber: '$imdb.rating' }, 1, 0] } },
+        avgRating: { $avg: '$imdb.rating' },
+        totalVotes: { $sum: { $cond: [{ $isNumber: '$imdb.votes' }, '$imdb.votes', 0] } },
+        totalRentals: { $sum: { $ifNull: ['$rentedCount', 0] } },
+        rentedMovies: { $sum: { $cond: [{ $gt: ['$rentedCount', 0] }, 1, 0] } },
+        lastRented: { $max: '$lastRented' },
+        sourceUpdatedAt: { $max: '$updatedAt' }
+      }
+    },
+    {
+      $set: {
+        avgRating: { $round: ['$avgRating', 2] },
+        lastRented: { $ifNull: ['$lastRented', null] },
+        sourceUpdatedAt: { $ifNull: ['$sourceUpdatedAt', null] },
+        refreshedAt
+      }
+    },
+    { $merge: { into: MOVIE_STATS_COLLECTION, on: '_id', whenMatched: 'replace', whenNotMatched: 'insert' } }
+  ];
+}
+
+async function acquireLock(db: Db, ttlMs: number) {
+  const states = db.collection<ViewState>(VIEW_STATE_COLLECTION);
+  const owner = `${os.hostname()}:${process.pid}:${crypto.randomUUID()}`;
+  const now = new Date();
+
+  try {
+    const locked = await states.findOneAndUpdate(
+      { _id: VIEW_ID, $or: [{ lockExpiresAt: null }, { lockExpiresAt: { $lt: now } }] },
+      { $set: { lockedBy: owner, lockExpiresAt: new Date(now.getTime() + ttlMs) } },
+      { upsert: true }
+    );
+    return { owner, state: locked };
+  } catch (error) {
+    // The upsert collides with the existing, still locked document
+    if (error instanceof MongoServerError && error.code === 11000) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+interface ChangeSummary {
+  movies: number;
+  // Genres the changed movies are in now
+  genres: string[];
+  watermark: Date | null;
+}
+
+async function changesSince(db: Db, since: Date): Promise<ChangeSummary> {
+  const [changes] = await db.collection('movies').aggregate<ChangeSummary>([
+    { $match: { updatedAt: { $gte: since } } },
+    {
+      $group: {
+        _id: null,
+        movies: { $sum: 1 },
+        genres: { $push: { $ifNull: ['$genres', []] } },
+        watermark: { $max: '$updatedAt' }
+      }
+    },
+    {
+      $project: {
+        movies: 1,
+        watermark: 1,
+        genres: { $reduce: { input: '$genres', initialValue: [], in: { $setUnion: ['$$value', '$$this'] } } }
+      }
+    }
+  ]).toArray();
+  return changes ?? { movies: 0, genres: [], watermark: null };
+}
+
+async function newestUpdate(db: Db) {
+  const [newest] = await db.collection('movies')
+    .find({ updatedAt: { $type: 'date' } }, { projection: { updatedAt: 1 } })
+    .sort({ updatedAt: -1 })
+    .limit(1)
+    .toArray();
+  return (newest?.updatedAt as Date | undefined) ?? null;
+}
+
+// Incremental runs only recompute the genres of movies whose updatedAt moved
+// past the watermark. A movie dropping a genre, or being hard deleted, does
+// not show up that way; full refreshes (and the scheduler's periodic one)
+// catch those. Movies without updatedAt need migration 002 first.
+export async function refreshMovieStats(db: Db, options: RefreshOptions = {}): Promise<RefreshResult | null> {
+  const lock = await acquireLock(db, options.lockTtlMs ?? 10 * 60 * 1000);
+  if (!lock) {
+    return null;
+  }
+
+  const states = db.collection<ViewState>(VIEW_STATE_COLLECTION);
+  const startedAt = new Date();
+  const previousWatermark = lock.state?.lastRefreshAt ? lock.state.watermark : null;
+  const mode: RefreshMode = options.full || !previousWatermark ? 'full' : 'incremental';
+  const stats = db.collection<GenreStats>(MOVIE_STATS_COLLECTION);
+
+  try {
+    let changedMovies: number;
+    let genres: string[] | undefined;
+    let watermark: Date | null;
+
+    if (mode === 'full' || !previousWatermark) {
+      // Read before aggregating so writes made during the run are seen next time
+      watermark = await newestUpdate(db);
+      changedMovies = await db.collection('movies').estimatedDocumentCount();
+    } else {
+      const changes = await changesSince(db, new Date(previousWatermark.getTime() - WATERMARK_OVERLAP_MS));
+      changedMovies = changes.movies;
+      genres = changes.genres;
+      watermark = changes.watermark && changes.watermark > previousWatermark ? changes.watermark : previousWatermark;
+    }
+
+    if (!genres || genres.length) {
+      await db.collection('movies').aggregate(movieStatsPipeline(startedAt, genres)).toArray();
+      await stats.deleteMany({ ...(genres && { _id: { $in: genres } }), refreshedAt: { $ne: startedAt } });
+      await getQueryCache().invalidate(MOVIE_STATS_COLLECTION);
+    }
+
+    const durationMs = Date.now() - startedAt.getTime();
+    await states.updateOne({ _id: VIEW_ID }, {
+      $set: {
+        watermark,
+        lastRefreshAt: startedAt,
+        lastMode: mode,
+        lastDurationMs: durationMs,
+        ...(mode === 'full' ? { lastFullRefreshAt: startedAt } : {})
+      }
+    });
+
+    return { mode, changedMovies, genres: genres?.length ?? await stats.countDocuments(), watermark, durationMs };
+  } finally {
+    await states.updateOne({ _id: VIEW_ID, lockedBy: lock.owner }, { $set: { lockedBy: null, lockExpiresAt: null } });
+  }
+}
+
+export async function getViewState(db: Db) {
+  const state = await db.collection<ViewState>(VIEW_STATE_COLLECTION).findOne({ _id: VIEW_ID });
+  return state?.lastRefreshAt ? state : null;
+}
+
+export async function movieStatsStaleness(db: Db, maxAgeMs = 15 * 60 * 1000): Promise<Staleness> {
+  const state = await getViewState(db);
+  if (!state) {
+    return { refreshedAt: null, ageMs: null, pendingChanges: 0, stale: true };
+  }
+
+  const ageMs = Date.now() - state.lastRefreshAt.getTime();
+  const pendingChanges = state.watermark
+    ? await db.collection('movies').countDocuments({ updatedAt: { $gt: state.watermark } })
+    : 0;
+  return { refreshedAt: state.lastRefreshAt, ageMs, pendingChanges, stale: ageMs > maxAgeMs || pendingChanges > 0 };
+}
+
+// Reads only the view; never falls back to aggregating movies
+export async function getGenreStats(db: Db, query: GenreStatsQuery = {}) {
+  const { genres, sort = 'movies', limit = 50 } = query;
+  // Only the stats are cached; staleness is always current
+  const [stats, staleness] = await Promise.all([
+    getQueryCache().wrap([MOVIE_STATS_COLLECTION], { genres, sort, limit }, () => db.collection<GenreStats>(MOVIE_STATS_COLLECTION)
+      .find(genres?.length ? { _id: { $in: genres } } : {})
+      .sort(SORTS[sort])
+      .limit(limit)
+      .toArray()),
+    movieStatsStaleness(db)
+  ]);
+  return { genres: stats, staleness };
+}
+
+// Refreshes on a fixed interval; runs never overlap within a process and
+// the lock keeps other processes from running one at the same time.
+export function scheduleMovieStatsRefresh(db: Db, options: SchedulerOptions): MovieStatsScheduler {
+  const fullRefreshEveryMs = options.fullRefreshEveryMs ?? 24 * 60 * 60 * 1000;
+  const onError = options.onError ?? (error => console.error('❌ movie_stats refresh failed:', error));
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<RefreshResult | null> | undefined;
+  let stopped = false;
+
+  const refresh = (refreshOptions: RefreshOptions) => {
+    running ??= refreshMovieStats(db, refreshOptions).then(result => {
+      if (result) {
+        options.onRefresh?.(result);
+      }
+      return result;
+    }).finally(() => {
+      running = undefined;
+    });
+    return running;
+  };
+
+  const tick = async () => {
+    try {
+      const state = await getViewState(db);
+      const lastFull = state?.lastFullRefreshAt?.getTime() ?? 0;
+      await refresh({ full: Date.now() - lastFull >= fullRefreshEveryMs });
+    } catch (error) {
+      onError(error);
+    }
+    if (!stopped) {
+      timer = setTimeout(tick, options.intervalMs);
+      // Never the reason the process stays up
+      timer.unref();
+    }
+  };
+
+  timer = setTimeout(tick, 0);
+  timer.unref();
+
+  return {
+    refreshNow: refresh,
+    async stop() {
+      stopped = true;
+      clearTimeout(timer);
+      await running?.catch(() => undefined);
+    }
+  };
+}
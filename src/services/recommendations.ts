@@ -0,0 +1,315 @@
+import { PipelineStage, Types } from 'mongoose';
+import { getQueryCache } from '../lib/cache';
+import { IMovieBasicInfo, Movie } from '../models/Movie';
+import { Rental } from '../models/Rental';
+import { Review } from '../models/Review';
+
+// Suggests titles from what a user rented and how they rated it, mixing
+// "people who rented X also rented Y" with content similarity (shared
+// directors, cast and genres). Users without history, and lists that come
+// up short, are filled with top-rated titles.
+
+export type RecommendationReason =
+  | { type: 'co-rented'; because: string[]; renters: number }
+  | { type: 'similar'; because: string; directors: string[]; cast: string[]; genres: string[] }
+  | { type: 'top-rated'; genre: string | null };
+
+export interface Recommendation {
+  movie: IMovieBasicInfo;
+  score: number;
+  reasons: RecommendationReason[];
+  // The strongest reason, for display
+  explanation: string;
+}
+
+type Id = string | Types.ObjectId;
+
+export const recommendationPolicy = {
+  // Most liked titles the profile is built from
+  seedLimit: 20,
+  // Candidates considered from each source before scoring
+  candidateLimit: 200,
+  weights: { coRental: 0.5, content: 0.4, rating: 0.1 },
+  // How much one shared person or genre counts towards similarity
+  featureWeights: { directors: 3, cast: 2, genres: 1 },
+  minFallbackRating: 7,
+  // Top-rated lists are cached in pools of this size, shared by every user
+  fallbackPoolSize: 50
+};
+
+type Feature = keyof typeof recommendationPolicy.featureWeights;
+
+const FEATURES: Feature[] = ['directors', 'cast', 'genres'];
+
+interface SeedMovie {
+  _id: Types.ObjectId;
+  title: string;
+  weight: number;
+  directors?: string[];
+  cast?: string[];
+  genres?: string[];
+}
+
+interface CandidateMovie {
+  _id: Types.ObjectId;
+  title: string;
+  directors?: string[];
+  cast?: string[];
+  genres?: string[];
+  imdb?: { rating?: number };
+}
+
+interface CoRental {
+  _id: Types.ObjectId;
+  renters: number;
+  because: Types.ObjectId[];
+}
+
+// Renting counts as liking; a review moves that by its stars, so a title
+// rated one or two stars is never used as a seed.
+async function historyOf(userId: Types.ObjectId) {
+  const [rentals, reviews] = await Promise.all([
+    Rental.find({ user: userId }, { movie: 1, rentedAt: 1 }).lean(),
+    Review.find({ user: userId }, { movie: 1, stars: 1 }).lean()
+  ]);
+
+  const weights = new Map<string, { movie: Types.ObjectId; weight: number; at: number }>();
+  for (const rental of rentals) {
+    const entry = weights.get(String(rental.movie)) ?? { movie: rental.movie, weight: 0, at: 0 };
+    entry.weight = 1;
+    entry.at = Math.max(entry.at, rental.rentedAt.getTime());
+    weights.set(String(rental.movie), entry);
+  }
+  for (const review of reviews) {
+    const entry = weights.get(String(review.movie)) ?? { movie: review.movie, weight: 0, at: 0 };
+    entry.weight += review.stars - 3;
+    weights.set(String(review.movie), entry);
+  }
+
+  const seen = [...weights.values()].map(entry => entry.movie);
+  const liked = [...weights.values()]
+    .filter(entry => entry.weight > 0)
+    .sort((a, b) => b.weight - a.weight || b.at - a.at)
+    .slice(0, recommendationPolicy.seedLimit);
+  return { seen, liked };
+}
+
+// Other users who rented any of the seeds, and what else they rented
+export function coRentalPipeline(userId: Types.ObjectId, seeds: Types.ObjectId[], exclude: Types.ObjectId[]): PipelineStage[] {
+  return [
+    { $match: { movie: { $in: seeds }, user: { $ne: userId } } },
+    { $group: { _id: '$user', seeds: { $addToSet: '$movie' } } },
+    {
+      $lookup: {
+        from: Rental.collection.collectionName,
+        localField: '_id',
+        foreignField: 'user',
+        as: 'rented',
+        pipeline: [{ $match: { movie: { $nin: exclude } } }, { $project: { _id: 0, movie: 1 } }]
+      }
+    },
+    { $unwind: '$rented' },
+    // Renting the same title twice is still one renter
+    { $group: { _id: { movie: '$rented.movie', user: '$_id' }, seeds: { $first: '$seeds' } } },
+    {
+      $group: {
+        _id: '$_id.movie',
+        renters: { $sum: 1 },
+        because: { $push: '$seeds' }
+      }
+    },
+    {
+      $set: {
+        because: { $reduce: { input: '$because', initialValue: [], in: { $setUnion: ['$$value', '$$this'] } } }
+      }
+    },
+    { $sort: { renters: -1, _id: 1 } },
+    { $limit: recommendationPolicy.candidateLimit }
+  ];
+}
+
+// Unseen movies sharing anything with the seeds, most overlap first; the
+// exact weighted score is worked out afterwards
+export function similarMoviesPipeline(profile: Record<Feature, string[]>, exclude: Types.ObjectId[]): PipelineStage[] {
+  const shared = (feature: Feature) => ({
+    $size: { $setIntersection: [{ $ifNull: [`$${feature}`, []] }, profile[feature]] }
+  });
+  const { featureWeights } = recommendationPolicy;
+
+  return [
+    {
+      $match: {
+        _id: { $nin: exclude },
+        $or: FEATURES.filter(feature => profile[feature].length).map(feature => ({ [feature]: { $in: profile[feature] } }))
+      }
+    },
+    {
+      $set: {
+        overlap: {
+          $add: FEATURES.map(feature => ({ $multiply: [shared(feature), featureWeights[feature]] }))
+        }
+      }
+    },
+    { $sort: { overlap: -1, 'imdb.rating': -1, _id: 1 } },
+    { $limit: recommendationPolicy.candidateLimit },
+    { $project: { title: 1, directors: 1, cast: 1, genres: 1, 'imdb.rating': 1 } }
+  ];
+}
+
+function intersect(values: string[] | undefined, other: string[] | undefined) {
+  const set = new Set(other ?? []);
+  return (values ?? []).filter(value => set.has(value));
+}
+
+// The seed a candidate has most in common with, and what they share
+function closestSeed(candidate: CandidateMovie, seeds: SeedMovie[]) {
+  let best: { seed: SeedMovie; score: number; shared: Record<Feature, string[]> } | undefined;
+  for (const seed of seeds) {
+    const shared = {
+      directors: intersect(candidate.directors, seed.directors),
+      cast: intersect(candidate.cast, seed.cast),
+      genres: intersect(candidate.genres, seed.genres)
+    };
+    const score = seed.weight * FEATURES.reduce(
+      (sum, feature) => sum + shared[feature].length * recommendationPolicy.featureWeights[feature], 0);
+    if (score > 0 && (!best || score > best.score)) {
+      best = { seed, score, shared };
+    }
+  }
+  return best;
+}
+
+function explain(reason: RecommendationReason) {
+  switch (reason.type) {
+    case 'co-rented':
+      return `Because you watched ${reason.because.slice(0, 2).join(' and ')}: `
+        + `${reason.renters} other renter(s) also rented this`;
+    case 'similar': {
+      const detail = reason.directors.length
+        ? `also directed by ${reason.directors.join(', ')}`
+        : reason.cast.length
+          ? `also starring ${reason.cast.slice(0, 2).join(', ')}`
+          : `also ${reason.genres.join(', ')}`;
+      return `Because you watched ${reason.because}: ${detail}`;
+    }
+    case 'top-rated':
+      return reason.genre ? `Top rated in ${reason.genre}` : 'Top rated overall';
+  }
+}
+
+// Top-rated titles, from the user's favourite genre first when there is one.
+// The lists leave out nothing, so every user shares the same cached ones;
+// a pool big enough to skip all excluded titles is read and then filtered.
+async function fallback(limit: number, exclude: Types.ObjectId[], genre: string | null) {
+  const { minFallbackRating, fallbackPoolSize } = recommendationPolicy;
+  const topRated = async (query: ReturnType<typeof Movie.findHighRated>, count: number, skip: Types.ObjectId[]) => {
+    const skipped = new Set(skip.map(String));
+    const pool = Math.ceil((count + skip.length) / fallbackPoolSize) * fallbackPoolSize;
+    const movies = await getQueryCache().query(query.sort({ 'imdb.rating': -1, 'imdb.votes': -1, _id: 1 }).limit(pool));
+    return movies.filter(movie => !skipped.has(String(movie._id))).slice(0, count);
+  };
+
+  const inGenre = genre ? await topRated(Movie.findByGenre(genre).where('imdb.rating').gte(minFallbackRating), limit, exclude) : [];
+  const overall = inGenre.length < limit
+    ? await topRated(Movie.findHighRated(minFallbackRating), limit - inGenre.length, [...exclude, ...inGenre.map(movie => movie._id)])
+    : [];
+
+  return [
+    ...inGenre.map(movie => ({ movie, genre })),
+    ...overall.map(movie => ({ movie, genre: null }))
+  ].map(({ movie, genre }) => ({
+    movie: movie.getBasicInfo(),
+    score: 0,
+    reasons: [{ type: 'top-rated', genre } as RecommendationReason]
+  }));
+}
+
+export async function getRecommendations(userId: Id, limit = 10): Promise<Recommendation[]> {
+  const user = new Types.ObjectId(String(userId));
+  const { seen, liked } = await historyOf(user);
+
+  const seeds: SeedMovie[] = liked.length
+    ? (await Movie.find({ _id: { $in: liked.map(entry => entry.movie) } }, { title: 1, directors: 1, cast: 1, genres: 1 }).lean())
+      .map(movie => ({ ...movie, weight: liked.find(entry => entry.movie.equals(movie._id))!.weight }))
+    : [];
+
+  // Feature weights summed over the seeds, e.g. cast "Al Pacino" -> 5
+  const profileWeights = new Map<string, number>();
+  for (const seed of seeds) {
+    for (const feature of FEATURES) {
+      for (const value of seed[feature] ?? []) {
+        const key = `${feature}:${value}`;
+        profileWeights.set(key, (profileWeights.get(key) ?? 0) + seed.weight * recommendationPolicy.featureWeights[feature]);
+      }
+    }
+  }
+  const profile = Object.fromEntries(FEATURES.map(feature => [feature, seeds.flatMap(seed => seed[feature] ?? [])
+    .filter((value, i, all) => all.indexOf(value) === i)])) as Record<Feature, string[]>;
+  const favouriteGenre = profile.genres
+    .map(genre => ({ genre, weight: profileWeights.get(`genres:${genre}`) ?? 0 }))
+    .sort((a, b) => b.weight - a.weight || a.genre.localeCompare(b.genre))[0]?.genre ?? null;
+
+  // Seeds without directors, cast or genres leave nothing to match on, and
+  // an empty $or is an error
+  const hasProfile = FEATURES.some(feature => profile[feature].length);
+  const [coRentals, similar] = seeds.length
+    ? await Promise.all([
+      Rental.aggregate<CoRental>(coRentalPipeline(user, seeds.map(seed => seed._id), seen)),
+      hasProfile ? Movie.aggregate<CandidateMovie>(similarMoviesPipeline(profile, seen)) : Promise.resolve([])
+    ])
+    : [[], []];
+
+  // Co-rented titles not found by similarity still need their details
+  const similarIds = new Set(similar.map(movie => String(movie._id)));
+  const missing = coRentals.filter(entry => !similarIds.has(String(entry._id))).map(entry => entry._id);
+  const candidates = [
+    ...similar,
+    ...(missing.length
+      ? await Movie.find({ _id: { $in: missing } }, { title: 1, directors: 1, cast: 1, genres: 1, 'imdb.rating': 1 }).lean()
+      : [])
+  ];
+
+  const seedTitles = new Map(seeds.map(seed => [String(seed._id), seed.title]));
+  const coRentalsById = new Map(coRentals.map(entry => [String(entry._id), entry]));
+  const maxRenters = Math.max(1, ...coRentals.map(entry => entry.renters));
+  const contentScores = new Map(candidates.map(movie => [String(movie._id), FEATURES.reduce((sum, feature) =>
+    sum + (movie[feature] ?? []).reduce((total, value) => total + (profileWeights.get(`${feature}:${value}`) ?? 0), 0), 0)]));
+  const maxContent = Math.max(1, ...contentScores.values());
+  const { weights } = recommendationPolicy;
+
+  const scored = candidates.map(movie => {
+    const reasons: RecommendationReason[] = [];
+    const coRental = coRentalsById.get(String(movie._id));
+    if (coRental) {
+      reasons.push({
+        type: 'co-rented',
+        because: coRental.because.map(id => seedTitles.get(String(id))).filter(Boolean) as string[],
+        renters: coRental.renters
+      });
+    }
+    const closest = closestSeed(movie, seeds);
+    if (closest) {
+      reasons.push({ type: 'similar', because: closest.seed.title, ...closest.shared });
+    }
+
+    const score = weights.coRental * (coRental?.renters ?? 0) / maxRenters
+      + weights.content * (contentScores.get(String(movie._id)) ?? 0) / maxContent
+      + weights.rating * (movie.imdb?.rating ?? 0) / 10;
+    return { id: movie._id, score: Math.round(score * 1000) / 1000, reasons };
+  });
+
+  scored.sort((a, b) => b.score - a.score || String(a.id).localeCompare(String(b.id)));
+  const top = scored.slice(0, limit);
+  const movies = top.length ? await Movie.find({ _id: { $in: top.map(entry => entry.id) } }) : [];
+  const byId = new Map(movies.map(movie => [String(movie._id), movie]));
+
+  const recommendations = top
+    .filter(entry => byId.has(String(entry.id)))
+    .map(entry => ({ movie: byId.get(String(entry.id))!.getBasicInfo(), score: entry.score, reasons: entry.reasons }));
+
+  if (recommendations.length < limit) {
+    const exclude = [...seen, ...top.map(entry => entry.id)];
+    recommendations.push(...await fallback(limit - recommendations.length, exclude, favouriteGenre));
+  }
+  return recommendations.map(recommendation => ({ ...recommendation, explanation: explain(recommendation.reasons[0]) }));
+}
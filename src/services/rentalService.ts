@@ -0,0 +1,132 @@
+import { Types } from 'mongoose';
+import { Rental, RentalDocument } from '../models/Rental';
+import { Movie } from '../models/Movie';
+import { User } from '../models/User';
+import { runInTransaction } from '../lib/transaction';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const rentalPolicy = {
+  loanDays: 7,
+  extensionDays: 7,
+  maxExtensions: 2,
+  maxActiveRentalsPerUser: 5,
+  lateFeeCentsPerDay: 150
+};
+
+export type RentalErrorCode =
+  | 'USER_NOT_FOUND'
+  | 'MOVIE_NOT_FOUND'
+  | 'RENTAL_NOT_FOUND'
+  | 'NO_COPIES_AVAILABLE'
+  | 'RENTAL_LIMIT_REACHED'
+  | 'RENTAL_NOT_ACTIVE'
+  | 'RENTAL_OVERDUE'
+  | 'EXTENSION_LIMIT_REACHED';
+
+export class RentalError extends Error {
+  constructor(public code: RentalErrorCode, message: string) {
+    super(message);
+    this.name = 'RentalError';
+  }
+}
+
+type Id = string | Types.ObjectId;
+
+// Charged per started day past the due date
+export function calculateLateFee(dueDate: Date, returnedAt: Date) {
+  const lateMs = returnedAt.getTime() - dueDate.getTime();
+  if (lateMs <= 0) {
+    return 0;
+  }
+  return Math.ceil(lateMs / DAY_MS) * rentalPolicy.lateFeeCentsPerDay;
+}
+
+export async function rentMovie(userId: Id, movieId: Id): Promise<RentalDocument> {
+  return runInTransaction(async session => {
+    const user = await User.findById(userId, null, { session });
+    if (!user) {
+      throw new RentalError('USER_NOT_FOUND', `User ${userId} not found`);
+    }
+
+    const movie = await Movie.findById(movieId, null, { session });
+    if (!movie) {
+      throw new RentalError('MOVIE_NOT_FOUND', `Movie ${movieId} not found`);
+    }
+
+    const activeForUser = await Rental.countDocuments({ user: user._id, status: 'active' }).session(session);
+    if (activeForUser >= rentalPolicy.maxActiveRentalsPerUser) {
+      throw new RentalError(
+        'RENTAL_LIMIT_REACHED',
+        `User already has ${activeForUser} active rentals (max ${rentalPolicy.maxActiveRentalsPerUser})`
+      );
+    }
+
+    const activeForMovie = await Rental.countDocuments({ movie: movie._id, status: 'active' }).session(session);
+    if (activeForMovie >= (movie.copies ?? 0)) {
+      throw new RentalError('NO_COPIES_AVAILABLE', `All copies of "${movie.title}" are rented out`);
+    }
+
+    // Writing both the movie and the user document makes concurrent rentals
+    // of the same title or by the same user conflict, so one of them retries
+    // and re-checks the limits above instead of both slipping through.
+    await movie.rent(session);
+    await User.updateOne({ _id: user._id }, { $set: { updatedAt: new Date() } }, { session });
+
+    const rentedAt = new Date();
+    const [rental] = await Rental.create([{
+      user: user._id,
+      movie: movie._id,
+      rentedAt,
+      dueDate: new Date(rentedAt.getTime() + rentalPolicy.loanDays * DAY_MS)
+    }], { session });
+
+    return rental;
+  }, { label: 'rentMovie' });
+}
+
+export async function returnMovie(rentalId: Id, returnedAt = new Date()): Promise<RentalDocument> {
+  return runInTransaction(async session => {
+    const rental = await Rental.findById(rentalId, null, { session });
+    if (!rental) {
+      throw new RentalError('RENTAL_NOT_FOUND', `Rental ${rentalId} not found`);
+    }
+    if (rental.status !== 'active') {
+      throw new RentalError('RENTAL_NOT_ACTIVE', `Rental ${rentalId} was already returned`);
+    }
+
+    rental.status = 'returned';
+    rental.returnedAt = returnedAt;
+    rental.lateFeeCents = calculateLateFee(rental.dueDate, returnedAt);
+    await rental.save({ session });
+
+    return rental;
+  }, { label: 'returnMovie' });
+}
+
+export async function extendRental(rentalId: Id, days = rentalPolicy.extensionDays): Promise<RentalDocument> {
+  return runInTransaction(async session => {
+    const rental = await Rental.findById(rentalId, null, { session });
+    if (!rental) {
+      throw new RentalError('RENTAL_NOT_FOUND', `Rental ${rentalId} not found`);
+    }
+    if (rental.status !== 'active') {
+      throw new RentalError('RENTAL_NOT_ACTIVE', `Rental ${rentalId} was already returned`);
+    }
+    if (rental.isOverdue()) {
+      throw new RentalError('RENTAL_OVERDUE', 'Overdue rentals must be returned before they can be extended');
+    }
+    if (rental.extensions >= rentalPolicy.maxExtensions) {
+      throw new RentalError(
+        'EXTENSION_LIMIT_REACHED',
+        `Rental was already extended ${rental.extensions} times (max ${rentalPolicy.maxExtensions})`
+      );
+    }
+
+    rental.dueDate = new Date(rental.dueDate.getTime() + days * DAY_MS);
+    rental.extensions += 1;
+    await rental.save({ session });
+
+    return rental;
+  }, { label: 'extendRental' });
+}
@@ -0,0 +1,178 @@
+import { ClientSession, Types } from 'mongoose';
+import { Movie } from '../models/Movie';
+import { IReview, Review } from '../models/Review';
+import { User } from '../models/User';
+import { Page, paginateModel, SortSpec } from '../lib/pagination';
+import { runInTransaction } from '../lib/transaction';
+
+export type ReviewErrorCode = 'USER_NOT_FOUND' | 'MOVIE_NOT_FOUND' | 'REVIEW_NOT_FOUND' | 'ALREADY_REVIEWED';
+
+export class ReviewError extends Error {
+  constructor(public code: ReviewErrorCode, message: string) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+export type ReviewSort = 'helpful' | 'newest' | 'highest' | 'lowest';
+
+export interface ReviewInput {
+  stars: number;
+  text?: string;
+}
+
+export interface ReviewListOptions {
+  sort?: ReviewSort;
+  limit?: number;
+  cursor?: string;
+}
+
+type Id = string | Types.ObjectId;
+
+export const REVIEW_SORTS: Record<ReviewSort, SortSpec> = {
+  helpful: [['helpfulVotes', -1], ['createdAt', -1]],
+  newest: [['createdAt', -1]],
+  highest: [['stars', -1], ['createdAt', -1]],
+  lowest: [['stars', 1], ['createdAt', -1]]
+};
+
+// Own keys only, as for hasReport: `in` would accept 'constructor'
+export function hasReviewSort(sort: string): sort is ReviewSort {
+  return Object.prototype.hasOwnProperty.call(REVIEW_SORTS, sort);
+}
+
+// Applies a change in review count and star total to the movie and
+// recomputes the average from the stored totals in the same update, so
+// concurrent reviews never read a stale average.
+async function adjustMovieRating(movieId: Types.ObjectId, count: number, stars: number, session: ClientSession) {
+  const newCount = { $add: [{ $ifNull: ['$userRating.count', 0] }, count] };
+  const newTotal = { $add: [{ $ifNull: ['$userRating.total', 0] }, stars] };
+  await Movie.updateOne({ _id: movieId }, [
+    { $set: { 'userRating.count': newCount, 'userRating.total': newTotal } },
+    {
+      $set: {
+        'userRating.average': {
+          $cond: [{ $gt: ['$userRating.count', 0] }, { $round: [{ $divide: ['$userRating.total', '$userRating.count'] }, 2] }, null]
+        }
+      }
+    }
+  ], { session });
+}
+
+export async function createReview(userId: Id, movieId: Id, input: ReviewInput): Promise<IReview> {
+  try {
+    return await runInTransaction(async session => {
+      const user = await User.findById(userId, { _id: 1 }, { session });
+      if (!user) {
+        throw new ReviewError('USER_NOT_FOUND', `User ${userId} not found`);
+      }
+      const movie = await Movie.findById(movieId, { _id: 1 }, { session });
+      if (!movie) {
+        throw new ReviewError('MOVIE_NOT_FOUND', `Movie ${movieId} not found`);
+      }
+
+      const [review] = await Review.create([{
+        user: user._id,
+        movie: movie._id,
+        stars: input.stars,
+        text: input.text
+      }], { session });
+      await adjustMovieRating(movie._id, 1, review.stars, session);
+      return review;
+    }, { label: 'createReview' });
+  } catch (error) {
+    // The unique { movie, user } index is what actually enforces it
+    if ((error as { code?: number }).code === 11000) {
+      throw new ReviewError('ALREADY_REVIEWED', 'You have already reviewed this movie; edit that review instead');
+    }
+    throw error;
+  }
+}
+
+export async function updateReview(reviewId: Id, changes: Partial<ReviewInput>): Promise<IReview> {
+  return runInTransaction(async session => {
+    const review = await Review.findById(reviewId, null, { session });
+    if (!review) {
+      throw new ReviewError('REVIEW_NOT_FOUND', `Review ${reviewId} not found`);
+    }
+
+    const previousStars = review.stars;
+    if (changes.stars !== undefined) {
+      review.stars = changes.stars;
+    }
+    if (changes.text !== undefined) {
+      review.text = changes.text;
+    }
+    await review.save({ session });
+
+    if (review.stars !== previousStars) {
+      await adjustMovieRating(review.movie, 0, review.stars - previousStars, session);
+    }
+    return review;
+  }, { label: 'updateReview' });
+}
+
+export async function deleteReview(reviewId: Id): Promise<void> {
+  await runInTransaction(async session => {
+    const review = await Review.findOneAndDelete({ _id: reviewId }, { session });
+    if (!review) {
+      throw new ReviewError('REVIEW_NOT_FOUND', `Review ${reviewId} not found`);
+    }
+    await adjustMovieRating(review.movie, -1, -review.stars, session);
+  }, { label: 'deleteReview' });
+}
+
+// Votes on other people's reviews count once per voter; returns whether
+// the vote changed anything.
+export async function voteHelpful(reviewId: Id, voterId: Id, helpful = true): Promise<boolean> {
+  const voter = new Types.ObjectId(String(voterId));
+  const result = helpful
+    ? await Review.updateOne(
+      { _id: reviewId, user: { $ne: voter }, helpfulVoters: { $ne: voter } },
+      { $addToSet: { helpfulVoters: voter }, $inc: { helpfulVotes: 1 } }
+    )
+    : await Review.updateOne(
+      { _id: reviewId, helpfulVoters: voter },
+      { $pull: { helpfulVoters: voter }, $inc: { helpfulVotes: -1 } }
+    );
+
+  if (result.matchedCount === 0 && !(await Review.exists({ _id: reviewId }))) {
+    throw new ReviewError('REVIEW_NOT_FOUND', `Review ${reviewId} not found`);
+  }
+  return result.modifiedCount === 1;
+}
+
+export async function listReviews(movieId: Id, options: ReviewListOptions = {}): Promise<Page<IReview>> {
+  const page = await paginateModel(Review, { movie: movieId }, {
+    sort: REVIEW_SORTS[options.sort ?? 'helpful'],
+    limit: options.limit,
+    cursor: options.cursor
+  });
+  // Reviews of deleted accounts keep counting but show no author
+  await Review.populate(page.items, { path: 'user', select: 'name' });
+  return page;
+}
+
+// Rebuilds every movie's userRating from the reviews, for when the
+// denormalized values are suspected to have drifted (e.g. after a restore
+// of only one of the two collections). Returns the number of movies fixed.
+export async function recalculateUserRatings(): Promise<number> {
+  const totals = await Review.aggregate<{ _id: Types.ObjectId; count: number; total: number }>([
+    { $group: { _id: '$movie', count: { $sum: 1 }, total: { $sum: '$stars' } } }
+  ]);
+
+  const updates = totals.map(({ _id, count, total }) => ({
+    updateOne: {
+      filter: { _id, $or: [{ 'userRating.count': { $ne: count } }, { 'userRating.total': { $ne: total } }] },
+      update: { $set: { userRating: { count, total, average: Math.round(total / count * 100) / 100 } } }
+    }
+  }));
+  const reviewed = totals.map(({ _id }) => _id);
+  const fixed = updates.length ? (await Movie.bulkWrite(updates)).modifiedCount : 0;
+
+  const reset = await Movie.updateMany(
+    { _id: { $nin: reviewed }, 'userRating.count': { $gt: 0 } },
+    { $set: { userRating: { count: 0, total: 0, average: null } } }
+  );
+  return fixed + reset.modifiedCount;
+}
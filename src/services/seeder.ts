@@ -0,0 +1,258 @@
+import { Types } from 'mongoose';
+import { getQueryCache } from '../lib/cache';
+import { createRandom, Random } from '../lib/random';
+import { hashPassword } from '../lib/password';
+import { IUserData, User, UserRole } from '../models/User';
+import { IMovieData, Movie } from '../models/Movie';
+import { IRentalData, Rental } from '../models/Rental';
+import { IReviewData, Review } from '../models/Review';
+import { calculateLateFee, rentalPolicy } from './rentalService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SeedOptions {
+  // Same seed and `now`, same data
+  seed?: number | string;
+  users?: number;
+  movies?: number;
+  maxRentalsPerUser?: number;
+  // Share of returned rentals that get a review
+  reviewChance?: number;
+  // Rental and review dates are counted back from here
+  now?: Date;
+}
+
+export interface SampleData {
+  users: IUserData[];
+  movies: IMovieData[];
+  rentals: IRentalData[];
+  reviews: IReviewData[];
+}
+
+export type SeedCounts = Record<keyof SampleData, number>;
+
+export type SeedErrorCode = 'NOT_EMPTY';
+
+export class SeedError extends Error {
+  constructor(public code: SeedErrorCode, message: string) {
+    super(message);
+    this.name = 'SeedError';
+  }
+}
+
+export const seedDefaults = {
+  seed: 'sample_mflix',
+  users: 50,
+  movies: 200,
+  maxRentalsPerUser: 8,
+  reviewChance: 0.4
+};
+
+// Every generated user logs in with this password
+export const SEED_PASSWORD = 'seeded-password';
+
+const FIRST_NAMES = [
+  'Ada', 'Alan', 'Ava', 'Ben', 'Carla', 'Dmitri', 'Elena', 'Farah', 'Grace', 'Hugo', 'Ines', 'Jamal',
+  'Kenji', 'Lena', 'Marco', 'Nadia', 'Omar', 'Priya', 'Quinn', 'Rosa', 'Sven', 'Tara', 'Uma', 'Victor',
+  'Wen', 'Ximena', 'Yusuf', 'Zoe'
+];
+const LAST_NAMES = [
+  'Abbott', 'Becker', 'Castro', 'Dubois', 'Eriksen', 'Fischer', 'Garcia', 'Haddad', 'Ivanova', 'Jensen',
+  'Kowalski', 'Larsen', 'Moreau', 'Nakamura', 'Okafor', 'Petrov', 'Quispe', 'Rossi', 'Santos', 'Tanaka',
+  'Ueda', 'Varga', 'Walsh', 'Yilmaz', 'Zimmermann'
+];
+const TITLE_ADJECTIVES = [
+  'Silent', 'Crimson', 'Last', 'Hidden', 'Broken', 'Golden', 'Distant', 'Midnight', 'Frozen', 'Wild',
+  'Electric', 'Forgotten', 'Burning', 'Hollow', 'Restless'
+];
+const TITLE_NOUNS = [
+  'Harbor', 'Kingdom', 'Signal', 'Orchard', 'Frontier', 'Letter', 'Engine', 'Garden', 'Horizon', 'Witness',
+  'Lighthouse', 'Carnival', 'Empire', 'Voyage', 'Echo'
+];
+const PLOT_SUBJECTS = ['A retired detective', 'Two estranged sisters', 'A young pilot', 'A small-town mayor', 'An exiled prince', 'A jazz pianist'];
+const PLOT_VERBS = ['uncovers', 'must protect', 'races to find', 'is haunted by', 'falls for', 'bets everything on'];
+const PLOT_OBJECTS = ['a secret that could ruin the family', 'the last map of a vanished city', 'a stranger with no past', 'an impossible heist', 'a promise made long ago'];
+const GENRES = ['Action', 'Adventure', 'Comedy', 'Crime', 'Drama', 'Family', 'Fantasy', 'History', 'Horror', 'Mystery', 'Romance', 'Sci-Fi', 'Thriller', 'Western'];
+const RATINGS = ['G', 'PG', 'PG-13', 'R', 'NC-17', 'UNRATED', 'NOT RATED'];
+const REVIEW_LINES: Record<number, string[]> = {
+  1: ['Could not finish it.', 'Two hours I will not get back.'],
+  2: ['A few good scenes, not much else.', 'The trailer was better.'],
+  3: ['Fine for a quiet evening.', 'Solid, if forgettable.'],
+  4: ['Really enjoyed this one.', 'Great cast, great pacing.'],
+  5: ['An instant favourite.', 'Watch it on the biggest screen you can find.']
+};
+
+export const personName = (random: Random) => `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`;
+
+function generateUsers(random: Random, count: number): IUserData[] {
+  return Array.from({ length: count }, (_, i) => {
+    const name = personName(random);
+    const role: UserRole = i === 0 ? 'admin' : random.chance(0.1) ? 'staff' : 'customer';
+    return {
+      _id: random.objectId(),
+      name,
+      // The index keeps emails unique even when names repeat
+      email: `${name.toLowerCase().replace(' ', '.')}.${i + 1}@example.com`,
+      password: SEED_PASSWORD,
+      role
+    };
+  });
+}
+
+function generateMovies(random: Random, count: number, now: Date): IMovieData[] {
+  return Array.from({ length: count }, (_, i) => ({
+    _id: random.objectId(),
+    title: `The ${random.pick(TITLE_ADJECTIVES)} ${random.pick(TITLE_NOUNS)}`,
+    year: random.int(1920, now.getUTCFullYear()),
+    genres: random.sample(GENRES, random.int(1, 3)),
+    directors: Array.from({ length: random.int(1, 2) }, () => personName(random)),
+    cast: Array.from({ length: random.int(3, 6) }, () => personName(random)),
+    plot: `${random.pick(PLOT_SUBJECTS)} ${random.pick(PLOT_VERBS)} ${random.pick(PLOT_OBJECTS)}.`,
+    runtime: random.int(75, 180),
+    rated: random.pick(RATINGS),
+    imdb: {
+      rating: random.int(20, 95) / 10,
+      votes: random.int(100, 500000),
+      id: `tt9${String(i + 1).padStart(6, '0')}`
+    },
+    tomatoes: {
+      viewer: { rating: random.int(10, 50) / 10, numReviews: random.int(10, 5000) },
+      critic: { rating: random.int(20, 100) / 10, numReviews: random.int(5, 300) }
+    },
+    copies: random.int(1, 5),
+    rentedCount: 0,
+    userRating: { average: null, count: 0, total: 0 }
+  }));
+}
+
+// Rental history that the rental service could have produced: distinct
+// movies per user, active rentals within the per-user cap and the copies
+// on hand, and late fees charged by the current policy.
+function generateRentals(random: Random, users: IUserData[], movies: IMovieData[], options: Required<SeedOptions>): IRentalData[] {
+  const now = options.now.getTime();
+  const activePerMovie = new Map<Types.ObjectId, number>();
+  const rentals: IRentalData[] = [];
+
+  for (const user of users) {
+    let activeForUser = 0;
+    for (const movie of random.sample(movies, random.int(0, options.maxRentalsPerUser))) {
+      const activeForMovie = activePerMovie.get(movie._id) ?? 0;
+      const active = random.chance(0.2)
+        && activeForUser < rentalPolicy.maxActiveRentalsPerUser
+        && activeForMovie < (movie.copies ?? 0);
+      const extensions = random.int(0, rentalPolicy.maxExtensions);
+      const loanDays = rentalPolicy.loanDays + extensions * rentalPolicy.extensionDays;
+
+      // Active rentals are recent, some of them overdue; returned ones old
+      // enough to have come back
+      const rentedAt = new Date(now - (active ? random.int(0, loanDays + 5) : random.int(loanDays + 10, 365)) * DAY_MS);
+      const dueDate = new Date(rentedAt.getTime() + loanDays * DAY_MS);
+      const rental: IRentalData = {
+        _id: random.objectId(),
+        user: user._id,
+        movie: movie._id,
+        rentedAt,
+        dueDate,
+        status: active ? 'active' : 'returned',
+        extensions,
+        lateFeeCents: 0
+      };
+      if (active) {
+        activeForUser++;
+        activePerMovie.set(movie._id, activeForMovie + 1);
+      } else {
+        rental.returnedAt = new Date(rentedAt.getTime() + random.int(1, loanDays + 3) * DAY_MS);
+        rental.lateFeeCents = calculateLateFee(dueDate, rental.returnedAt);
+      }
+      rentals.push(rental);
+    }
+  }
+  return rentals;
+}
+
+// Stars lean towards the movie's IMDb rating
+function generateReviews(random: Random, rentals: IRentalData[], movies: IMovieData[], users: IUserData[], reviewChance: number): IReviewData[] {
+  const moviesById = new Map(movies.map(movie => [movie._id, movie]));
+  return rentals
+    .filter(rental => rental.status === 'returned' && random.chance(reviewChance))
+    .map(rental => {
+      const rating = moviesById.get(rental.movie)?.imdb?.rating ?? 5;
+      const stars = Math.min(5, Math.max(1, Math.round(rating / 2) + random.int(-1, 1)));
+      const voters = random.sample(users.filter(user => !user._id.equals(rental.user)), random.int(0, 3)).map(user => user._id);
+      return {
+        _id: random.objectId(),
+        user: rental.user,
+        movie: rental.movie,
+        stars,
+        text: random.pick(REVIEW_LINES[stars]),
+        helpfulVotes: voters.length,
+        helpfulVoters: voters
+      };
+    });
+}
+
+// Denormalized movie fields, as the rental and review services keep them
+function applyMovieAggregates(movies: IMovieData[], rentals: IRentalData[], reviews: IReviewData[]) {
+  const moviesById = new Map(movies.map(movie => [movie._id, movie]));
+  for (const rental of rentals) {
+    const movie = moviesById.get(rental.movie)!;
+    movie.rentedCount = (movie.rentedCount ?? 0) + 1;
+    if (!movie.lastRented || movie.lastRented < rental.rentedAt) {
+      movie.lastRented = rental.rentedAt;
+    }
+  }
+  for (const review of reviews) {
+    const rating = moviesById.get(review.movie)!.userRating!;
+    rating.count++;
+    rating.total += review.stars;
+    rating.average = Math.round(rating.total / rating.count * 100) / 100;
+  }
+}
+
+// Pure: builds the documents without touching the database. Passwords are
+// left in plain text (SEED_PASSWORD) for seedDatabase to hash.
+export function generateSampleData(options: SeedOptions = {}): SampleData {
+  const resolved: Required<SeedOptions> = { ...seedDefaults, now: new Date(), ...options };
+  const random = createRandom(resolved.seed);
+
+  const users = generateUsers(random, resolved.users);
+  const movies = generateMovies(random, resolved.movies, resolved.now);
+  const rentals = generateRentals(random, users, movies, resolved);
+  const reviews = generateReviews(random, rentals, movies, users, resolved.reviewChance);
+  applyMovieAggregates(movies, rentals, reviews);
+  return { users, movies, rentals, reviews };
+}
+
+// Inserts generated data through the models, so every document passes
+// their validation. Refuses to mix with existing data unless `replace`
+// clears the four collections first.
+export async function seedDatabase(options: SeedOptions & { replace?: boolean } = {}): Promise<SeedCounts> {
+  const models = { users: User, movies: Movie, rentals: Rental, reviews: Review } as const;
+
+  if (options.replace) {
+    await Promise.all(Object.values(models).map(model => model.collection.deleteMany({})));
+  } else {
+    for (const [name, model] of Object.entries(models)) {
+      if (await model.collection.estimatedDocumentCount() > 0) {
+        throw new SeedError('NOT_EMPTY', `${name} already has documents; seed an empty database or replace its data`);
+      }
+    }
+  }
+
+  const data = generateSampleData(options);
+  // One hash for everyone: bcrypt at full cost per user would dominate the run
+  const password = await hashPassword(SEED_PASSWORD);
+  await User.insertMany(data.users.map(user => ({ ...user, password })));
+  await Movie.insertMany(data.movies);
+  await Rental.insertMany(data.rentals);
+  await Review.insertMany(data.reviews);
+  // replace deletes through the driver, and only movies invalidate on insert
+  await Promise.all(Object.values(models).map(model => getQueryCache().invalidate(model.collection.collectionName)));
+
+  return {
+    users: data.users.length,
+    movies: data.movies.length,
+    rentals: data.rentals.length,
+    reviews: data.reviews.length
+  };
+}
@@ -0,0 +1,71 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createApp } from '../../src/api/app';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+let server: Server;
+let baseUrl: string;
+
+beforeAll(done => {
+  server = createApp().listen(0, () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(done);
+});
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+async function get(path: string) {
+  const response = await fetch(`${baseUrl}${path}`);
+  return { status: response.status, body: await response.json() };
+}
+
+describe('GET /movies/search', () => {
+  it('treats a blank q as no text query', async () => {
+    const { status, body } = await get('/movies/search?q=%20&sort=title&limit=1');
+
+    expect(status).toBe(200);
+    expect(body.results).toHaveLength(1);
+  });
+
+  it('rejects sorting by relevance without a text query', async () => {
+    const { status, body } = await get('/movies/search?q=%20&sort=relevance');
+
+    expect(status).toBe(400);
+    expect(body.details).toEqual({ sort: 'relevance needs a text query' });
+  });
+
+  it('rejects a repeated q', async () => {
+    const { status, body } = await get('/movies/search?q=a&q=b');
+
+    expect(status).toBe(400);
+    expect(body.details).toEqual({ q: 'q must be given once' });
+  });
+});
+
+describe('GET /movies/:id/reviews', () => {
+  const reviewsOf = (query: string) => get(`/movies/${movieFixtures[0]._id}/reviews${query}`);
+
+  it('lists reviews in a known order', async () => {
+    const { status, body } = await reviewsOf('?sort=newest');
+
+    expect(status).toBe(200);
+    expect(body.items).toEqual([]);
+  });
+
+  it.each(['constructor', 'toString', 'sideways'])('rejects sort=%s', async sort => {
+    const { status, body } = await reviewsOf(`?sort=${sort}`);
+
+    expect(status).toBe(400);
+    expect(body.details.sort).toMatch(/sort must be one of helpful, newest/);
+  });
+});
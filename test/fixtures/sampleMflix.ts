@@ -0,0 +1,107 @@
+import bcrypt from 'bcryptjs';
+import { Db, ObjectId } from 'mongodb';
+
+// A handful of documents shaped like the sample_mflix collections, inserted
+// raw through the driver the way the real dataset arrives (no defaults, no
+// timestamps, no copies field unless noted).
+export const movieFixtures = [
+  {
+    _id: new ObjectId('573a1390f29313caabcd4135'),
+    title: 'The Great Train Robbery',
+    year: 1903,
+    genres: ['Short', 'Western'],
+    directors: ['Edwin S. Porter'],
+    cast: ['A.C. Abadie', "Gilbert M. 'Broncho Billy' Anderson"],
+    plot: 'A group of bandits stage a brazen train hold-up, only to find a determined posse hot on their heels.',
+    runtime: 11,
+    rated: 'TV-G',
+    imdb: { rating: 7.4, votes: 9847, id: 439 },
+    tomatoes: { viewer: { rating: 3.7, numReviews: 2559 }, critic: { rating: 7.6, numReviews: 6 } }
+  },
+  {
+    _id: new ObjectId('573a1398f29313caabceb515'),
+    title: 'The Godfather',
+    year: 1972,
+    genres: ['Crime', 'Drama'],
+    directors: ['Francis Ford Coppola'],
+    cast: ['Marlon Brando', 'Al Pacino', 'James Caan', 'Richard S. Castellano'],
+    plot: 'The aging patriarch of an organized crime dynasty transfers control of his clandestine empire to his reluctant son.',
+    runtime: 175,
+    rated: 'R',
+    imdb: { rating: 9.2, votes: 1038358, id: 68646 },
+    tomatoes: { viewer: { rating: 4.4, numReviews: 724034 }, critic: { rating: 9.1, numReviews: 80 } }
+  },
+  {
+    _id: new ObjectId('573a139af29313caabcf0d74'),
+    title: 'Jurassic Park',
+    year: 1993,
+    genres: ['Adventure', 'Sci-Fi', 'Thriller'],
+    directors: ['Steven Spielberg'],
+    cast: ['Sam Neill', 'Laura Dern', 'Jeff Goldblum', 'Richard Attenborough'],
+    plot: 'During a preview tour, a theme park suffers a major power breakdown that allows its cloned dinosaur exhibits to run amok.',
+    runtime: 127,
+    rated: 'PG-13',
+    imdb: { rating: 8.0, votes: 631224, id: 107290 },
+    tomatoes: { viewer: { rating: 3.6, numReviews: 1187914 }, critic: { rating: 7.7, numReviews: 61 } }
+  },
+  {
+    _id: new ObjectId('573a139ff29313caabd003c0'),
+    title: 'The Lost World: Jurassic Park',
+    year: 1997,
+    genres: ['Action', 'Adventure', 'Sci-Fi'],
+    directors: ['Steven Spielberg'],
+    cast: ['Jeff Goldblum', 'Julianne Moore', 'Pete Postlethwaite', 'Arliss Howard'],
+    plot: 'A research team is sent to the Jurassic Park Site B island to study the dinosaurs there.',
+    runtime: 129,
+    rated: 'PG-13',
+    imdb: { rating: 6.5, votes: 263239, id: 119567 },
+    tomatoes: { viewer: { rating: 2.7, numReviews: 408417 }, critic: { rating: 5.3, numReviews: 79 } }
+  },
+  {
+    _id: new ObjectId('573a13a5f29313caabd14c36'),
+    title: 'Gladiator',
+    year: 2000,
+    genres: ['Action', 'Drama'],
+    directors: ['Ridley Scott'],
+    cast: ['Russell Crowe', 'Joaquin Phoenix', 'Connie Nielsen', 'Oliver Reed'],
+    plot: 'When a Roman general is betrayed and his family murdered by a corrupt prince, he comes to Rome as a gladiator to seek revenge.',
+    runtime: 155,
+    rated: 'R',
+    imdb: { rating: 8.5, votes: 986497, id: 172495 },
+    tomatoes: { viewer: { rating: 4.2, numReviews: 1091453 }, critic: { rating: 7.2, numReviews: 196 } },
+    copies: 1
+  },
+  {
+    _id: new ObjectId('573a13b3f29313caabd3b647'),
+    title: 'Pirates of the Caribbean: The Curse of the Black Pearl',
+    year: 2003,
+    genres: ['Action', 'Adventure', 'Fantasy'],
+    directors: ['Gore Verbinski'],
+    cast: ['Johnny Depp', 'Geoffrey Rush', 'Orlando Bloom', 'Keira Knightley'],
+    plot: 'Blacksmith Will Turner teams up with eccentric pirate Captain Jack Sparrow to save his love from cursed pirates.',
+    runtime: 143,
+    rated: 'PG-13',
+    imdb: { rating: 8.1, votes: 826574, id: 325980 }
+  },
+  {
+    _id: new ObjectId('573a13c2f29313caabd6fc87'),
+    title: 'Untitled Documentary',
+    genres: ['Documentary'],
+    plot: 'A movie without a year or rating, as some sample_mflix documents are.'
+  }
+];
+
+export const userFixtures = [
+  { _id: new ObjectId('59b99db4cfa9a34dcd7885b6'), name: 'Ned Stark', email: 'sean_bean@gameofthron.es', password: 'winteriscoming' },
+  { _id: new ObjectId('59b99db4cfa9a34dcd7885b7'), name: 'Robert Baratheon', email: 'mark_addy@gameofthron.es', password: 'ourstheFury' },
+  { _id: new ObjectId('59b99db5cfa9a34dcd7885b9'), name: 'Catelyn Stark', email: 'michelle_fairley@gameofthron.es', password: 'family-duty' }
+];
+
+// The dataset stores bcrypt hashes, so fixtures do too
+export async function seedSampleMflix(db: Db) {
+  await db.collection('movies').insertMany(movieFixtures.map(movie => ({ ...movie })));
+  await db.collection('users').insertMany(userFixtures.map(user => ({
+    ...user,
+    password: bcrypt.hashSync(user.password, 4)
+  })));
+}
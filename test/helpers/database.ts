@@ -0,0 +1,57 @@
+import { randomUUID } from 'crypto';
+import mongoose from 'mongoose';
+import { Db, MongoClient } from 'mongodb';
+import { createMemoryStore, createQueryCache, setQueryCache } from '../../src/lib/cache';
+import { loadConfig } from '../../src/lib/config';
+import { connect, disconnect } from '../../src/lib/database';
+
+export interface TestDatabase {
+  readonly name: string;
+  readonly client: MongoClient;
+  readonly db: Db;
+  // Empties every collection but keeps them (and their indexes) around
+  reset(): Promise<void>;
+}
+
+// Gives the calling test file a private database on the shared replica set,
+// with the shared Mongoose connection and its driver client pointed at it.
+export function useTestDatabase(): TestDatabase {
+  const name = `mflix_test_${randomUUID().slice(0, 8)}`;
+  let client: MongoClient | undefined;
+
+  beforeAll(async () => {
+    const uri = process.env.MONGODB_TEST_URI;
+    if (!uri) {
+      throw new Error('MONGODB_TEST_URI is not set; is the jest globalSetup configured?');
+    }
+
+    const config = loadConfig({ MONGODB_URI: uri, MONGODB_DB: name, MONGODB_CONNECT_RETRIES: '0' });
+    ({ client } = await connect(config.mongo));
+    // Build declared indexes (unique email, text search) before any test runs
+    await Promise.all(Object.values(mongoose.models).map(model => model.init()));
+  });
+
+  afterAll(async () => {
+    await mongoose.connection.dropDatabase();
+    await disconnect();
+  });
+
+  return {
+    name,
+    get client() {
+      if (!client) {
+        throw new Error('Test database is not connected yet');
+      }
+      return client;
+    },
+    get db() {
+      return this.client.db(name);
+    },
+    async reset() {
+      const collections = await this.db.collections();
+      await Promise.all(collections.map(collection => collection.deleteMany({})));
+      // Those deletes bypass Mongoose, so nothing cached may outlive them
+      setQueryCache(createQueryCache(createMemoryStore()));
+    }
+  };
+}
@@ -0,0 +1,104 @@
+import { IMovieData, Movie } from '../../src/models/Movie';
+import { createMemoryStore, createQueryCache, normalizeKey, QueryCache, setQueryCache } from '../../src/lib/cache';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix } from '../fixtures/sampleMflix';
+
+describe('createMemoryStore', () => {
+  it('evicts the least recently used entry', async () => {
+    const store = createMemoryStore({ maxEntries: 2 });
+    await store.set('a', '1');
+    await store.set('b', '2');
+    await store.get('a');
+    await store.set('c', '3');
+
+    expect(await store.get('a')).toBe('1');
+    expect(await store.get('b')).toBeNull();
+    expect(store.size()).toBe(2);
+  });
+
+  it('expires entries after their TTL', async () => {
+    let now = 1000;
+    const store = createMemoryStore({ now: () => now });
+    await store.set('a', '1', { PX: 500 });
+
+    now = 1499;
+    expect(await store.get('a')).toBe('1');
+    now = 1500;
+    expect(await store.get('a')).toBeNull();
+  });
+});
+
+describe('normalizeKey', () => {
+  it('ignores object key order but not array order', () => {
+    expect(normalizeKey({ a: 1, b: { c: 2, d: 3 } })).toBe(normalizeKey({ b: { d: 3, c: 2 }, a: 1 }));
+    expect(normalizeKey([['a', 1], ['b', -1]])).not.toBe(normalizeKey([['b', -1], ['a', 1]]));
+  });
+});
+
+describe('query cache', () => {
+  const database = useTestDatabase();
+  const godfather = movieFixtures.find(movie => movie.title === 'The Godfather')!._id;
+  let cache: QueryCache;
+
+  beforeEach(async () => {
+    await database.reset();
+    await seedSampleMflix(database.db);
+    cache = createQueryCache(createMemoryStore());
+    setQueryCache(cache);
+  });
+
+  it('serves repeated queries from the cache, as documents or plain objects', async () => {
+    const first = await cache.query(Movie.findHighRated(8).sort({ 'imdb.rating': -1 }));
+    const second = await cache.query(Movie.findHighRated(8).sort({ 'imdb.rating': -1 }));
+    const lean = await cache.query(Movie.findHighRated(8).sort({ 'imdb.rating': -1 }).lean());
+
+    expect(cache.stats()).toEqual({ hits: 1, misses: 2 });
+    expect(second.map(movie => movie.title)).toEqual(first.map(movie => movie.title));
+    expect(second[0].getBasicInfo()._id).toEqual(godfather);
+    expect(lean[0]).not.toBeInstanceOf(Movie);
+  });
+
+  it('keys on the sort order and the filter', async () => {
+    await cache.query(Movie.findHighRated(8).sort({ 'imdb.rating': -1 }));
+    await cache.query(Movie.findHighRated(8).sort({ 'imdb.rating': 1 }));
+    await cache.query(Movie.findByGenre('Drama'));
+
+    expect(cache.stats()).toEqual({ hits: 0, misses: 3 });
+  });
+
+  it('is invalidated by saves, rent() and deletes', async () => {
+    const highRatedCount = () => cache.query(Movie.countDocuments({ 'imdb.rating': { $gte: 8 } }));
+    expect(await highRatedCount()).toBe(4);
+
+    const movie = await Movie.findById(godfather);
+    movie!.set('imdb.rating', 7.9);
+    await movie!.save();
+    expect(await highRatedCount()).toBe(3);
+
+    const drama = () => cache.query(Movie.findByGenre('Drama').select('rentedCount').lean<IMovieData[]>());
+    await drama();
+    await (await Movie.findById(godfather))!.rent();
+    expect((await drama()).find(found => found._id.equals(godfather))?.rentedCount).toBe(1);
+
+    await Movie.deleteOne({ _id: godfather });
+    expect(await highRatedCount()).toBe(3);
+    expect((await drama()).map(found => String(found._id))).not.toContain(String(godfather));
+    expect(cache.stats().hits).toBe(0);
+  });
+
+  it('caches aggregations', async () => {
+    const genres = () => cache.aggregate(Movie.aggregate<{ _id: string }>([
+      { $unwind: '$genres' },
+      { $group: { _id: '$genres' } },
+      { $sort: { _id: 1 } }
+    ]));
+
+    const first = await genres();
+    expect(await genres()).toEqual(first);
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('refuses to cache writes', async () => {
+    await expect(cache.query(Movie.updateOne({ _id: godfather }, { copies: 3 }))).rejects.toThrow(/Only read queries/);
+  });
+});
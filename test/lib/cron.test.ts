@@ -0,0 +1,47 @@
+import { CronError, nextCronRun, parseCron } from '../../src/lib/cron';
+
+const next = (cron: string, after: string) => nextCronRun(cron, new Date(after)).toISOString();
+
+describe('parseCron', () => {
+  it('expands steps, ranges and lists', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.days]).toEqual([1, 15]);
+    expect([...schedule.weekdays]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').weekdays]).toEqual([0]);
+  });
+
+  it.each(['* * * *', '60 * * * *', '* * 0 * *', '*/0 * * * *', 'a * * * *', '5-1 * * * *', '1,,2 * * * *', '5, * * * *', '-5 * * * *', '1- * * * *', '*/ * * * *'])('rejects "%s"', expression => {
+    expect(() => parseCron(expression)).toThrow(CronError);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    expect(next('*/15 * * * *', '2024-01-01T10:00:00Z')).toBe('2024-01-01T10:15:00.000Z');
+    expect(next('*/15 * * * *', '2024-01-01T10:07:30Z')).toBe('2024-01-01T10:15:00.000Z');
+    expect(next('0 3 * * *', '2024-01-01T03:00:00Z')).toBe('2024-01-02T03:00:00.000Z');
+  });
+
+  it('rolls over months and years', () => {
+    expect(next('30 9 1 * *', '2024-01-31T12:00:00Z')).toBe('2024-02-01T09:30:00.000Z');
+    expect(next('0 0 1 1 *', '2024-06-01T00:00:00Z')).toBe('2025-01-01T00:00:00.000Z');
+    expect(next('0 12 29 2 *', '2024-03-01T00:00:00Z')).toBe('2028-02-29T12:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th, or any Friday; 2024-09-06 is a Friday
+    expect(next('0 0 13 * 5', '2024-09-01T00:00:00Z')).toBe('2024-09-06T00:00:00.000Z');
+    // Mondays only
+    expect(next('0 8 * * 1', '2024-09-01T00:00:00Z')).toBe('2024-09-02T08:00:00.000Z');
+  });
+
+  it('gives up on dates that never come', () => {
+    expect(() => nextCronRun('0 0 31 2 *', new Date('2024-01-01T00:00:00Z'))).toThrow(/never matches/);
+  });
+});
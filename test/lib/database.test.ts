@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import { loadConfig } from '../../src/lib/config';
+import { connect, getConnection, inFlightOperations, ping } from '../../src/lib/database';
+import { useTestDatabase } from '../helpers/database';
+
+const database = useTestDatabase();
+
+describe('connection manager', () => {
+  it('shares one client between the driver and Mongoose', async () => {
+    const connection = await connect();
+
+    expect(connection.client).toBe(mongoose.connection.getClient());
+    expect(getConnection().db.databaseName).toBe(database.name);
+  });
+
+  it('answers health checks', async () => {
+    const health = await ping();
+
+    expect(health).toMatchObject({ ok: true, state: 'connected' });
+    expect(health.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('counts operations in flight', async () => {
+    const slow = database.db.command({ sleep: 1, millis: 300, lock: 'none' }).catch(() => undefined);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(inFlightOperations()).toBeGreaterThan(0);
+    await slow;
+    expect(inFlightOperations()).toBe(0);
+  });
+});
+
+describe('connect', () => {
+  it('gives up on unreachable servers once retries run out', async () => {
+    const { mongo } = loadConfig({
+      MONGODB_URI: 'mongodb://127.0.0.1:1',
+      MONGODB_SERVER_SELECTION_TIMEOUT_MS: '100',
+      MONGODB_CONNECT_RETRIES: '0'
+    });
+    // The shared connection is already open, so go through a fresh module
+    await jest.isolateModulesAsync(async () => {
+      const isolated = await import('../../src/lib/database');
+      await expect(isolated.connect(mongo)).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { ObjectId } from 'mongodb';
+import { decodeCursor, encodeCursor, PageOptions, paginateCollection, PaginationError, parseSortSpec } from '../../src/lib/pagination';
+import { useTestDatabase } from '../helpers/database';
+
+interface Entry {
+  _id: number;
+  score?: number | null;
+}
+
+describe('parseSortSpec', () => {
+  it('appends _id as the tiebreaker unless it is already sorted on', () => {
+    expect(parseSortSpec('imdb.rating desc, year')).toEqual([['imdb.rating', -1], ['year', 1], ['_id', 1]]);
+    expect(parseSortSpec('year -1, _id desc')).toEqual([['year', -1], ['_id', -1]]);
+    expect(parseSortSpec()).toEqual([['_id', 1]]);
+  });
+
+  it('rejects unknown directions', () => {
+    expect(() => parseSortSpec('year sideways')).toThrow(PaginationError);
+    expect(() => parseSortSpec('year sideways')).toThrow(/Invalid sort direction "sideways" for year/);
+  });
+});
+
+describe('cursors', () => {
+  const spec = parseSortSpec('released desc');
+  const encode = (token: object) => Buffer.from(JSON.stringify(token)).toString('base64url');
+
+  it('round-trip sort key values with their BSON types', () => {
+    const id = new ObjectId();
+    const released = new Date('1999-03-31T00:00:00Z');
+
+    const token = decodeCursor(spec, encodeCursor(spec, [released, id], 'before'));
+
+    expect(token.k).toEqual([released, id]);
+    expect(token.d).toBe('before');
+  });
+
+  it('are rejected for a different sort order', () => {
+    const cursor = encodeCursor(spec, [null, 1], 'after');
+
+    expect(() => decodeCursor(parseSortSpec('released'), cursor)).toThrow(/different sort order/);
+  });
+
+  it.each([
+    ['garbage', '%%%'],
+    ['a key of the wrong length', encode({ k: [1], s: 'released:-1,_id:1', d: 'after' })],
+    ['an unknown direction', encode({ k: [1, 2], s: 'released:-1,_id:1', d: 'sideways' })]
+  ])('are rejected when tampered with: %s', (_, cursor) => {
+    expect(() => decodeCursor(spec, cursor)).toThrow(PaginationError);
+  });
+});
+
+describe('paginateCollection', () => {
+  const database = useTestDatabase();
+  const entries = () => database.db.collection<Entry>('entries');
+
+  beforeEach(async () => {
+    await database.reset();
+    await entries().insertMany([
+      { _id: 1, score: 3 },
+      { _id: 2, score: 1 },
+      { _id: 3, score: null },
+      { _id: 4, score: 3 },
+      { _id: 5 },
+      { _id: 6, score: 2 }
+    ]);
+  });
+
+  // Follows nextCursor to the end and returns the ids page by page
+  async function walk(options: PageOptions) {
+    const pages: number[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await paginateCollection(entries(), {}, { ...options, cursor });
+      pages.push(page.items.map(entry => entry._id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return pages;
+  }
+
+  it('breaks ties on _id so equal keys are neither skipped nor repeated', async () => {
+    expect(await walk({ sort: 'score desc', limit: 2 })).toEqual([[1, 4], [6, 2], [3, 5]]);
+  });
+
+  it('pages through null and missing sort keys in both directions', async () => {
+    expect(await walk({ sort: 'score', limit: 1 })).toEqual([[3], [5], [2], [6], [1], [4]]);
+
+    const first = await paginateCollection(entries(), {}, { sort: 'score desc', limit: 4 });
+    const last = await paginateCollection(entries(), {}, { sort: 'score desc', limit: 2, cursor: first.nextCursor! });
+    expect(last.items.map(entry => entry._id)).toEqual([3, 5]);
+    expect(last.hasNext).toBe(false);
+
+    const previous = await paginateCollection(entries(), {}, { sort: 'score desc', limit: 2, cursor: last.prevCursor! });
+    expect(previous.items.map(entry => entry._id)).toEqual([6, 2]);
+    expect(previous).toMatchObject({ hasNext: true, hasPrev: true });
+  });
+
+  it('has no previous page at the start', async () => {
+    const page = await paginateCollection(entries(), {}, { sort: 'score desc', limit: 2 });
+
+    expect(page).toMatchObject({ hasPrev: false, prevCursor: null, hasNext: true });
+  });
+
+  it('counts every match only when asked to', async () => {
+    const filter = { score: { $ne: null } };
+
+    expect(await paginateCollection(entries(), filter, { limit: 2, includeTotal: true })).toMatchObject({ total: 4 });
+    expect(await paginateCollection(entries(), filter, { limit: 2 })).not.toHaveProperty('total');
+  });
+});
@@ -0,0 +1,54 @@
+import { hashToken, randomToken, signToken, TokenError, verifyToken } from '../../src/lib/tokens';
+
+const SECRET = 'a-test-secret-that-is-long-enough!!';
+
+function codeOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    return (error as TokenError).code;
+  }
+  return undefined;
+}
+
+describe('signToken / verifyToken', () => {
+  it('round-trips the subject and claims', () => {
+    const token = signToken('user-1', { role: 'staff' }, SECRET, 60);
+
+    expect(verifyToken(token, SECRET)).toMatchObject({ sub: 'user-1', role: 'staff' });
+  });
+
+  it('rejects tokens signed with another secret or tampered with', () => {
+    const token = signToken('user-1', { role: 'customer' }, SECRET, 60);
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: 'user-1', role: 'admin', exp: 9999999999 })).toString('base64url');
+
+    expect(codeOf(() => verifyToken(token, 'another-secret-that-is-long-enough'))).toBe('BAD_SIGNATURE');
+    expect(codeOf(() => verifyToken(`${header}.${forged}.${signature}`, SECRET))).toBe('BAD_SIGNATURE');
+  });
+
+  it('rejects unsigned tokens', () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({ sub: 'user-1', exp: 9999999999 })).toString('base64url');
+
+    expect(codeOf(() => verifyToken(`${header}.${payload}.`, SECRET))).toBe('MALFORMED');
+    expect(codeOf(() => verifyToken('not-a-token', SECRET))).toBe('MALFORMED');
+  });
+
+  it('rejects expired tokens', () => {
+    const issuedAt = Date.now() - 120 * 1000;
+    const token = signToken('user-1', {}, SECRET, 60, issuedAt);
+
+    expect(codeOf(() => verifyToken(token, SECRET))).toBe('EXPIRED');
+  });
+});
+
+describe('randomToken / hashToken', () => {
+  it('hashes tokens deterministically without revealing them', () => {
+    const token = randomToken();
+
+    expect(token).not.toBe(randomToken());
+    expect(hashToken(token)).toBe(hashToken(token));
+    expect(hashToken(token)).not.toContain(token);
+  });
+});
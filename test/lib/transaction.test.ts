@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+import { MongoError } from 'mongodb';
+import {
+  getTransactionMetrics,
+  resetTransactionMetrics,
+  runInTransaction,
+  TRANSIENT_TRANSACTION_ERROR
+} from '../../src/lib/transaction';
+import { useTestDatabase } from '../helpers/database';
+
+const database = useTestDatabase();
+
+function transientError() {
+  const error = new MongoError('Simulated write conflict');
+  error.addErrorLabel(TRANSIENT_TRANSACTION_ERROR);
+  return error;
+}
+
+beforeEach(async () => {
+  await database.reset();
+  resetTransactionMetrics();
+});
+
+describe('runInTransaction', () => {
+  it('commits writes made through the session and returns the callback result', async () => {
+    const items = database.db.collection('items');
+
+    const result = await runInTransaction(async session => {
+      await items.insertMany([{ n: 1 }, { n: 2 }], { session });
+      return 'done';
+    }, { client: database.client, label: 'commit' });
+
+    expect(result).toBe('done');
+    expect(await items.countDocuments()).toBe(2);
+    expect(getTransactionMetrics().commit).toMatchObject({ attempts: 1, commits: 1, aborts: 0, failures: 0 });
+  });
+
+  it('aborts and rethrows application errors without retrying', async () => {
+    const items = database.db.collection('items');
+    const failure = new Error('insufficient stock');
+    let calls = 0;
+
+    await expect(runInTransaction(async session => {
+      calls++;
+      await items.insertOne({ n: 1 }, { session });
+      throw failure;
+    }, { client: database.client, label: 'abort' })).rejects.toBe(failure);
+
+    expect(calls).toBe(1);
+    expect(await items.countDocuments()).toBe(0);
+    expect(getTransactionMetrics().abort).toMatchObject({ attempts: 1, aborts: 1, failures: 1 });
+  });
+
+  it('retries the whole callback on transient errors', async () => {
+    const items = database.db.collection('items');
+    const onRetry = jest.fn();
+
+    const attempts = await runInTransaction(async (session, attempt) => {
+      await items.insertOne({ attempt }, { session });
+      if (attempt < 3) {
+        throw transientError();
+      }
+      return attempt;
+    }, { client: database.client, label: 'retry', baseDelayMs: 1, hooks: { onRetry } });
+
+    expect(attempts).toBe(3);
+    // Writes from the aborted attempts were rolled back
+    expect(await items.find().toArray()).toEqual([expect.objectContaining({ attempt: 3 })]);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenLastCalledWith(expect.objectContaining({ reason: TRANSIENT_TRANSACTION_ERROR }));
+    expect(getTransactionMetrics().retry).toMatchObject({ attempts: 3, commits: 1, aborts: 2, retries: 2 });
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const error = transientError();
+
+    await expect(runInTransaction(async () => {
+      throw error;
+    }, { client: database.client, label: 'exhausted', maxAttempts: 2, baseDelayMs: 1 })).rejects.toBe(error);
+
+    expect(getTransactionMetrics().exhausted).toMatchObject({ attempts: 2, aborts: 2, failures: 1 });
+  });
+
+  it('retries real write conflicts between concurrent transactions', async () => {
+    const counters = database.db.collection<{ _id: string; value: number }>('counters');
+    await counters.insertOne({ _id: 'hits', value: 0 });
+
+    const increment = () => runInTransaction(async session => {
+      const counter = await counters.findOne({ _id: 'hits' }, { session });
+      await counters.updateOne({ _id: 'hits' }, { $set: { value: counter!.value + 1 } }, { session });
+    }, { client: database.client, label: 'conflict', baseDelayMs: 5 });
+
+    await Promise.all([increment(), increment(), increment()]);
+
+    expect((await counters.findOne({ _id: 'hits' }))?.value).toBe(3);
+  });
+
+  it('still commits when a hook throws', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(runInTransaction(async () => 'ok', {
+      client: database.client,
+      hooks: { onCommit: () => { throw new Error('broken hook'); } }
+    })).resolves.toBe('ok');
+
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('defaults to the shared Mongoose connection', async () => {
+    const startSession = jest.spyOn(mongoose.connection, 'startSession');
+
+    await runInTransaction(async session => {
+      await mongoose.connection.db!.collection('items').insertOne({ via: 'mongoose' }, { session });
+    });
+
+    expect(startSession).toHaveBeenCalled();
+    expect(await database.db.collection('items').countDocuments({ via: 'mongoose' })).toBe(1);
+    startSession.mockRestore();
+  });
+});
@@ -0,0 +1,116 @@
+import { Movie } from '../../src/models/Movie';
+import { MovieSearchError } from '../../src/models/movieSearch';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+describe('Movie instance methods', () => {
+  it('rent() bumps rentedCount and sets lastRented', async () => {
+    const movie = await Movie.findOne({ title: 'The Godfather' });
+    const before = Date.now();
+
+    await movie!.rent();
+    await movie!.rent();
+
+    const raw = await database.db.collection('movies').findOne({ _id: movie!._id });
+    expect(raw?.rentedCount).toBe(2);
+    expect(raw?.lastRented.getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it('rent() works on imported documents with values outside the schema enums', async () => {
+    const movie = await Movie.findOne({ title: 'The Great Train Robbery' });
+    expect(movie?.rated).toBe('TV-G');
+
+    await expect(movie!.rent()).resolves.toBeDefined();
+  });
+
+  it('getBasicInfo() exposes only the summary fields', async () => {
+    const movie = await Movie.findOne({ title: 'Gladiator' });
+
+    expect(movie!.getBasicInfo()).toEqual({
+      _id: movie!._id,
+      title: 'Gladiator',
+      year: 2000,
+      genres: ['Action', 'Drama'],
+      rated: 'R',
+      imdb: expect.objectContaining({ rating: 8.5 }),
+      // Defaults until someone reviews it
+      userRating: expect.objectContaining({ average: null, count: 0, total: 0 })
+    });
+  });
+
+  it('applies schema defaults to documents that lack them', async () => {
+    const movie = await Movie.findOne({ title: 'Jurassic Park' });
+
+    expect(movie?.copies).toBe(3);
+    expect(movie?.rentedCount).toBe(0);
+  });
+});
+
+describe('Movie statics', () => {
+  it('findByGenre() matches any movie listing the genre', async () => {
+    const movies = await Movie.findByGenre('Adventure');
+
+    expect(movies.map(movie => movie.title).sort()).toEqual([
+      'Jurassic Park',
+      'Pirates of the Caribbean: The Curse of the Black Pearl',
+      'The Lost World: Jurassic Park'
+    ]);
+  });
+
+  it('findHighRated() defaults to a 7.0 threshold', async () => {
+    const movies = await Movie.findHighRated();
+    const expected = movieFixtures.filter(movie => (movie.imdb?.rating ?? 0) >= 7).length;
+
+    expect(movies).toHaveLength(expected);
+    movies.forEach(movie => expect(movie.imdb!.rating).toBeGreaterThanOrEqual(7));
+  });
+
+  it('findHighRated() accepts a custom threshold', async () => {
+    const movies = await Movie.findHighRated(9);
+
+    expect(movies.map(movie => movie.title)).toEqual(['The Godfather']);
+  });
+});
+
+describe('Movie validation', () => {
+  it('rejects out-of-range years and ratings', async () => {
+    const error = await new Movie({ title: 'Bad', year: 1700, imdb: { rating: 11 } }).validate().catch(err => err);
+
+    expect(error.errors.year.message).toBe('Year must be after 1800');
+    expect(error.errors['imdb.rating']).toBeDefined();
+  });
+});
+
+describe('Movie.search', () => {
+  it('combines text search with filters and facet counts', async () => {
+    const result = await Movie.search({ text: 'jurassic', genres: ['Adventure'] });
+
+    expect(result.total).toBe(2);
+    expect(result.results.map(movie => movie.title).sort()).toEqual(['Jurassic Park', 'The Lost World: Jurassic Park']);
+    expect(result.results[0].score).toBeGreaterThan(0);
+    expect(result.facets.decades).toEqual([{ value: 1990, count: 2 }]);
+    expect(result.facets.genres).toEqual(expect.arrayContaining([{ value: 'Sci-Fi', count: 2 }]));
+  });
+
+  it('buckets movies without a rating as unrated', async () => {
+    const result = await Movie.search({ sort: 'title', limit: 3 });
+
+    expect(result.total).toBe(movieFixtures.length);
+    expect(result.results).toHaveLength(3);
+    expect(result.facets.ratings).toEqual(expect.arrayContaining([
+      { from: 'unrated', count: 1 },
+      { from: 9, to: 10, count: 1 }
+    ]));
+  });
+
+  it('refuses to sort by relevance without a text query', async () => {
+    await expect(Movie.search({ text: '  ', sort: 'relevance' })).rejects.toThrow(MovieSearchError);
+  });
+});
@@ -0,0 +1,119 @@
+import bcrypt from 'bcryptjs';
+import mongoose from 'mongoose';
+import { User } from '../../src/models/User';
+import { PASSWORD_SALT_ROUNDS } from '../../src/lib/password';
+import { useTestDatabase } from '../helpers/database';
+import { seedSampleMflix, userFixtures } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+describe('User validation', () => {
+  it('reports every invalid field with the schema messages', async () => {
+    const user = new User({ name: 'A', email: 'invalid-email', password: '123' });
+
+    const error = await user.save().catch(err => err);
+
+    expect(error).toBeInstanceOf(mongoose.Error.ValidationError);
+    expect(error.errors.name.message).toBe('Name must be at least 2 characters');
+    expect(error.errors.email.message).toBe('Please enter a valid email');
+    expect(error.errors.password.message).toBe('Password must be at least 6 characters');
+  });
+
+  it('requires name, email and password', async () => {
+    const error = await new User({}).validate().catch(err => err);
+
+    expect(Object.keys(error.errors).sort()).toEqual(['email', 'name', 'password']);
+  });
+
+  it('normalizes email and rejects duplicates', async () => {
+    await User.create({ name: 'Jon Snow', email: '  Jon.Snow@Winterfell.com ', password: 'ghost123' });
+
+    const stored = await User.findOne({ name: 'Jon Snow' });
+    expect(stored?.email).toBe('jon.snow@winterfell.com');
+
+    await expect(
+      User.create({ name: 'Other Jon', email: 'jon.snow@winterfell.com', password: 'ghost456' })
+    ).rejects.toMatchObject({ code: 11000 });
+  });
+});
+
+describe('User passwords', () => {
+  it('stores a bcrypt hash instead of the plain password', async () => {
+    const user = await User.create({ name: 'Arya Stark', email: 'arya@winterfell.com', password: 'needles123' });
+
+    const raw = await database.db.collection('users').findOne({ _id: user._id });
+    expect(raw?.password).not.toBe('needles123');
+    expect(await bcrypt.compare('needles123', raw?.password)).toBe(true);
+  });
+
+  it('hashes passwords set through update queries', async () => {
+    const user = await User.create({ name: 'Arya Stark', email: 'arya@winterfell.com', password: 'needles123' });
+
+    await User.findByIdAndUpdate(user._id, { password: 'faceless123' });
+
+    const raw = await database.db.collection('users').findOne({ _id: user._id });
+    expect(await bcrypt.compare('faceless123', raw?.password)).toBe(true);
+  });
+
+  it('hashes values that merely look like a hash', async () => {
+    const lookalike = bcrypt.hashSync('chosen-by-attacker', 4);
+    const user = await User.create({ name: 'Arya Stark', email: 'arya@winterfell.com', password: lookalike });
+    await User.updateOne({ _id: user._id }, { $set: { password: lookalike } });
+
+    const raw = await database.db.collection('users').findOne({ _id: user._id });
+    expect(raw?.password).not.toBe(lookalike);
+    expect(await User.authenticate('arya@winterfell.com', 'chosen-by-attacker')).toBeNull();
+    expect(await User.authenticate('arya@winterfell.com', lookalike)).not.toBeNull();
+  });
+
+  it('never selects or serializes the password by default', async () => {
+    await User.create({ name: 'Arya Stark', email: 'arya@winterfell.com', password: 'needles123' });
+
+    const user = await User.findByEmail('arya@winterfell.com');
+    expect(user?.password).toBeUndefined();
+    expect(user?.getPublicProfile()).not.toHaveProperty('password');
+
+    const withPassword = await User.findByEmail('arya@winterfell.com').select('+password');
+    expect(withPassword?.password).toBeDefined();
+    expect(JSON.parse(JSON.stringify(withPassword))).not.toHaveProperty('password');
+  });
+});
+
+describe('User statics', () => {
+  it('finds users by email case-insensitively', async () => {
+    const user = await User.findByEmail('SEAN_BEAN@gameofthron.es');
+
+    expect(user?.name).toBe('Ned Stark');
+  });
+
+  it('authenticates against hashes imported from sample_mflix', async () => {
+    const [ned] = userFixtures;
+
+    const user = await User.authenticate(ned.email, ned.password);
+
+    expect(user?.getPublicProfile()).toMatchObject({ name: 'Ned Stark', email: ned.email });
+  });
+
+  it('rejects wrong passwords and unknown emails', async () => {
+    expect(await User.authenticate(userFixtures[0].email, 'wrong-password')).toBeNull();
+    expect(await User.authenticate('nobody@gameofthron.es', 'whatever')).toBeNull();
+  });
+
+  it('rehashes on login when the cost factor changed', async () => {
+    const [ned] = userFixtures;
+    const oldHash = bcrypt.hashSync(ned.password, PASSWORD_SALT_ROUNDS + 1);
+    await database.db.collection('users').updateOne({ _id: ned._id }, { $set: { password: oldHash } });
+
+    await User.authenticate(ned.email, ned.password);
+
+    const raw = await database.db.collection('users').findOne({ _id: ned._id });
+    expect(raw?.password).not.toBe(oldHash);
+    expect(bcrypt.getRounds(raw?.password)).toBe(PASSWORD_SALT_ROUNDS);
+    expect(await User.authenticate(ned.email, ned.password)).not.toBeNull();
+  });
+});
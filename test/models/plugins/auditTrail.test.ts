@@ -0,0 +1,98 @@
+import { AuditLog, IAuditLog } from '../../../src/models/AuditLog';
+import { User } from '../../../src/models/User';
+import { runInTransaction } from '../../../src/lib/transaction';
+import { useTestDatabase } from '../../helpers/database';
+import { seedSampleMflix, userFixtures } from '../../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+const [ned, robert, catelyn] = userFixtures;
+
+const historyOf = (id: unknown) => AuditLog.historyOf('users', String(id)).lean<IAuditLog[]>();
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+describe('auditTrail plugin', () => {
+  it('records creates with every field and the actor', async () => {
+    const user = new User({ name: 'Arya Stark', email: 'arya@winterfell.com', password: 'needles123' });
+    user.$locals.actor = 'admin';
+    await user.save();
+
+    const [entry] = await historyOf(user._id);
+    expect(entry).toMatchObject({ operation: 'create', actor: 'admin', collectionName: 'users' });
+    expect(entry.changes).toEqual(expect.arrayContaining([
+      { path: 'name', to: 'Arya Stark' },
+      { path: 'password', redacted: true }
+    ]));
+  });
+
+  it('records before/after diffs of document saves', async () => {
+    const user = await User.findById(ned._id);
+    user!.name = 'Eddard Stark';
+    user!.$locals.actor = 'admin';
+    await user!.save();
+
+    const [entry] = await historyOf(ned._id);
+    expect(entry).toMatchObject({
+      operation: 'update',
+      actor: 'admin',
+      changes: [{ path: 'name', from: 'Ned Stark', to: 'Eddard Stark' }]
+    });
+  });
+
+  it('records query updates for every matched document', async () => {
+    await User.updateMany(
+      { _id: { $in: [robert._id, catelyn._id] } },
+      { $set: { name: 'Renamed' } },
+      { actor: 'migration' }
+    );
+
+    for (const { _id, name } of [robert, catelyn]) {
+      const [entry] = await historyOf(_id);
+      expect(entry).toMatchObject({
+        operation: 'update',
+        actor: 'migration',
+        changes: [{ path: 'name', from: name, to: 'Renamed' }]
+      });
+    }
+  });
+
+  it('never copies redacted values into the log', async () => {
+    await User.findByIdAndUpdate(ned._id, { password: 'newpassword' });
+
+    const [entry] = await historyOf(ned._id);
+    expect(entry.changes).toEqual([{ path: 'password', redacted: true }]);
+  });
+
+  it('names soft deletes, restores and hard deletes', async () => {
+    const user = await User.findById(ned._id);
+    await user!.softDelete('admin');
+    await user!.restore('admin');
+    await User.deleteOne({ _id: ned._id }, { actor: 'admin' });
+
+    const entries = await historyOf(ned._id);
+    expect(entries.map(entry => entry.operation)).toEqual(['delete', 'restore', 'softDelete']);
+    expect(entries[0].changes).toEqual(expect.arrayContaining([{ path: 'name', from: 'Ned Stark' }]));
+  });
+
+  it('skips writes that change nothing and queries run with audit: false', async () => {
+    await User.updateOne({ _id: ned._id }, { $set: { name: 'Ned Stark' } });
+    await User.updateOne({ _id: ned._id }, { $set: { name: 'Quiet' } }, { audit: false });
+
+    expect(await historyOf(ned._id)).toHaveLength(0);
+  });
+
+  it('rolls the log back with the transaction it was written in', async () => {
+    await expect(runInTransaction(async session => {
+      const user = await User.findById(ned._id).session(session);
+      user!.name = 'Never Saved';
+      await user!.save({ session });
+      throw new Error('abort');
+    })).rejects.toThrow('abort');
+
+    expect(await historyOf(ned._id)).toHaveLength(0);
+  });
+});
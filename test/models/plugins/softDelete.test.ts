@@ -0,0 +1,71 @@
+import { User } from '../../../src/models/User';
+import { useTestDatabase } from '../../helpers/database';
+import { seedSampleMflix, userFixtures } from '../../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+const [ned, robert] = userFixtures;
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+describe('softDelete plugin', () => {
+  it('marks the document instead of removing it', async () => {
+    const user = await User.findById(ned._id);
+
+    await user!.softDelete('admin');
+
+    const raw = await database.db.collection('users').findOne({ _id: ned._id });
+    expect(raw).toMatchObject({ deletedAt: expect.any(Date), deletedBy: 'admin' });
+    expect(user!.isDeleted()).toBe(true);
+  });
+
+  it('hides deleted documents from reads and updates by default', async () => {
+    await (await User.findById(ned._id))!.softDelete();
+
+    expect(await User.findById(ned._id)).toBeNull();
+    expect(await User.findByEmail(ned.email)).toBeNull();
+    expect(await User.countDocuments()).toBe(userFixtures.length - 1);
+    expect(await User.distinct('email')).not.toContain(ned.email);
+    expect(await User.authenticate(ned.email, ned.password)).toBeNull();
+
+    const update = await User.updateOne({ _id: ned._id }, { name: 'Ghost' });
+    expect(update.matchedCount).toBe(0);
+
+    const aggregated = await User.aggregate([{ $group: { _id: null, count: { $sum: 1 } } }]);
+    expect(aggregated[0].count).toBe(userFixtures.length - 1);
+  });
+
+  it('finds deleted documents on request', async () => {
+    await (await User.findById(ned._id))!.softDelete();
+
+    expect(await User.findById(ned._id).setOptions({ withDeleted: true })).not.toBeNull();
+    expect((await User.findDeleted()).map(user => user.email)).toEqual([ned.email]);
+    expect(await User.countDocuments({ deletedAt: { $ne: null } })).toBe(1);
+
+    const aggregated = await User.aggregate([{ $match: {} }]).option({ withDeleted: true } as object);
+    expect(aggregated).toHaveLength(userFixtures.length);
+  });
+
+  it('restore() brings the document back', async () => {
+    const user = await User.findById(robert._id);
+    await user!.softDelete();
+
+    await user!.restore();
+
+    const restored = await User.findById(robert._id);
+    expect(restored?.deletedAt).toBeNull();
+    expect(restored?.deletedBy).toBeNull();
+  });
+
+  it('still lets hard deletes reach deleted documents', async () => {
+    await (await User.findById(ned._id))!.softDelete();
+
+    const result = await User.deleteOne({ _id: ned._id });
+
+    expect(result.deletedCount).toBe(1);
+    expect(await database.db.collection('users').findOne({ _id: ned._id })).toBeNull();
+  });
+});
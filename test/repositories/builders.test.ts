@@ -0,0 +1,58 @@
+import type { IMovieData } from '../../src/models/Movie';
+import { filterOf, updateOf } from '../../src/repositories/builders';
+
+describe('filterOf', () => {
+  it('builds equality and operator conditions on dotted paths', () => {
+    const filter = filterOf<IMovieData>()
+      .eq('genres', 'Drama')
+      .in('rated', ['PG', 'PG-13'])
+      .exists('plot')
+      .build();
+
+    expect(filter).toEqual({ genres: 'Drama', rated: { $in: ['PG', 'PG-13'] }, plot: { $exists: true } });
+  });
+
+  it('merges range conditions on the same path', () => {
+    const filter = filterOf<IMovieData>().gte('year', 1990).lt('year', 2000).gt('imdb.rating', 8).build();
+
+    expect(filter).toEqual({ year: { $gte: 1990, $lt: 2000 }, 'imdb.rating': { $gt: 8 } });
+  });
+
+  it('replaces an earlier equality with an operator', () => {
+    expect(filterOf<IMovieData>().eq('year', 1994).ne('year', 1995).build()).toEqual({ year: { $ne: 1995 } });
+  });
+
+  it('combines raw filters with $and', () => {
+    const filter = filterOf<IMovieData>()
+      .where({ $text: { $search: 'godfather' } })
+      .where({ $or: [{ year: 1972 }, { year: 1974 }] })
+      .build();
+
+    expect(filter).toEqual({ $and: [{ $text: { $search: 'godfather' } }, { $or: [{ year: 1972 }, { year: 1974 }] }] });
+  });
+});
+
+describe('updateOf', () => {
+  it('groups paths by operator', () => {
+    const update = updateOf<IMovieData>()
+      .set('title', 'Heat')
+      .set('imdb.rating', 8.3)
+      .inc('rentedCount')
+      .inc('copies', -1)
+      .addToSet('genres', 'Crime')
+      .unset('plot')
+      .build();
+
+    expect(update).toEqual({
+      $set: { title: 'Heat', 'imdb.rating': 8.3 },
+      $inc: { rentedCount: 1, copies: -1 },
+      $addToSet: { genres: 'Crime' },
+      $unset: { plot: '' }
+    });
+  });
+
+  it('knows when nothing was changed', () => {
+    expect(updateOf<IMovieData>().isEmpty()).toBe(true);
+    expect(updateOf<IMovieData>().currentDate('lastRented').isEmpty()).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import bcrypt from 'bcryptjs';
+import { ObjectId } from 'mongodb';
+// Registers the model, so the test database gets its unique email index
+import '../../src/models/User';
+import { runInTransaction } from '../../src/lib/transaction';
+import { createRepositories, Repositories } from '../../src/repositories';
+import { RepositoryError } from '../../src/repositories/repository';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix, userFixtures } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+let repositories: Repositories;
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+  repositories = createRepositories(database.db);
+});
+
+describe('UserRepository', () => {
+  it('never returns password hashes', async () => {
+    const user = await repositories.users.getById(userFixtures[0]._id);
+
+    expect(user).toMatchObject({ name: 'Ned Stark' });
+    expect(user).not.toHaveProperty('password');
+  });
+
+  it('creates users like the model does', async () => {
+    const user = await repositories.users.create({ name: ' Arya Stark ', email: 'Arya@Winterfell.com', password: 'needles123' });
+
+    expect(user).toMatchObject({ name: 'Arya Stark', email: 'arya@winterfell.com', createdAt: expect.any(Date) });
+    expect(user).not.toHaveProperty('password');
+
+    const raw = await database.db.collection('users').findOne({ _id: user._id });
+    expect(await bcrypt.compare('needles123', raw?.password)).toBe(true);
+  });
+
+  it('reports duplicate emails as a RepositoryError', async () => {
+    const error = await repositories.users
+      .create({ name: 'Ned Again', email: userFixtures[0].email, password: 'winteriscoming' })
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(RepositoryError);
+    expect(error).toMatchObject({ code: 'DUPLICATE_KEY', details: { email: 'email already exists' } });
+  });
+
+  it('hides soft-deleted users unless asked', async () => {
+    const { _id } = userFixtures[1];
+
+    expect(await repositories.users.softDelete(_id, 'test')).toBe(true);
+    expect(await repositories.users.softDelete(_id, 'test')).toBe(false);
+    expect(await repositories.users.findById(_id)).toBeNull();
+    expect(await repositories.users.findById(_id, { withDeleted: true })).toMatchObject({ deletedBy: 'test' });
+    expect(await repositories.users.count()).toBe(userFixtures.length - 1);
+
+    expect(await repositories.users.restore(_id)).toBe(true);
+    expect(await repositories.users.findById(_id)).toMatchObject({ deletedAt: null, deletedBy: null });
+  });
+});
+
+describe('MovieRepository', () => {
+  it('finds high rated movies best first', async () => {
+    const movies = await repositories.movies.findHighRated(8.1);
+
+    expect(movies.map(movie => movie.title)).toEqual([
+      'The Godfather',
+      'Gladiator',
+      'Pirates of the Caribbean: The Curse of the Black Pearl'
+    ]);
+  });
+
+  it('records rentals', async () => {
+    const movie = await repositories.movies.recordRental(movieFixtures[1]._id.toHexString());
+
+    expect(movie).toMatchObject({ rentedCount: 1, lastRented: expect.any(Date) });
+  });
+
+  it('rejects malformed ids', async () => {
+    await expect(repositories.movies.findById('not-an-id')).rejects.toMatchObject({ code: 'INVALID_ID' });
+    await expect(repositories.movies.getById(new ObjectId())).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
+
+describe('RentalRepository', () => {
+  it('creates and returns rentals', async () => {
+    const dueDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    const rental = await repositories.rentals.create({ user: userFixtures[0]._id, movie: movieFixtures[1]._id, dueDate });
+
+    expect(rental).toMatchObject({ status: 'active', extensions: 0, lateFeeCents: 0, dueDate });
+    expect(await repositories.rentals.countActive({ movie: movieFixtures[1]._id })).toBe(1);
+
+    const returned = await repositories.rentals.markReturned(rental._id, { lateFeeCents: 150 });
+    expect(returned).toMatchObject({ status: 'returned', lateFeeCents: 150, returnedAt: expect.any(Date) });
+    expect(await repositories.rentals.markReturned(rental._id)).toBeNull();
+    expect(await repositories.rentals.findActiveByUser(userFixtures[0]._id)).toEqual([]);
+  });
+
+  it('takes part in transactions through the session option', async () => {
+    const dueDate = new Date();
+
+    await expect(runInTransaction(async session => {
+      await repositories.rentals.create({ user: userFixtures[0]._id, movie: movieFixtures[1]._id, dueDate }, { session });
+      await repositories.movies.recordRental(movieFixtures[1]._id, { session });
+      throw new Error('changed my mind');
+    }, { client: database.client })).rejects.toThrow('changed my mind');
+
+    expect(await repositories.rentals.count()).toBe(0);
+    expect(await repositories.movies.getById(movieFixtures[1]._id)).not.toHaveProperty('rentedCount');
+  });
+});
@@ -0,0 +1,172 @@
+import { ObjectId } from 'mongodb';
+import {
+  genreSummary,
+  mostRentedTitles,
+  peopleLeaderboard,
+  ratingCorrelation,
+  rentalTrends,
+  topRatedByGenreAndDecade
+} from '../../src/services/analytics';
+import { renderReport, ReportError, runReport } from '../../src/services/analyticsReports';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix, userFixtures } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+const movieId = (title: string) => movieFixtures.find(movie => movie.title === title)!._id;
+
+function pearson(pairs: [number, number][]) {
+  const n = pairs.length;
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / n;
+  const mx = mean(pairs.map(([x]) => x));
+  const my = mean(pairs.map(([, y]) => y));
+  const cov = pairs.reduce((sum, [x, y]) => sum + (x - mx) * (y - my), 0);
+  const sx = Math.sqrt(pairs.reduce((sum, [x]) => sum + (x - mx) ** 2, 0));
+  const sy = Math.sqrt(pairs.reduce((sum, [, y]) => sum + (y - my) ** 2, 0));
+  return cov / (sx * sy);
+}
+
+async function seedRentals() {
+  const [ned, robert] = userFixtures;
+  const rental = (movie: ObjectId, user: ObjectId, rentedAt: string, status = 'active', lateFeeCents = 0) => ({
+    user,
+    movie,
+    rentedAt: new Date(rentedAt),
+    dueDate: new Date(new Date(rentedAt).getTime() + 7 * 24 * 60 * 60 * 1000),
+    status,
+    extensions: 0,
+    lateFeeCents
+  });
+
+  await database.db.collection('rentals').insertMany([
+    // Monday 1 January 2024
+    rental(movieId('The Godfather'), ned._id, '2024-01-01T10:00:00Z', 'returned', 150),
+    rental(movieId('Gladiator'), robert._id, '2024-01-03T10:00:00Z'),
+    rental(movieId('The Godfather'), robert._id, '2024-01-10T10:00:00Z'),
+    // Nothing in the week of the 15th
+    rental(new ObjectId(), ned._id, '2024-01-22T10:00:00Z')
+  ]);
+}
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+describe('movie analytics', () => {
+  it('summarizes genres by size', async () => {
+    const genres = await genreSummary(database.db, { limit: 2 });
+
+    expect(genres).toEqual([
+      { genre: 'Action', movies: 3, avgRating: 7.7 },
+      { genre: 'Adventure', movies: 3, avgRating: 7.5 }
+    ]);
+  });
+
+  it('ranks the best movies per genre and decade', async () => {
+    const groups = await topRatedByGenreAndDecade(database.db, { genres: ['Adventure'], perGroup: 1 });
+
+    expect(groups).toEqual([
+      { genre: 'Adventure', decade: 1990, movies: [expect.objectContaining({ title: 'Jurassic Park', rating: 8 })] },
+      {
+        genre: 'Adventure',
+        decade: 2000,
+        movies: [expect.objectContaining({ title: 'Pirates of the Caribbean: The Curse of the Black Pearl' })]
+      }
+    ]);
+  });
+
+  it('skips movies without a numeric year or rating', async () => {
+    const groups = await topRatedByGenreAndDecade(database.db, { minVotes: 0 });
+
+    expect(groups.map(group => group.genre)).not.toContain('Documentary');
+  });
+
+  it('builds director leaderboards', async () => {
+    const [spielberg, ...others] = await peopleLeaderboard(database.db, { role: 'directors', minMovies: 2 });
+
+    expect(others).toEqual([]);
+    expect(spielberg).toEqual({
+      name: 'Steven Spielberg',
+      movies: 2,
+      avgRating: 7.25,
+      totalVotes: 631224 + 263239,
+      bestTitle: 'Jurassic Park',
+      bestRating: 8
+    });
+  });
+
+  it('correlates IMDb and critic ratings', async () => {
+    const [overall] = await ratingCorrelation(database.db);
+    const pairs = movieFixtures
+      .filter(movie => movie.imdb?.rating !== undefined && movie.tomatoes?.critic?.rating !== undefined)
+      .map(movie => [movie.imdb!.rating, movie.tomatoes!.critic!.rating] as [number, number]);
+
+    expect(overall).toMatchObject({ group: null, pairs: pairs.length });
+    expect(overall.correlation).toBeCloseTo(pearson(pairs), 2);
+  });
+
+  it('correlates per decade, leaving out groups that are too small', async () => {
+    const decades = await ratingCorrelation(database.db, { groupBy: 'decade' });
+
+    expect(decades).toEqual([expect.objectContaining({ group: 1990, pairs: 2, correlation: 1 })]);
+  });
+});
+
+describe('rental analytics', () => {
+  beforeEach(seedRentals);
+
+  it('reports weekly trends with a moving average and running total', async () => {
+    const weeks = await rentalTrends(database.db, { window: 2 });
+
+    expect(weeks).toEqual([
+      { week: new Date('2024-01-01T00:00:00Z'), rentals: 2, returned: 1, lateFeeCents: 150, movingAverage: 2, cumulative: 2 },
+      { week: new Date('2024-01-08T00:00:00Z'), rentals: 1, returned: 0, lateFeeCents: 0, movingAverage: 1.5, cumulative: 3 },
+      { week: new Date('2024-01-22T00:00:00Z'), rentals: 1, returned: 0, lateFeeCents: 0, movingAverage: 1, cumulative: 4 }
+    ]);
+  });
+
+  it('limits trends to a date range', async () => {
+    const weeks = await rentalTrends(database.db, { from: new Date('2024-01-08'), to: new Date('2024-01-15') });
+
+    expect(weeks).toHaveLength(1);
+    expect(weeks[0]).toMatchObject({ rentals: 1, cumulative: 1 });
+  });
+
+  it('lists the most rented titles, even when the movie is gone', async () => {
+    const titles = await mostRentedTitles(database.db);
+
+    expect(titles[0]).toMatchObject({ title: 'The Godfather', year: 1972, rentals: 2, active: 1, lateFeeCents: 150 });
+    expect(titles).toContainEqual(expect.objectContaining({ title: null, year: null, rentals: 1 }));
+  });
+});
+
+describe('reports', () => {
+  it('renders CSV with one row per movie', async () => {
+    const report = await runReport(database.db, 'top-rated', { genres: 'Drama', perGroup: '1' });
+    const [header, ...rows] = renderReport(report, 'csv').trimEnd().split('\n');
+
+    expect(header).toBe('genre,decade,rank,title,year,rating,votes,_id');
+    expect(rows).toEqual([
+      `Drama,1970,1,The Godfather,1972,9.2,1038358,${movieId('The Godfather')}`,
+      `Drama,2000,1,Gladiator,2000,8.5,986497,${movieId('Gladiator')}`
+    ]);
+  });
+
+  it('keeps the envelope in JSON', async () => {
+    const report = await runReport(database.db, 'genres', { limit: '1' });
+
+    expect(JSON.parse(renderReport(report, 'json'))).toMatchObject({
+      name: 'genres',
+      params: { limit: '1' },
+      rows: [{ genre: 'Action', movies: 3 }]
+    });
+  });
+
+  it('rejects unknown reports and parameters', async () => {
+    await expect(runReport(database.db, 'nope')).rejects.toThrow(ReportError);
+    await expect(runReport(database.db, 'constructor')).rejects.toThrow(ReportError);
+    await expect(runReport(database.db, 'genres', { genre: 'Drama' })).rejects.toThrow(/accepted: limit/);
+    await expect(runReport(database.db, 'rental-trends', { from: 'yesterday' })).rejects.toThrow(/must be a date/);
+  });
+});
@@ -0,0 +1,65 @@
+import { Db } from 'mongodb';
+import { comparePassword } from '../../src/lib/password';
+import { anonymizeInto } from '../../src/services/anonymizer';
+import { SEED_PASSWORD } from '../../src/services/seeder';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix, userFixtures } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+let target: Db;
+
+beforeAll(() => {
+  target = database.client.db(`${database.name}_dev`);
+});
+
+afterAll(async () => {
+  await target.dropDatabase();
+});
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+  await target.dropDatabase();
+});
+
+describe('anonymizeInto', () => {
+  it('scrubs users but keeps their ids, so references still resolve', async () => {
+    const [ned] = userFixtures;
+    await database.db.collection('rentals').insertOne({
+      user: ned._id,
+      movie: movieFixtures[0]._id,
+      rentedAt: new Date(),
+      dueDate: new Date(),
+      status: 'active'
+    });
+
+    const result = await anonymizeInto(database.db, target, { seed: 'test' });
+
+    expect(result).toMatchObject({ users: userFixtures.length, copied: { movies: movieFixtures.length, rentals: 1, reviews: 0 } });
+    const users = await target.collection('users').find().toArray();
+    for (const user of users) {
+      const original = userFixtures.find(fixture => fixture._id.equals(user._id))!;
+      expect(user.email).not.toBe(original.email);
+      expect(user.name).not.toBe(original.name);
+      expect(await comparePassword(SEED_PASSWORD, user.password)).toBe(true);
+    }
+    const rental = await target.collection('rentals').findOne();
+    expect(await target.collection('users').countDocuments({ _id: rental!.user })).toBe(1);
+  });
+
+  it('gives each user the same fake name on every run', async () => {
+    await anonymizeInto(database.db, target, { seed: 'test' });
+    const first = await target.collection('users').find().sort({ _id: 1 }).toArray();
+
+    await anonymizeInto(database.db, target, { seed: 'test', replace: true });
+    const second = await target.collection('users').find().sort({ _id: 1 }).toArray();
+    expect(second.map(user => user.name)).toEqual(first.map(user => user.name));
+  });
+
+  it('refuses to overwrite data or its own source', async () => {
+    await anonymizeInto(database.db, target);
+
+    await expect(anonymizeInto(database.db, target)).rejects.toMatchObject({ code: 'NOT_EMPTY' });
+    await expect(anonymizeInto(database.db, database.db)).rejects.toMatchObject({ code: 'SAME_DATABASE' });
+  });
+});
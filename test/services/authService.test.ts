@@ -0,0 +1,128 @@
+import { loadConfig } from '../../src/lib/config';
+import { RefreshToken } from '../../src/models/RefreshToken';
+import { User } from '../../src/models/User';
+import {
+  AuthError,
+  login,
+  logout,
+  refresh,
+  revokeUserSessions,
+  verifyAccessToken
+} from '../../src/services/authService';
+import { useTestDatabase } from '../helpers/database';
+import { seedSampleMflix, userFixtures } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+const settings = {
+  ...loadConfig({ MONGODB_URI: 'mongodb://localhost:27017' }).auth,
+  jwtSecret: 'a-test-secret-that-is-long-enough!!',
+  maxFailedLogins: 3
+};
+
+const [ned] = userFixtures;
+
+async function failureOf(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (error) {
+    return error as AuthError;
+  }
+  throw new Error('Expected the promise to reject');
+}
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+describe('login', () => {
+  it('issues an access token carrying the role and a refresh token', async () => {
+    const tokens = await login(ned.email, ned.password, { userAgent: 'jest' }, settings);
+
+    expect(tokens).toMatchObject({ tokenType: 'Bearer', expiresIn: settings.accessTokenTtlSec });
+    expect(tokens.user).toMatchObject({ email: ned.email, role: 'customer' });
+    expect(verifyAccessToken(tokens.accessToken, settings)).toEqual({ userId: ned._id.toString(), role: 'customer' });
+    expect(await RefreshToken.countDocuments({ user: ned._id, userAgent: 'jest' })).toBe(1);
+  });
+
+  it('gives unknown emails and wrong passwords the same error', async () => {
+    const unknown = await failureOf(login('nobody@example.com', 'whatever', {}, settings));
+    const wrong = await failureOf(login(ned.email, 'wrong-password', {}, settings));
+
+    expect(unknown).toMatchObject({ code: 'INVALID_CREDENTIALS', message: wrong.message });
+    expect(wrong.code).toBe('INVALID_CREDENTIALS');
+  });
+
+  it('locks the account after repeated failures, even for the right password', async () => {
+    await failureOf(login(ned.email, 'wrong-1', {}, settings));
+    await failureOf(login(ned.email, 'wrong-2', {}, settings));
+    const third = await failureOf(login(ned.email, 'wrong-3', {}, settings));
+
+    expect(third.code).toBe('ACCOUNT_LOCKED');
+    expect(third.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    expect((await failureOf(login(ned.email, ned.password, {}, settings))).code).toBe('ACCOUNT_LOCKED');
+  });
+
+  it('lets the user in again once the lockout has passed and resets the counter', async () => {
+    await User.updateOne({ _id: ned._id }, { $set: { lockedUntil: new Date(Date.now() - 1000), failedLogins: 2 } });
+
+    await login(ned.email, ned.password, {}, settings);
+
+    const user = await User.findById(ned._id).lean();
+    expect(user).toMatchObject({ failedLogins: 0, lockedUntil: null });
+  });
+});
+
+describe('refresh', () => {
+  it('rotates the refresh token', async () => {
+    const first = await login(ned.email, ned.password, {}, settings);
+
+    const second = await refresh(first.refreshToken, {}, settings);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect((await failureOf(refresh(first.refreshToken, {}, settings))).code).toBe('INVALID_REFRESH_TOKEN');
+  });
+
+  it('revokes the whole family when a rotated token is reused', async () => {
+    const first = await login(ned.email, ned.password, {}, settings);
+    const second = await refresh(first.refreshToken, {}, settings);
+
+    await failureOf(refresh(first.refreshToken, {}, settings));
+
+    expect((await failureOf(refresh(second.refreshToken, {}, settings))).code).toBe('INVALID_REFRESH_TOKEN');
+  });
+
+  it('stops working for soft-deleted users', async () => {
+    const tokens = await login(ned.email, ned.password, {}, settings);
+    const user = await User.findById(ned._id);
+    await user!.softDelete();
+
+    expect((await failureOf(refresh(tokens.refreshToken, {}, settings))).code).toBe('INVALID_REFRESH_TOKEN');
+  });
+
+  it('expires refresh tokens through a TTL index', async () => {
+    const indexes = await RefreshToken.collection.indexes();
+
+    expect(indexes).toContainEqual(expect.objectContaining({ key: { expiresAt: 1 }, expireAfterSeconds: 0 }));
+  });
+});
+
+describe('logout / revokeUserSessions', () => {
+  it('ends the session of the refresh token', async () => {
+    const tokens = await login(ned.email, ned.password, {}, settings);
+
+    await logout(tokens.refreshToken);
+
+    expect((await failureOf(refresh(tokens.refreshToken, {}, settings))).code).toBe('INVALID_REFRESH_TOKEN');
+  });
+
+  it('ends every session of a user', async () => {
+    const phone = await login(ned.email, ned.password, {}, settings);
+    const laptop = await login(ned.email, ned.password, {}, settings);
+
+    expect(await revokeUserSessions(ned._id)).toBe(2);
+    expect((await failureOf(refresh(phone.refreshToken, {}, settings))).code).toBe('INVALID_REFRESH_TOKEN');
+    expect((await failureOf(refresh(laptop.refreshToken, {}, settings))).code).toBe('INVALID_REFRESH_TOKEN');
+  });
+});
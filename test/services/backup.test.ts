@@ -0,0 +1,117 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Int32, Long } from 'mongodb';
+import { getQueryCache } from '../../src/lib/cache';
+import { User } from '../../src/models/User';
+import { BackupFormat, createBackup, restoreBackup, selectCollections, verifyBackup } from '../../src/services/backup';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix, userFixtures } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+let root: string;
+
+beforeAll(async () => {
+  root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mflix-backup-'));
+});
+
+afterAll(async () => {
+  await fs.promises.rm(root, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+const backupDir = (name: string) => path.join(root, `${name}-${Date.now()}`);
+
+describe.each<BackupFormat>(['bson', 'ejson'])('%s backups', format => {
+  it('restore under new names with their documents, types and indexes', async () => {
+    await database.db.collection('counters').insertOne({ _id: 'visits' as never, small: new Int32(7), big: Long.fromString('9007199254740993') });
+    await database.db.collection('users').createIndex({ name: 1 }, { name: 'by_name' });
+    const dir = backupDir(format);
+
+    const { manifest } = await createBackup(database.client, database.name, { collections: ['counters', 'movies', 'users'], outputDir: dir, format });
+    expect(manifest.collections.map(entry => [entry.name, entry.documents])).toEqual([
+      ['counters', 1],
+      ['movies', movieFixtures.length],
+      ['users', userFixtures.length]
+    ]);
+
+    const result = await restoreBackup(database.db, dir, { rename: { users: 'users_copy', counters: 'counters_copy' }, include: ['users', 'counters'] });
+    expect(result.collections.map(entry => [entry.from, entry.to, entry.inserted])).toEqual([
+      ['counters', 'counters_copy', 1],
+      ['users', 'users_copy', userFixtures.length]
+    ]);
+
+    const counter = await database.db.collection('counters_copy').findOne({}, { promoteValues: false });
+    expect(counter?.small).toBeInstanceOf(Int32);
+    expect(counter?.big.toString()).toBe('9007199254740993');
+    const indexes = await database.db.collection('users_copy').indexes();
+    expect(indexes.map(index => index.name)).toContain('by_name');
+  });
+});
+
+describe('restoreBackup', () => {
+  it('keeps existing documents unless asked to drop first', async () => {
+    const dir = backupDir('drop');
+    await createBackup(database.client, database.name, { collections: ['users'], outputDir: dir });
+    await database.db.collection('users').deleteOne({ _id: userFixtures[0]._id });
+
+    const merged = await restoreBackup(database.db, dir);
+    expect(merged.collections[0]).toMatchObject({ inserted: 1, duplicates: userFixtures.length - 1 });
+
+    await database.db.collection('users').insertOne({ name: 'Added after the backup', email: 'late@example.com' });
+    const replaced = await restoreBackup(database.db, dir, { drop: true });
+    expect(replaced.collections[0]).toMatchObject({ inserted: userFixtures.length, duplicates: 0 });
+    expect(await database.db.collection('users').countDocuments()).toBe(userFixtures.length);
+  });
+
+  it('drops cached reads of the restored collections', async () => {
+    const dir = backupDir('cache');
+    await createBackup(database.client, database.name, { collections: ['users'], outputDir: dir });
+    await database.db.collection('users').insertOne({ name: 'Added after the backup', email: 'late@example.com' });
+    const userCount = () => getQueryCache().query(User.countDocuments());
+    expect(await userCount()).toBe(userFixtures.length + 1);
+
+    await restoreBackup(database.db, dir, { drop: true });
+    expect(await userCount()).toBe(userFixtures.length);
+  });
+
+  it('recreates views over their renamed source', async () => {
+    await database.db.createCollection('top_movies', { viewOn: 'movies', pipeline: [{ $match: { 'imdb.rating': { $gte: 9 } } }] });
+    const dir = backupDir('views');
+    await createBackup(database.client, database.name, { collections: ['movies', 'top_movies'], outputDir: dir });
+
+    await restoreBackup(database.db, dir, { rename: { movies: 'movies_copy', top_movies: 'top_movies_copy' } });
+    const top = await database.db.collection('top_movies_copy').find().toArray();
+    expect(top.map(movie => movie.title)).toEqual(['The Godfather']);
+  });
+
+  it('refuses damaged backups before writing anything', async () => {
+    const dir = backupDir('damaged');
+    const { manifest } = await createBackup(database.client, database.name, { collections: ['movies'], outputDir: dir });
+    await fs.promises.appendFile(path.join(dir, manifest.collections[0].file!), 'junk');
+
+    expect(await verifyBackup(dir)).toEqual(['movies']);
+    await expect(restoreBackup(database.db, dir, { rename: { movies: 'movies_copy' } })).rejects.toMatchObject({ code: 'CHECKSUM_MISMATCH' });
+    expect(await database.db.listCollections({ name: 'movies_copy' }).toArray()).toEqual([]);
+  });
+
+  it('rejects directories without a manifest', async () => {
+    await expect(restoreBackup(database.db, root)).rejects.toMatchObject({ code: 'NOT_A_BACKUP' });
+  });
+});
+
+describe('selectCollections', () => {
+  it('applies include and exclude patterns', async () => {
+    const dir = backupDir('select');
+    const { manifest } = await createBackup(database.client, database.name, { outputDir: dir });
+    const names = (options: Parameters<typeof selectCollections>[1]) => selectCollections(manifest, options).map(entry => entry.name);
+
+    expect(names({ include: ['mo*'] })).toEqual(['movies']);
+    expect(names({ exclude: ['m*', 'rentals'] })).not.toContain('movies');
+    expect(names({})).toEqual(manifest.collections.map(entry => entry.name));
+  });
+});
@@ -0,0 +1,140 @@
+import { ObjectId } from 'mongodb';
+import {
+  ChangeEvent,
+  ChangeListener,
+  createChangeListener,
+  DEFAULT_TOKEN_COLLECTION,
+  handlerAccepts
+} from '../../src/services/changeStreams';
+import { LiveEvent, nowRentedHandler, rentalStatsHandler, RENTAL_STATS_COLLECTION } from '../../src/services/liveEvents';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+const godfather = movieFixtures.find(movie => movie.title === 'The Godfather')!;
+
+async function waitFor(condition: () => boolean, timeoutMs = 10000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for change events');
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+let listener: ChangeListener | undefined;
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+afterEach(async () => {
+  await listener?.stop();
+  listener = undefined;
+});
+
+describe('handlerAccepts', () => {
+  const update = (updatedFields: Record<string, unknown>): ChangeEvent => ({
+    collection: 'movies',
+    operation: 'update',
+    documentId: new ObjectId(),
+    updatedFields,
+    removedFields: [],
+    at: new Date()
+  });
+  const handler = { name: 'h', collection: 'movies' as const, fields: ['rentedCount', 'imdb.rating'], handle: () => undefined };
+
+  it('filters updates by changed paths, including parents and children', () => {
+    expect(handlerAccepts(handler, update({ rentedCount: 2 }))).toBe(true);
+    expect(handlerAccepts(handler, update({ imdb: { rating: 8 } }))).toBe(true);
+    expect(handlerAccepts(handler, update({ 'imdb.votes': 10 }))).toBe(false);
+    expect(handlerAccepts(handler, update({ title: 'x' }))).toBe(false);
+  });
+
+  it('filters by collection and operation', () => {
+    expect(handlerAccepts({ ...handler, operations: ['insert'] }, update({ rentedCount: 2 }))).toBe(false);
+    expect(handlerAccepts(handler, { ...update({}), collection: 'users' })).toBe(false);
+    expect(handlerAccepts(handler, { ...update({}), operation: 'delete' })).toBe(true);
+  });
+});
+
+describe('createChangeListener', () => {
+  it('dispatches typed events for matching writes only', async () => {
+    const events: LiveEvent[] = [];
+    listener = createChangeListener(database.db).on(nowRentedHandler(event => { events.push(event); }));
+    await listener.start();
+
+    const movies = database.db.collection('movies');
+    await movies.updateOne({ _id: godfather._id }, { $set: { plot: 'Edited' } });
+    await movies.updateOne({ _id: godfather._id }, { $inc: { rentedCount: 1 } });
+
+    await waitFor(() => events.length > 0);
+    expect(events).toEqual([expect.objectContaining({
+      type: 'now-rented',
+      movieId: godfather._id,
+      title: 'The Godfather',
+      rentedCount: 1
+    })]);
+  });
+
+  it('never delivers user passwords', async () => {
+    const received: ChangeEvent<'users'>[] = [];
+    listener = createChangeListener(database.db).on({
+      name: 'spy',
+      collection: 'users',
+      handle: event => { received.push(event); }
+    });
+    await listener.start();
+
+    await database.db.collection('users').insertOne({ name: 'Arya', email: 'arya@winterfell.com', password: 'secret' });
+    await waitFor(() => received.length > 0);
+
+    expect(received[0].fullDocument).toMatchObject({ name: 'Arya' });
+    expect(received[0].fullDocument).not.toHaveProperty('password');
+  });
+
+  it('resumes after a restart without losing events', async () => {
+    const seen: string[] = [];
+    const recordTitles = () => createChangeListener(database.db, { name: 'resumable' }).on({
+      name: 'titles',
+      collection: 'movies',
+      operations: ['insert'],
+      handle: ({ fullDocument }) => { seen.push(fullDocument!.title); }
+    });
+
+    listener = recordTitles();
+    await listener.start();
+    await database.db.collection('movies').insertOne({ title: 'First' });
+    await waitFor(() => seen.length === 1);
+    await listener.stop();
+
+    // Written while nothing is listening
+    await database.db.collection('movies').insertOne({ title: 'Second' });
+    expect(await database.db.collection<{ _id: string }>(DEFAULT_TOKEN_COLLECTION).countDocuments({ _id: 'resumable' })).toBe(1);
+
+    listener = recordTitles();
+    await listener.start();
+    await waitFor(() => seen.length === 2);
+    expect(seen).toEqual(['First', 'Second']);
+  });
+
+  it('keeps going when a handler throws', async () => {
+    const onError = jest.fn();
+    const stats = database.db.collection(RENTAL_STATS_COLLECTION);
+    listener = createChangeListener(database.db, { onError })
+      .on({ name: 'broken', collection: 'rentals', handle: () => { throw new Error('boom'); } })
+      .on(rentalStatsHandler(database.db));
+    await listener.start();
+
+    const movie = godfather._id;
+    const { insertedId } = await database.db.collection('rentals').insertOne({ movie, status: 'active', lateFeeCents: 0 });
+    await database.db.collection('rentals').updateOne({ _id: insertedId }, { $set: { status: 'returned', lateFeeCents: 300 } });
+
+    await waitFor(() => listener!.processed === 2);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ handler: 'broken' }));
+    expect(await stats.findOne({ _id: movie })).toMatchObject({ active: 0, returned: 1, lateFeeCents: 300 });
+  });
+});
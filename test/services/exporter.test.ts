@@ -0,0 +1,109 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { BSON, Int32, ObjectId } from 'mongodb';
+import { exportCollection } from '../../src/services/exporter';
+import { useTestDatabase } from '../helpers/database';
+
+const { EJSON } = BSON;
+
+const database = useTestDatabase();
+let outputDir: string;
+
+const notes = [
+  { _id: new ObjectId('65a000000000000000000001'), title: 'Plain', imdb: { rating: 7.5 }, watchedAt: new Date('2024-01-02T03:04:05Z') },
+  { _id: new ObjectId('65a000000000000000000002'), title: 'He said "hi", then left', imdb: { rating: 6 }, tags: ['a', 'b'] },
+  { _id: new ObjectId('65a000000000000000000003'), title: 'Two\nlines', copies: new Int32(2) }
+];
+
+beforeAll(async () => {
+  outputDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mflix-export-'));
+});
+
+afterAll(async () => {
+  await fs.promises.rm(outputDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await database.reset();
+  await database.db.collection('notes').insertMany(notes.map(note => ({ ...note })));
+});
+
+const read = (filePath: string) => fs.promises.readFile(filePath, 'utf8');
+
+describe('exportCollection', () => {
+  it('writes one relaxed Extended JSON document per line', async () => {
+    const result = await exportCollection(database.db, 'notes', { format: 'jsonl', outputDir, sort: { _id: 1 } });
+
+    expect(result).toMatchObject({ exported: 3, filePath: path.join(outputDir, 'notes.jsonl') });
+    const lines = (await read(result.filePath)).trim().split('\n');
+    expect(lines).toHaveLength(3);
+    const first = EJSON.parse(lines[0], { relaxed: true });
+    expect(first._id).toEqual(notes[0]._id);
+    expect(first.watchedAt).toEqual(notes[0].watchedAt);
+  });
+
+  it('applies filter, projection, sort and limit', async () => {
+    const result = await exportCollection(database.db, 'notes', {
+      format: 'jsonl',
+      outputDir,
+      fileName: 'filtered.jsonl',
+      filter: { title: { $ne: 'Plain' } },
+      projection: { title: 1, _id: 0 },
+      sort: { _id: -1 },
+      limit: 1
+    });
+
+    expect(result.exported).toBe(1);
+    expect(JSON.parse(await read(result.filePath))).toEqual({ title: 'Two\nlines' });
+  });
+
+  it('writes CSV with flattened columns and escaped fields', async () => {
+    const result = await exportCollection(database.db, 'notes', { format: 'csv', outputDir, sort: { _id: 1 } });
+
+    expect(await read(result.filePath)).toBe([
+      '_id,title,imdb.rating,watchedAt,tags,copies',
+      '65a000000000000000000001,Plain,7.5,2024-01-02T03:04:05.000Z,,',
+      '65a000000000000000000002,"He said ""hi"", then left",6,,"[""a"",""b""]",',
+      '65a000000000000000000003,"Two\nlines",,,,2',
+      ''
+    ].join('\n'));
+  });
+
+  it('limits CSV columns to the given fields', async () => {
+    const result = await exportCollection(database.db, 'notes', { format: 'csv', outputDir, fileName: 'titles.csv', fields: ['title'], sort: { _id: 1 } });
+
+    expect((await read(result.filePath)).split('\n')[0]).toBe('title');
+  });
+
+  it('writes a canonical Extended JSON array that keeps number types', async () => {
+    const result = await exportCollection(database.db, 'notes', { format: 'ejson', outputDir, sort: { _id: 1 } });
+
+    const text = await read(result.filePath);
+    expect(text).toContain('"copies":{"$numberInt":"2"}');
+    const parsed = EJSON.parse(text, { relaxed: false }) as typeof notes;
+    expect(parsed.map(doc => doc.title)).toEqual(notes.map(note => note.title));
+    expect(parsed[2].copies).toBeInstanceOf(Int32);
+  });
+
+  it('gzips on request', async () => {
+    const result = await exportCollection(database.db, 'notes', { format: 'jsonl', outputDir, gzip: true });
+
+    expect(result.filePath.endsWith('notes.jsonl.gz')).toBe(true);
+    expect(gunzipSync(await fs.promises.readFile(result.filePath)).toString().trim().split('\n')).toHaveLength(3);
+  });
+
+  it('reports progress with the total when counting', async () => {
+    const progress: number[] = [];
+    await exportCollection(database.db, 'notes', {
+      format: 'jsonl',
+      outputDir,
+      countTotal: true,
+      progressEvery: 2,
+      onProgress: ({ exported, total }) => progress.push(exported, total!)
+    });
+
+    expect(progress).toEqual([2, 3, 3, 3]);
+  });
+});
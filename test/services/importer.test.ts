@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { importFile, importPresets } from '../../src/services/importer';
+import { getQueryCache } from '../../src/lib/cache';
+import { comparePassword, hashPassword } from '../../src/lib/password';
+import { Movie } from '../../src/models/Movie';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix, userFixtures } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mflix-import-'));
+});
+
+afterAll(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+async function writeRows(name: string, rows: object[]) {
+  const file = path.join(dir, name);
+  await fs.promises.writeFile(file, rows.map(row => JSON.stringify(row)).join('\n'));
+  return file;
+}
+
+describe('upsert imports', () => {
+  it('update only the fields in the file, keeping roles and soft deletion', async () => {
+    const [ned] = userFixtures;
+    const deletedAt = new Date('2024-01-01T00:00:00Z');
+    await database.db.collection('users').updateOne({ _id: ned._id }, { $set: { role: 'admin', failedLogins: 2, deletedAt, deletedBy: 'staff' } });
+    const file = await writeRows('users.jsonl', [
+      { name: 'Eddard Stark', email: ned.email, password: 'winteriscoming' },
+      { name: 'Sansa Stark', email: 'sansa@winterfell.com', password: 'lemoncakes' }
+    ]);
+
+    const result = await importFile(database.db, 'users', file, { ...importPresets.users, mode: 'upsert', reportPath: path.join(dir, 'users.rejected.jsonl') });
+
+    expect(result).toMatchObject({ processed: 2, upserted: 1, modified: 1, rejected: 0 });
+    expect(await database.db.collection('users').findOne({ _id: ned._id })).toMatchObject({
+      name: 'Eddard Stark',
+      role: 'admin',
+      failedLogins: 2,
+      deletedAt,
+      deletedBy: 'staff'
+    });
+    // New documents still get the schema defaults
+    expect(await database.db.collection('users').findOne({ email: 'sansa@winterfell.com' })).toMatchObject({
+      role: 'customer',
+      failedLogins: 0,
+      deletedAt: null
+    });
+  });
+
+  it('leave inventory, rental counters and ratings of existing movies alone', async () => {
+    const userRating = { average: 4.5, count: 2, total: 9 };
+    await database.db.collection('movies').updateOne(
+      { title: 'Gladiator' },
+      { $set: { 'imdb.id': 'tt0172495', rentedCount: 4, userRating } }
+    );
+    const file = await writeRows('movies.jsonl', [{ title: 'Gladiator', imdb: { id: 'tt0172495', rating: 8.6 } }]);
+
+    const result = await importFile(database.db, 'movies', file, { ...importPresets.movies, mode: 'upsert' });
+
+    expect(result).toMatchObject({ processed: 1, modified: 1, rejected: 0 });
+    expect(await database.db.collection('movies').findOne({ title: 'Gladiator' })).toMatchObject({
+      copies: 1,
+      rentedCount: 4,
+      userRating,
+      genres: ['Action', 'Drama'],
+      imdb: { id: 'tt0172495', rating: 8.6, votes: 986497 }
+    });
+  });
+});
+
+describe('query cache', () => {
+  it('drops cached reads of the collection it writes to', async () => {
+    const movieCount = () => getQueryCache().query(Movie.countDocuments());
+    expect(await movieCount()).toBe(movieFixtures.length);
+    const file = await writeRows('new-movie.jsonl', [{ title: 'Gladiator II', imdb: { id: 'tt9218128' } }]);
+
+    await importFile(database.db, 'movies', file, { ...importPresets.movies, reportPath: path.join(dir, 'new-movie.rejected.jsonl') });
+
+    expect(await movieCount()).toBe(movieFixtures.length + 1);
+  });
+});
+
+describe('user passwords', () => {
+  it('are hashed even when they already look like a hash', async () => {
+    const hashLike = await hashPassword('lemoncakes');
+    const file = await writeRows('hash-like.jsonl', [{ name: 'Sansa Stark', email: 'sansa@winterfell.com', password: hashLike }]);
+
+    await importFile(database.db, 'users', file, { ...importPresets.users, reportPath: path.join(dir, 'hash-like.rejected.jsonl') });
+
+    const { password } = (await database.db.collection('users').findOne({ email: 'sansa@winterfell.com' }))!;
+    expect(password).not.toBe(hashLike);
+    expect(await comparePassword(hashLike, password)).toBe(true);
+  });
+
+  it('keep their hashes when the file is a trusted dump', async () => {
+    const hash = await hashPassword('lemoncakes');
+    const file = await writeRows('dump.jsonl', [
+      { name: 'Sansa Stark', email: 'sansa@winterfell.com', password: hash },
+      { name: 'Arya Stark', email: 'arya@winterfell.com', password: 'needle' }
+    ]);
+
+    await importFile(database.db, 'users', file, { ...importPresets.users, passwordsHashed: true, reportPath: path.join(dir, 'dump.rejected.jsonl') });
+
+    expect(await database.db.collection('users').findOne({ email: 'sansa@winterfell.com' })).toMatchObject({ password: hash });
+    // Anything that is not a hash still never lands in plain text
+    const arya = (await database.db.collection('users').findOne({ email: 'arya@winterfell.com' }))!;
+    expect(await comparePassword('needle', arya.password)).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+import { Movie } from '../../src/models/Movie';
+import { User } from '../../src/models/User';
+import {
+  analyzePlan,
+  diffIndexes,
+  explainQueries,
+  QUERIES,
+  syncIndexes,
+  unusedIndexes
+} from '../../src/services/indexManager';
+import { useTestDatabase } from '../helpers/database';
+import { seedSampleMflix } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+const movies = () => database.db.collection('movies');
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+  await syncIndexes({ dropUnknown: true }, [Movie, User]);
+});
+
+describe('diffIndexes', () => {
+  it('reports nothing to do once the models are synced', async () => {
+    const [movieDiff] = await diffIndexes([Movie]);
+
+    expect(movieDiff).toMatchObject({ model: 'Movie', collection: 'movies', missing: [], unknown: [] });
+    expect(movieDiff.inSync).toEqual(expect.arrayContaining(['genres_1', 'year_1', 'imdb.rating_-1', 'title_text_plot_text']));
+  });
+
+  it('finds missing, unknown and changed indexes', async () => {
+    await movies().dropIndex('year_1');
+    await movies().createIndex({ directors: 1 });
+    await movies().dropIndex('genres_1');
+    await movies().createIndex({ genres: 1 }, { sparse: true });
+
+    const [movieDiff] = await diffIndexes([Movie]);
+
+    expect(movieDiff.missing.map(index => index.name).sort()).toEqual(['genres_1', 'year_1']);
+    expect(movieDiff.unknown.map(index => index.name).sort()).toEqual(['directors_1', 'genres_1']);
+    expect(movieDiff.unknown.find(index => index.name === 'genres_1')?.options).toMatchObject({ sparse: true });
+  });
+});
+
+describe('syncIndexes', () => {
+  beforeEach(async () => {
+    await movies().dropIndex('year_1');
+    await movies().createIndex({ directors: 1 });
+  });
+
+  it('only plans changes on a dry run', async () => {
+    const actions = await syncIndexes({ dryRun: true }, [Movie]);
+
+    expect(actions).toEqual([
+      expect.objectContaining({ action: 'drop', name: 'directors_1', status: 'skipped' }),
+      expect.objectContaining({ action: 'create', name: 'year_1', status: 'planned' })
+    ]);
+    const names = (await movies().indexes()).map(index => index.name);
+    expect(names).toContain('directors_1');
+    expect(names).not.toContain('year_1');
+  });
+
+  it('creates missing indexes but keeps unknown ones unless asked to drop them', async () => {
+    await syncIndexes({}, [Movie]);
+    let names = (await movies().indexes()).map(index => index.name);
+    expect(names).toEqual(expect.arrayContaining(['year_1', 'directors_1']));
+
+    const actions = await syncIndexes({ dropUnknown: true }, [Movie]);
+    expect(actions).toEqual([expect.objectContaining({ action: 'drop', name: 'directors_1', status: 'applied' })]);
+    names = (await movies().indexes()).map(index => index.name);
+    expect(names).not.toContain('directors_1');
+  });
+
+  it('skips an index declared with other options while the old one is kept', async () => {
+    await movies().dropIndex('genres_1');
+    await movies().createIndex({ genres: 1 }, { sparse: true });
+
+    const actions = await syncIndexes({}, [Movie]);
+
+    expect(actions).toContainEqual(expect.objectContaining({
+      action: 'create',
+      name: 'genres_1',
+      status: 'skipped',
+      reason: 'conflicts with existing index genres_1'
+    }));
+  });
+});
+
+describe('explainQueries', () => {
+  it('flags collection scans', async () => {
+    const [plan] = await explainQueries(database.db, [QUERIES['movies-by-director']]);
+
+    expect(plan.stages).toContain('COLLSCAN');
+    expect(plan.issues.map(issue => issue.type)).toContain('COLLSCAN');
+  });
+
+  it('accepts plans that use an index', async () => {
+    const [plan] = await explainQueries(database.db, [QUERIES['user-by-email']]);
+
+    expect(plan).toMatchObject({ nReturned: 1, docsExamined: 1, issues: [] });
+    expect(plan.indexes).toContain('email_1');
+  });
+
+  it('flags sorts done in memory', async () => {
+    const [plan] = await explainQueries(database.db, [QUERIES['users-by-name']]);
+
+    expect(plan.issues.map(issue => issue.type)).toContain('UNINDEXED_SORT');
+  });
+
+  it('flags unanchored regexes that walk the whole index', async () => {
+    const [plan] = await explainQueries(database.db, [QUERIES['users-by-email-domain']], {
+      minExamined: 1,
+      maxExaminedPerResult: 1
+    });
+
+    expect(plan.nReturned).toBe(0);
+    expect(plan.keysExamined).toBeGreaterThan(1);
+    expect(plan.issues.map(issue => issue.type)).toEqual(['LOW_SELECTIVITY']);
+  });
+});
+
+describe('analyzePlan', () => {
+  it('reads slot-based plans wrapped in queryPlan', () => {
+    const plan = analyzePlan(QUERIES['movies-by-year'], {
+      queryPlanner: {
+        winningPlan: {
+          queryPlan: { stage: 'SORT', inputStage: { stage: 'FETCH', inputStage: { stage: 'IXSCAN', indexName: 'year_1' } } }
+        }
+      },
+      executionStats: { nReturned: 2, totalKeysExamined: 2, totalDocsExamined: 2, executionTimeMillis: 0 }
+    });
+
+    expect(plan).toMatchObject({ stages: ['SORT', 'FETCH', 'IXSCAN'], indexes: ['year_1'] });
+    expect(plan.issues.map(issue => issue.type)).toEqual(['UNINDEXED_SORT']);
+  });
+});
+
+describe('unusedIndexes', () => {
+  it('lists indexes no query has used', async () => {
+    await movies().find({ genres: 'Drama' }).toArray();
+
+    const unused = await unusedIndexes(database.db, ['movies']);
+
+    const names = unused.map(index => index.name);
+    expect(names).toContain('year_1');
+    expect(names).not.toContain('genres_1');
+    expect(names).not.toContain('_id_');
+  });
+});
@@ -0,0 +1,199 @@
+import { Job } from '../../src/models/Job';
+import { JobSchedule } from '../../src/models/JobSchedule';
+import { overdueRemindersHandler, OverdueReminder } from '../../src/services/jobHandlers';
+import {
+  claimJob,
+  completeJob,
+  createWorker,
+  enqueue,
+  enqueueDueSchedules,
+  failJob,
+  JobEvent,
+  jobPolicy,
+  retryJob,
+  scheduleJob
+} from '../../src/services/jobQueue';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix, userFixtures } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+const MINUTE_MS = 60 * 1000;
+const later = (ms: number) => new Date(Date.now() + ms);
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+describe('claiming', () => {
+  it('hands out due jobs oldest first, one worker each', async () => {
+    const first = await enqueue('export-collection', { collection: 'movies' }, { runAt: new Date(Date.now() - 1000) });
+    await enqueue('export-collection', { collection: 'users' });
+    await enqueue('export-collection', { collection: 'rentals' }, { delayMs: MINUTE_MS });
+
+    const claimed = await claimJob(['export-collection'], 'worker-a');
+    expect(claimed?._id).toEqual(first._id);
+    expect(claimed).toMatchObject({ status: 'running', lockedBy: 'worker-a', attempts: 1 });
+
+    expect((await claimJob(['export-collection'], 'worker-b'))?.payload).toEqual({ collection: 'users' });
+    expect(await claimJob(['export-collection'], 'worker-b')).toBeNull();
+    expect(await claimJob(['refresh-movie-stats'], 'worker-b')).toBeNull();
+  });
+
+  it('refuses a second pending job with the same dedupe key', async () => {
+    await enqueue('refresh-movie-stats', {}, { dedupeKey: 'stats' });
+
+    await expect(enqueue('refresh-movie-stats', {}, { dedupeKey: 'stats' })).rejects.toMatchObject({ code: 'ALREADY_QUEUED' });
+    await claimJob(['refresh-movie-stats'], 'worker-a');
+    await expect(enqueue('refresh-movie-stats', {}, { dedupeKey: 'stats' })).resolves.toBeDefined();
+  });
+
+  it('gives the job to another worker once the visibility timeout passes', async () => {
+    const job = await enqueue('export-collection', { collection: 'movies' });
+    await claimJob(['export-collection'], 'worker-a', { visibilityTimeoutMs: MINUTE_MS });
+
+    expect(await claimJob(['export-collection'], 'worker-b')).toBeNull();
+    const reclaimed = await claimJob(['export-collection'], 'worker-b', { now: later(2 * MINUTE_MS) });
+    expect(reclaimed).toMatchObject({ lockedBy: 'worker-b', attempts: 2 });
+
+    // The first worker finishing late changes nothing
+    expect(await completeJob(job._id, 'worker-a')).toBe(false);
+    expect(await completeJob(job._id, 'worker-b', { exported: 6 })).toBe(true);
+    expect(await Job.findById(job._id).lean()).toMatchObject({ status: 'completed', result: { exported: 6 } });
+  });
+
+  it('keeps each type under its running limit', async () => {
+    await enqueue('export-collection', { collection: 'movies' });
+    await enqueue('export-collection', { collection: 'users' });
+    await enqueue('overdue-reminders');
+    const types = ['export-collection', 'overdue-reminders'];
+    const limits = { 'export-collection': 1 };
+
+    expect((await claimJob(types, 'worker-a', { limits }))?.type).toBe('export-collection');
+    expect((await claimJob(types, 'worker-b', { limits }))?.type).toBe('overdue-reminders');
+    expect(await claimJob(types, 'worker-b', { limits })).toBeNull();
+  });
+});
+
+describe('failures', () => {
+  it('retries with exponential backoff, then dead-letters the job', async () => {
+    const job = await enqueue('export-collection', {}, { maxAttempts: 2 });
+
+    const first = await claimJob(['export-collection'], 'worker-a');
+    const before = Date.now();
+    expect(await failJob(first!, 'worker-a', new Error('disk full'))).toEqual({ updated: true, willRetry: true });
+
+    const retried = await Job.findById(job._id);
+    expect(retried).toMatchObject({ status: 'pending', lastError: 'disk full', lockedBy: null });
+    expect(retried!.runAt.getTime()).toBeGreaterThanOrEqual(before + jobPolicy.backoffBaseMs);
+    expect(await claimJob(['export-collection'], 'worker-a')).toBeNull();
+
+    const second = await claimJob(['export-collection'], 'worker-a', { now: later(jobPolicy.backoffBaseMs + 1000) });
+    expect(await failJob(second!, 'worker-a', new Error('disk still full'))).toEqual({ updated: true, willRetry: false });
+    expect(await Job.findById(job._id).lean()).toMatchObject({ status: 'dead', attempts: 2, lastError: 'disk still full' });
+  });
+
+  it('dead-letters jobs whose worker keeps dying', async () => {
+    const job = await enqueue('export-collection', {}, { maxAttempts: 1 });
+    await claimJob(['export-collection'], 'worker-a', { visibilityTimeoutMs: MINUTE_MS });
+
+    expect(await claimJob(['export-collection'], 'worker-b', { now: later(2 * MINUTE_MS) })).toBeNull();
+    expect(await Job.findById(job._id).lean()).toMatchObject({ status: 'dead', attempts: 1 });
+  });
+
+  it('requeues dead jobs on request', async () => {
+    const job = await enqueue('export-collection', {}, { maxAttempts: 1 });
+    await expect(retryJob(job._id)).rejects.toMatchObject({ code: 'NOT_DEAD' });
+    await failJob((await claimJob(['export-collection'], 'worker-a'))!, 'worker-a', new Error('boom'));
+
+    expect(await retryJob(job._id)).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(await claimJob(['export-collection'], 'worker-a')).not.toBeNull();
+    await expect(retryJob('000000000000000000000000')).rejects.toMatchObject({ code: 'JOB_NOT_FOUND' });
+  });
+
+  it('leaves a failed job dead when a job with its dedupe key was queued meanwhile', async () => {
+    const job = await enqueue('refresh-movie-stats', {}, { dedupeKey: 'stats' });
+    const claimed = await claimJob(['refresh-movie-stats'], 'worker-a');
+    const newer = await enqueue('refresh-movie-stats', {}, { dedupeKey: 'stats' });
+
+    expect(await failJob(claimed!, 'worker-a', new Error('boom'))).toEqual({ updated: true, willRetry: false });
+    expect(await Job.findById(job._id).lean()).toMatchObject({ status: 'dead', lastError: expect.stringMatching(/^boom \(not retried/) });
+
+    await expect(retryJob(job._id)).rejects.toMatchObject({ code: 'ALREADY_QUEUED' });
+    expect(await Job.findById(newer._id).lean()).toMatchObject({ status: 'pending' });
+  });
+});
+
+describe('schedules', () => {
+  it('enqueues each occurrence once and moves to the next one', async () => {
+    const now = new Date('2024-01-01T10:07:00Z');
+    const schedule = await scheduleJob('stats', '*/15 * * * *', 'refresh-movie-stats', { full: true }, { now });
+    expect(schedule.nextRunAt.toISOString()).toBe('2024-01-01T10:15:00.000Z');
+
+    expect(await enqueueDueSchedules(new Date('2024-01-01T10:14:00Z'))).toEqual([]);
+    const due = new Date('2024-01-01T10:16:00Z');
+    const [enqueued, again] = await Promise.all([enqueueDueSchedules(due), enqueueDueSchedules(due)]);
+
+    expect([...enqueued, ...again]).toHaveLength(1);
+    expect(await Job.find({ schedule: 'stats' }).lean()).toMatchObject([{ type: 'refresh-movie-stats', payload: { full: true } }]);
+    expect((await JobSchedule.findById('stats'))?.nextRunAt.toISOString()).toBe('2024-01-01T10:30:00.000Z');
+  });
+
+  it('rejects invalid cron expressions', async () => {
+    await expect(scheduleJob('bad', '61 * * * *', 'refresh-movie-stats')).rejects.toThrow(/Invalid cron/);
+  });
+});
+
+describe('createWorker', () => {
+  it('runs due jobs with the matching handler and records the outcome', async () => {
+    const ok = await enqueue('echo', { value: 42 });
+    const broken = await enqueue('explode', {}, { maxAttempts: 1 });
+    const events: JobEvent[] = [];
+
+    const worker = createWorker({
+      concurrency: 2,
+      handlers: {
+        echo: async ({ payload }) => ({ echoed: payload.value }),
+        explode: async () => {
+          throw new Error('kaboom');
+        }
+      },
+      onEvent: event => events.push(event)
+    });
+
+    expect(await worker.runOnce()).toBe(2);
+    expect(events.map(event => event.type).sort()).toEqual(['completed', 'failed']);
+    expect(await Job.findById(ok._id).lean()).toMatchObject({ status: 'completed', result: { echoed: 42 } });
+    expect(await Job.findById(broken._id).lean()).toMatchObject({ status: 'dead', lastError: 'kaboom' });
+  });
+});
+
+describe('overdueRemindersHandler', () => {
+  it('sends one reminder per user, at most once a day', async () => {
+    const [ned] = userFixtures;
+    const overdue = (title: string) => ({
+      user: ned._id,
+      movie: movieFixtures.find(movie => movie.title === title)!._id,
+      rentedAt: new Date(Date.now() - 10 * 24 * 60 * MINUTE_MS),
+      dueDate: new Date(Date.now() - 3 * 24 * 60 * MINUTE_MS),
+      status: 'active',
+      extensions: 0,
+      lateFeeCents: 0
+    });
+    await database.db.collection('rentals').insertMany([overdue('Gladiator'), overdue('The Godfather')]);
+
+    const reminders: OverdueReminder[] = [];
+    const handler = overdueRemindersHandler(reminder => {
+      reminders.push(reminder);
+    });
+    const context = { id: ned._id, type: 'overdue-reminders', payload: {}, attempts: 1, signal: new AbortController().signal };
+
+    expect(await handler(context)).toEqual({ reminded: 1, rentals: 2 });
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0]).toMatchObject({ email: ned.email });
+    expect(reminders[0].rentals.map(rental => rental.title).sort()).toEqual(['Gladiator', 'The Godfather']);
+
+    expect(await handler(context)).toEqual({ reminded: 0, rentals: 0 });
+  });
+});
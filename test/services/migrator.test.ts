@@ -0,0 +1,107 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MigrationError, migrateDown, migrateUp, migrationStatus } from '../../src/services/migrator';
+import { useTestDatabase } from '../helpers/database';
+
+const database = useTestDatabase();
+let directory: string;
+
+// Plain JS so the runner can require them without compiling
+const migration = (collection: string) => `
+exports.description = 'Fill ${collection}';
+exports.up = async ({ db }) => { await db.collection('${collection}').insertOne({ step: '${collection}' }); };
+exports.down = async ({ db }) => { await db.collection('${collection}').deleteMany({}); };
+`;
+
+const log = () => undefined;
+const locks = () => database.db.collection<{ _id: string; owner: string; acquiredAt: Date; expiresAt: Date }>('migrations_lock');
+const options = () => ({ directory, log });
+const states = async () => (await migrationStatus(database.db, options())).map(({ name, state }) => [name, state]);
+
+beforeEach(async () => {
+  await database.reset();
+  directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'mflix-migrations-'));
+  await fs.promises.writeFile(path.join(directory, '001-first.js'), migration('first'));
+  await fs.promises.writeFile(path.join(directory, '002-second.js'), migration('second'));
+});
+
+afterEach(async () => {
+  await fs.promises.rm(directory, { recursive: true, force: true });
+});
+
+describe('migrateUp', () => {
+  it('applies pending migrations in order, once', async () => {
+    expect((await migrateUp(database.db, options())).map(({ name }) => name)).toEqual(['001-first', '002-second']);
+    expect(await migrateUp(database.db, options())).toEqual([]);
+
+    expect(await states()).toEqual([['001-first', 'applied'], ['002-second', 'applied']]);
+    expect(await database.db.collection('second').countDocuments()).toBe(1);
+  });
+
+  it('only reports what it would do in dry-run mode', async () => {
+    const messages: string[] = [];
+    const pending = await migrateUp(database.db, { directory, dryRun: true, log: message => messages.push(message) });
+
+    expect(pending).toHaveLength(2);
+    expect(messages[0]).toMatch(/Would apply 001-first/);
+    expect(await states()).toEqual([['001-first', 'pending'], ['002-second', 'pending']]);
+    expect(await database.db.collection('first').countDocuments()).toBe(0);
+  });
+
+  it('refuses to run when an applied migration was edited', async () => {
+    await migrateUp(database.db, options());
+    await fs.promises.appendFile(path.join(directory, '001-first.js'), '\n// edited\n');
+    await fs.promises.writeFile(path.join(directory, '003-third.js'), migration('third'));
+
+    expect(await states()).toEqual([['001-first', 'modified'], ['002-second', 'applied'], ['003-third', 'pending']]);
+    await expect(migrateUp(database.db, options())).rejects.toThrow(/001-first \(modified\)/);
+    expect(await database.db.collection('third').countDocuments()).toBe(0);
+  });
+
+  it('refuses to run while another process holds the lock', async () => {
+    const now = Date.now();
+    await locks().insertOne({
+      _id: 'migrations',
+      owner: 'other-host:1',
+      acquiredAt: new Date(now),
+      expiresAt: new Date(now + 60 * 1000)
+    });
+
+    await expect(migrateUp(database.db, options())).rejects.toThrow(MigrationError);
+    await expect(migrateUp(database.db, options())).rejects.toThrow(/locked by other-host:1/);
+    expect(await states()).toEqual([['001-first', 'pending'], ['002-second', 'pending']]);
+  });
+
+  it('takes over an expired lock and releases it afterwards', async () => {
+    await locks().insertOne({
+      _id: 'migrations',
+      owner: 'crashed-host:1',
+      acquiredAt: new Date(0),
+      expiresAt: new Date(1000)
+    });
+
+    expect(await migrateUp(database.db, options())).toHaveLength(2);
+    expect(await locks().countDocuments()).toBe(0);
+  });
+});
+
+describe('migrateDown', () => {
+  it('reverts the newest migrations first', async () => {
+    await migrateUp(database.db, options());
+
+    expect((await migrateDown(database.db, 1, options())).map(({ name }) => name)).toEqual(['002-second']);
+    expect(await database.db.collection('second').countDocuments()).toBe(0);
+    expect(await states()).toEqual([['001-first', 'applied'], ['002-second', 'pending']]);
+
+    await migrateDown(database.db, 5, options());
+    expect(await states()).toEqual([['001-first', 'pending'], ['002-second', 'pending']]);
+  });
+
+  it('leaves everything in place in dry-run mode', async () => {
+    await migrateUp(database.db, options());
+
+    expect(await migrateDown(database.db, 2, { ...options(), dryRun: true })).toHaveLength(2);
+    expect(await states()).toEqual([['001-first', 'applied'], ['002-second', 'applied']]);
+  });
+});
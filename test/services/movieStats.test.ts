@@ -0,0 +1,95 @@
+import { Movie } from '../../src/models/Movie';
+import {
+  getGenreStats,
+  MOVIE_STATS_COLLECTION,
+  movieStatsStaleness,
+  refreshMovieStats,
+  VIEW_STATE_COLLECTION
+} from '../../src/services/movieStats';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+const movieId = (title: string) => movieFixtures.find(movie => movie.title === title)!._id;
+
+const statsOf = (genre: string) => database.db.collection(MOVIE_STATS_COLLECTION).findOne({ _id: genre as never });
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+  // What migration 002 does for the real dataset
+  await database.db.collection('movies').updateMany({}, [{ $set: { updatedAt: { $toDate: '$_id' } } }]);
+});
+
+describe('refreshMovieStats', () => {
+  it('starts with a full refresh of every genre', async () => {
+    const result = await refreshMovieStats(database.db);
+
+    expect(result).toMatchObject({ mode: 'full', changedMovies: movieFixtures.length, genres: 10 });
+    expect(await statsOf('Action')).toMatchObject({ movies: 3, ratedMovies: 3, avgRating: 7.7, totalRentals: 0 });
+    expect(await statsOf('Documentary')).toMatchObject({ movies: 1, ratedMovies: 0, avgRating: null });
+  });
+
+  it('only recomputes the genres of movies changed since the last run', async () => {
+    await refreshMovieStats(database.db);
+    const before = await statsOf('Western');
+
+    const godfather = await Movie.findById(movieId('The Godfather'));
+    await godfather!.rent();
+
+    const result = await refreshMovieStats(database.db);
+    expect(result).toMatchObject({ mode: 'incremental', changedMovies: 1, genres: 2 });
+    expect(await statsOf('Crime')).toMatchObject({ totalRentals: 1, rentedMovies: 1, lastRented: expect.any(Date) });
+    expect(await statsOf('Drama')).toMatchObject({ totalRentals: 1 });
+    expect((await statsOf('Western'))?.refreshedAt).toEqual(before?.refreshedAt);
+  });
+
+  it('does nothing when nothing changed', async () => {
+    await refreshMovieStats(database.db);
+
+    expect(await refreshMovieStats(database.db)).toMatchObject({ mode: 'incremental', changedMovies: 0, genres: 0 });
+  });
+
+  it('drops genres without movies on a full refresh', async () => {
+    await refreshMovieStats(database.db);
+    await database.db.collection('movies').deleteOne({ _id: movieId('Untitled Documentary') });
+
+    await refreshMovieStats(database.db, { full: true });
+
+    expect(await statsOf('Documentary')).toBeNull();
+  });
+
+  it('skips the run while another process holds the lock', async () => {
+    await database.db.collection(VIEW_STATE_COLLECTION).insertOne({
+      _id: MOVIE_STATS_COLLECTION as never,
+      lockedBy: 'elsewhere',
+      lockExpiresAt: new Date(Date.now() + 60000)
+    });
+
+    expect(await refreshMovieStats(database.db)).toBeNull();
+    expect(await database.db.collection(MOVIE_STATS_COLLECTION).countDocuments()).toBe(0);
+  });
+});
+
+describe('reading the view', () => {
+  it('reports staleness', async () => {
+    expect(await movieStatsStaleness(database.db)).toMatchObject({ refreshedAt: null, stale: true });
+
+    await refreshMovieStats(database.db);
+    expect(await movieStatsStaleness(database.db)).toMatchObject({ pendingChanges: 0, stale: false });
+
+    await Movie.updateOne({ _id: movieId('Gladiator') }, { $set: { copies: 5 } });
+    expect(await movieStatsStaleness(database.db)).toMatchObject({ pendingChanges: 1, stale: true });
+  });
+
+  it('sorts and filters genres', async () => {
+    await refreshMovieStats(database.db);
+
+    const { genres } = await getGenreStats(database.db, { sort: 'rating', limit: 2 });
+    expect(genres.map(stats => stats._id)).toEqual(['Crime', 'Drama']);
+
+    const { genres: picked } = await getGenreStats(database.db, { genres: ['Western', 'Short'], sort: 'genre' });
+    expect(picked.map(stats => stats._id)).toEqual(['Short', 'Western']);
+  });
+});
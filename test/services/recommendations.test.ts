@@ -0,0 +1,92 @@
+import { ObjectId } from 'mongodb';
+import { Review } from '../../src/models/Review';
+import { getRecommendations } from '../../src/services/recommendations';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix, userFixtures } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+const [ned, robert, catelyn] = userFixtures;
+const movieId = (title: string) => movieFixtures.find(movie => movie.title === title)!._id;
+const jurassicPark = movieId('Jurassic Park');
+
+async function rent(user: ObjectId, ...titles: string[]) {
+  await database.db.collection('rentals').insertMany(titles.map(title => ({
+    user,
+    movie: movieId(title),
+    rentedAt: new Date('2024-01-01T10:00:00Z'),
+    dueDate: new Date('2024-01-08T10:00:00Z'),
+    status: 'returned',
+    extensions: 0,
+    lateFeeCents: 0
+  })));
+}
+
+const titlesOf = (recommendations: { movie: { title: string } }[]) => recommendations.map(({ movie }) => movie.title);
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+describe('getRecommendations', () => {
+  it('falls back to top-rated titles for users without history', async () => {
+    const recommendations = await getRecommendations(catelyn._id, 2);
+
+    expect(titlesOf(recommendations)).toEqual(['The Godfather', 'Gladiator']);
+    expect(recommendations[0].explanation).toBe('Top rated overall');
+  });
+
+  it('mixes co-rentals and similar titles, explaining each and skipping what was rented', async () => {
+    await rent(ned._id, 'Jurassic Park');
+    await rent(robert._id, 'Jurassic Park', 'Gladiator');
+
+    const recommendations = await getRecommendations(ned._id, 4);
+
+    expect(titlesOf(recommendations)).toEqual([
+      'Gladiator',
+      'The Lost World: Jurassic Park',
+      'Pirates of the Caribbean: The Curse of the Black Pearl',
+      'The Godfather'
+    ]);
+    expect(recommendations[0].reasons).toEqual([{ type: 'co-rented', because: ['Jurassic Park'], renters: 1 }]);
+    expect(recommendations[0].explanation).toBe('Because you watched Jurassic Park: 1 other renter(s) also rented this');
+    expect(recommendations[1].reasons[0]).toMatchObject({
+      type: 'similar',
+      because: 'Jurassic Park',
+      directors: ['Steven Spielberg'],
+      cast: ['Jeff Goldblum']
+    });
+    expect(recommendations[1].explanation).toBe('Because you watched Jurassic Park: also directed by Steven Spielberg');
+    expect(recommendations[3].reasons).toEqual([{ type: 'top-rated', genre: null }]);
+  });
+
+  it('does not build on titles the user rated poorly, but still leaves them out', async () => {
+    await rent(ned._id, 'Jurassic Park');
+    await Review.create({ user: ned._id, movie: jurassicPark, stars: 1 });
+
+    const recommendations = await getRecommendations(ned._id, 3);
+
+    expect(titlesOf(recommendations)).toEqual([
+      'The Godfather',
+      'Gladiator',
+      'Pirates of the Caribbean: The Curse of the Black Pearl'
+    ]);
+    expect(recommendations.every(({ reasons }) => reasons[0].type === 'top-rated')).toBe(true);
+  });
+
+  it('copes with history whose movies have no directors, cast or genres', async () => {
+    const { insertedId } = await database.db.collection('movies').insertOne({ title: 'Bare Reel' });
+    await database.db.collection('rentals').insertOne({
+      user: ned._id,
+      movie: insertedId,
+      rentedAt: new Date('2024-01-01T10:00:00Z'),
+      dueDate: new Date('2024-01-08T10:00:00Z'),
+      status: 'returned'
+    });
+
+    const recommendations = await getRecommendations(ned._id, 2);
+
+    expect(titlesOf(recommendations)).toEqual(['The Godfather', 'Gladiator']);
+  });
+});
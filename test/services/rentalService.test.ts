@@ -0,0 +1,139 @@
+import { Types } from 'mongoose';
+import { Movie } from '../../src/models/Movie';
+import { Rental } from '../../src/models/Rental';
+import {
+  calculateLateFee,
+  extendRental,
+  rentalPolicy,
+  rentMovie,
+  returnMovie
+} from '../../src/services/rentalService';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix, userFixtures } from '../fixtures/sampleMflix';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const database = useTestDatabase();
+
+const [ned, robert] = userFixtures;
+const movieId = (title: string) => movieFixtures.find(movie => movie.title === title)!._id;
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+describe('rentMovie', () => {
+  it('creates an active rental due after the loan period and bumps rentedCount', async () => {
+    const rental = await rentMovie(ned._id.toString(), movieId('The Godfather'));
+
+    expect(rental.status).toBe('active');
+    expect(rental.dueDate.getTime() - rental.rentedAt.getTime()).toBe(rentalPolicy.loanDays * DAY_MS);
+
+    const movie = await Movie.findById(movieId('The Godfather'));
+    expect(movie?.rentedCount).toBe(1);
+    expect(await Rental.countDocuments({ user: ned._id, status: 'active' })).toBe(1);
+  });
+
+  it('refuses when every copy is rented out', async () => {
+    await rentMovie(ned._id, movieId('Gladiator'));
+
+    await expect(rentMovie(robert._id, movieId('Gladiator'))).rejects.toMatchObject({
+      name: 'RentalError',
+      code: 'NO_COPIES_AVAILABLE'
+    });
+    expect((await Movie.findById(movieId('Gladiator')))?.rentedCount).toBe(1);
+  });
+
+  it('enforces the per-user active rental limit', async () => {
+    const titles = movieFixtures.map(movie => movie.title).slice(0, rentalPolicy.maxActiveRentalsPerUser);
+    for (const title of titles) {
+      await rentMovie(ned._id, movieId(title));
+    }
+
+    await expect(rentMovie(ned._id, movieId('Untitled Documentary'))).rejects.toMatchObject({
+      code: 'RENTAL_LIMIT_REACHED'
+    });
+    expect(await Rental.countDocuments({ user: ned._id })).toBe(rentalPolicy.maxActiveRentalsPerUser);
+  });
+
+  it('leaves nothing behind when the transaction aborts', async () => {
+    await expect(rentMovie(ned._id, new Types.ObjectId())).rejects.toMatchObject({ code: 'MOVIE_NOT_FOUND' });
+    await expect(rentMovie(new Types.ObjectId(), movieId('Jurassic Park'))).rejects.toMatchObject({
+      code: 'USER_NOT_FOUND'
+    });
+
+    expect(await Rental.countDocuments()).toBe(0);
+    expect((await Movie.findById(movieId('Jurassic Park')))?.rentedCount).toBe(0);
+  });
+
+  it('lets concurrent rentals of the last copy through only once', async () => {
+    const results = await Promise.allSettled([
+      rentMovie(ned._id, movieId('Gladiator')),
+      rentMovie(robert._id, movieId('Gladiator'))
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await Rental.countDocuments({ movie: movieId('Gladiator'), status: 'active' })).toBe(1);
+  });
+});
+
+describe('returnMovie', () => {
+  it('returns on time without a fee and frees the copy', async () => {
+    const rental = await rentMovie(ned._id, movieId('Gladiator'));
+
+    const returned = await returnMovie(rental._id);
+
+    expect(returned.status).toBe('returned');
+    expect(returned.lateFeeCents).toBe(0);
+    await expect(rentMovie(robert._id, movieId('Gladiator'))).resolves.toBeDefined();
+  });
+
+  it('charges a late fee per started day', async () => {
+    const rental = await rentMovie(ned._id, movieId('Jurassic Park'));
+    const returnedAt = new Date(rental.dueDate.getTime() + 2 * DAY_MS + 60 * 1000);
+
+    const returned = await returnMovie(rental._id, returnedAt);
+
+    expect(returned.lateFeeCents).toBe(3 * rentalPolicy.lateFeeCentsPerDay);
+  });
+
+  it('rejects unknown and already returned rentals', async () => {
+    const rental = await rentMovie(ned._id, movieId('Jurassic Park'));
+    await returnMovie(rental._id);
+
+    await expect(returnMovie(rental._id)).rejects.toMatchObject({ code: 'RENTAL_NOT_ACTIVE' });
+    await expect(returnMovie(new Types.ObjectId())).rejects.toMatchObject({ code: 'RENTAL_NOT_FOUND' });
+  });
+});
+
+describe('extendRental', () => {
+  it('pushes the due date back up to the extension limit', async () => {
+    const rental = await rentMovie(ned._id, movieId('The Godfather'));
+
+    for (let i = 1; i <= rentalPolicy.maxExtensions; i++) {
+      const extended = await extendRental(rental._id);
+      expect(extended.extensions).toBe(i);
+      expect(extended.dueDate.getTime() - rental.dueDate.getTime()).toBe(i * rentalPolicy.extensionDays * DAY_MS);
+    }
+
+    await expect(extendRental(rental._id)).rejects.toMatchObject({ code: 'EXTENSION_LIMIT_REACHED' });
+  });
+
+  it('refuses to extend overdue rentals', async () => {
+    const rental = await rentMovie(ned._id, movieId('The Godfather'));
+    await Rental.updateOne({ _id: rental._id }, { $set: { dueDate: new Date(Date.now() - DAY_MS) } });
+
+    await expect(extendRental(rental._id)).rejects.toMatchObject({ code: 'RENTAL_OVERDUE' });
+  });
+});
+
+describe('calculateLateFee', () => {
+  it('is zero up to the due date', () => {
+    const due = new Date('2024-01-10T12:00:00Z');
+
+    expect(calculateLateFee(due, new Date('2024-01-09T12:00:00Z'))).toBe(0);
+    expect(calculateLateFee(due, due)).toBe(0);
+    expect(calculateLateFee(due, new Date('2024-01-10T12:00:01Z'))).toBe(rentalPolicy.lateFeeCentsPerDay);
+  });
+});
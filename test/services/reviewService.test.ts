@@ -0,0 +1,128 @@
+import { Movie } from '../../src/models/Movie';
+import { Review } from '../../src/models/Review';
+import {
+  createReview,
+  deleteReview,
+  listReviews,
+  recalculateUserRatings,
+  ReviewError,
+  updateReview,
+  voteHelpful
+} from '../../src/services/reviewService';
+import { useTestDatabase } from '../helpers/database';
+import { movieFixtures, seedSampleMflix, userFixtures } from '../fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+const [ned, robert, catelyn] = userFixtures;
+const movieId = (title: string) => movieFixtures.find(movie => movie.title === title)!._id;
+const godfather = movieId('The Godfather');
+
+const ratingOf = async (id = godfather) => (await Movie.findById(id).lean())?.userRating;
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+describe('createReview', () => {
+  it('stores the review and updates the movie average and count', async () => {
+    await createReview(ned._id, godfather, { stars: 5, text: 'An offer I could not refuse' });
+    await createReview(robert._id, godfather, { stars: 4 });
+
+    expect(await ratingOf()).toEqual({ count: 2, total: 9, average: 4.5 });
+  });
+
+  it('allows one review per user and movie', async () => {
+    await createReview(ned._id, godfather, { stars: 5 });
+
+    await expect(createReview(ned._id, godfather, { stars: 1 })).rejects.toMatchObject({ code: 'ALREADY_REVIEWED' });
+    expect(await ratingOf()).toEqual({ count: 1, total: 5, average: 5 });
+  });
+
+  it('rejects stars outside 1-5 without touching the movie', async () => {
+    await expect(createReview(ned._id, godfather, { stars: 6 })).rejects.toThrow(/between 1 and 5/);
+    await expect(createReview(ned._id, godfather, { stars: 3.5 })).rejects.toThrow(/whole number/);
+    expect((await ratingOf())?.count ?? 0).toBe(0);
+  });
+
+  it('reports unknown movies', async () => {
+    const error = await createReview(ned._id, '000000000000000000000000', { stars: 3 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ReviewError);
+    expect(error.code).toBe('MOVIE_NOT_FOUND');
+  });
+});
+
+describe('updateReview / deleteReview', () => {
+  it('moves the total by the change in stars', async () => {
+    const review = await createReview(ned._id, godfather, { stars: 2 });
+    await createReview(robert._id, godfather, { stars: 4 });
+
+    await updateReview(review._id, { stars: 5, text: 'Grew on me' });
+
+    expect(await ratingOf()).toEqual({ count: 2, total: 9, average: 4.5 });
+    expect(await Review.findById(review._id).lean()).toMatchObject({ stars: 5, text: 'Grew on me' });
+  });
+
+  it('takes deleted reviews out of the average', async () => {
+    const review = await createReview(ned._id, godfather, { stars: 2 });
+    await createReview(robert._id, godfather, { stars: 4 });
+
+    await deleteReview(review._id);
+    expect(await ratingOf()).toEqual({ count: 1, total: 4, average: 4 });
+
+    await expect(deleteReview(review._id)).rejects.toMatchObject({ code: 'REVIEW_NOT_FOUND' });
+  });
+
+  it('keeps the aggregate consistent under concurrent reviews', async () => {
+    await Promise.all(userFixtures.map((user, i) => createReview(user._id, godfather, { stars: i + 3 })));
+
+    expect(await ratingOf()).toEqual({ count: 3, total: 12, average: 4 });
+  });
+});
+
+describe('voteHelpful / listReviews', () => {
+  it('counts one vote per voter and never the author\'s own', async () => {
+    const review = await createReview(ned._id, godfather, { stars: 5 });
+
+    expect(await voteHelpful(review._id, robert._id)).toBe(true);
+    expect(await voteHelpful(review._id, robert._id)).toBe(false);
+    expect(await voteHelpful(review._id, ned._id)).toBe(false);
+    expect((await Review.findById(review._id).lean())?.helpfulVotes).toBe(1);
+
+    expect(await voteHelpful(review._id, robert._id, false)).toBe(true);
+    expect((await Review.findById(review._id).lean())?.helpfulVotes).toBe(0);
+  });
+
+  it('lists the most helpful reviews first, with authors, a page at a time', async () => {
+    const nedReview = await createReview(ned._id, godfather, { stars: 5 });
+    const robertReview = await createReview(robert._id, godfather, { stars: 3 });
+    await createReview(catelyn._id, godfather, { stars: 4 });
+    await voteHelpful(robertReview._id, ned._id);
+    await voteHelpful(robertReview._id, catelyn._id);
+    await voteHelpful(nedReview._id, robert._id);
+
+    const first = await listReviews(godfather, { limit: 2 });
+    expect(first.items.map(review => review.stars)).toEqual([3, 5]);
+    expect(first.items[0].user).toMatchObject({ name: 'Robert Baratheon' });
+
+    const second = await listReviews(godfather, { limit: 2, cursor: first.nextCursor! });
+    expect(second.items.map(review => review.stars)).toEqual([4]);
+
+    const lowest = await listReviews(godfather, { sort: 'lowest' });
+    expect(lowest.items.map(review => review.stars)).toEqual([3, 4, 5]);
+  });
+});
+
+describe('recalculateUserRatings', () => {
+  it('repairs drifted aggregates', async () => {
+    await createReview(ned._id, godfather, { stars: 4 });
+    await Movie.updateOne({ _id: godfather }, { $set: { userRating: { count: 7, total: 7, average: 1 } } });
+    await Movie.updateOne({ _id: movieId('Gladiator') }, { $set: { userRating: { count: 1, total: 5, average: 5 } } });
+
+    expect(await recalculateUserRatings()).toBe(2);
+    expect(await ratingOf()).toEqual({ count: 1, total: 4, average: 4 });
+    expect(await ratingOf(movieId('Gladiator'))).toEqual({ count: 0, total: 0, average: null });
+  });
+});
@@ -0,0 +1,76 @@
+import { Movie } from '../../src/models/Movie';
+import { Rental } from '../../src/models/Rental';
+import { Review } from '../../src/models/Review';
+import { User } from '../../src/models/User';
+import { rentalPolicy } from '../../src/services/rentalService';
+import { generateSampleData, SEED_PASSWORD, seedDatabase } from '../../src/services/seeder';
+import { useTestDatabase } from '../helpers/database';
+
+const database = useTestDatabase();
+
+const now = new Date('2025-06-01T00:00:00Z');
+const options = { users: 20, movies: 40, now };
+
+beforeEach(async () => {
+  await database.reset();
+});
+
+describe('generateSampleData', () => {
+  it('gives the same data for the same seed', () => {
+    expect(generateSampleData({ ...options, seed: 7 })).toEqual(generateSampleData({ ...options, seed: 7 }));
+    expect(generateSampleData({ ...options, seed: 7 }).users).not.toEqual(generateSampleData({ ...options, seed: 8 }).users);
+  });
+
+  it('produces documents that pass model validation', () => {
+    const data = generateSampleData(options);
+    const documents = [
+      ...data.users.map(user => new User(user)),
+      ...data.movies.map(movie => new Movie(movie)),
+      ...data.rentals.map(rental => new Rental(rental)),
+      ...data.reviews.map(review => new Review(review))
+    ];
+
+    expect(documents.map(doc => doc.validateSync()).filter(Boolean)).toEqual([]);
+  });
+
+  it('keeps rentals within the policy and movie aggregates in step', () => {
+    const { movies, rentals, reviews } = generateSampleData(options);
+    const active = rentals.filter(rental => rental.status === 'active');
+    const count = (ids: unknown[]) => {
+      const counts = new Map<string, number>();
+      ids.forEach(id => counts.set(String(id), (counts.get(String(id)) ?? 0) + 1));
+      return counts;
+    };
+
+    expect(Math.max(0, ...count(active.map(rental => rental.user)).values())).toBeLessThanOrEqual(rentalPolicy.maxActiveRentalsPerUser);
+    for (const [movieId, rented] of count(active.map(rental => rental.movie))) {
+      expect(rented).toBeLessThanOrEqual(movies.find(movie => String(movie._id) === movieId)!.copies!);
+    }
+    for (const movie of movies) {
+      const own = reviews.filter(review => review.movie.equals(movie._id));
+      expect(movie.rentedCount).toBe(rentals.filter(rental => rental.movie.equals(movie._id)).length);
+      expect(movie.userRating).toMatchObject({ count: own.length, total: own.reduce((sum, review) => sum + review.stars, 0) });
+    }
+    expect(rentals.every(rental => !rental.returnedAt || rental.returnedAt <= now)).toBe(true);
+  });
+});
+
+describe('seedDatabase', () => {
+  it('inserts the generated data with working logins', async () => {
+    const counts = await seedDatabase(options);
+
+    expect(counts).toMatchObject({ users: 20, movies: 40 });
+    expect(await Rental.countDocuments()).toBe(counts.rentals);
+    expect(await Review.countDocuments()).toBe(counts.reviews);
+    const [first] = generateSampleData(options).users;
+    expect(await User.authenticate(first.email, SEED_PASSWORD)).not.toBeNull();
+  });
+
+  it('refuses to mix with existing data unless replacing it', async () => {
+    await seedDatabase(options);
+
+    await expect(seedDatabase(options)).rejects.toMatchObject({ code: 'NOT_EMPTY' });
+    await expect(seedDatabase({ ...options, replace: true })).resolves.toMatchObject({ users: 20 });
+    expect(await User.countDocuments()).toBe(20);
+  });
+});
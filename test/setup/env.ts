@@ -0,0 +1,2 @@
+// Keep bcrypt cheap in tests; read by src/lib/password at import time
+process.env.PASSWORD_SALT_ROUNDS = '4';
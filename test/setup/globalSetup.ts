@@ -0,0 +1,18 @@
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
+
+declare global {
+  var __MONGO_REPL_SET__: MongoMemoryReplSet | undefined;
+}
+
+// Set MONGODB_TEST_URI to run against an existing replica set instead
+export default async function globalSetup() {
+  if (process.env.MONGODB_TEST_URI) {
+    return;
+  }
+
+  const replSet = await MongoMemoryReplSet.create({
+    replSet: { count: 1, storageEngine: 'wiredTiger' }
+  });
+  globalThis.__MONGO_REPL_SET__ = replSet;
+  process.env.MONGODB_TEST_URI = replSet.getUri();
+}
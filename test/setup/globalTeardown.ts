@@ -0,0 +1,3 @@
+export default async function globalTeardown() {
+  await globalThis.__MONGO_REPL_SET__?.stop();
+}
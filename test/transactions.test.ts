@@ -0,0 +1,78 @@
+import { ObjectId } from 'mongodb';
+import {
+  basicTransactionExample,
+  batchOperationsTransaction,
+  manualTransactionExample,
+  movieRentalTransaction,
+  transactionWithRetry,
+  userProfileUpdateTransaction
+} from '../src/index';
+import { useTestDatabase } from './helpers/database';
+import { seedSampleMflix } from './fixtures/sampleMflix';
+
+const database = useTestDatabase();
+
+// The examples narrate what they do; keep the test output readable
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(async () => {
+  await database.reset();
+  await seedSampleMflix(database.db);
+});
+
+describe('transaction examples', () => {
+  it('basicTransactionExample inserts both documents', async () => {
+    await basicTransactionExample(database.client, database.name);
+
+    const names = await database.db.collection('transaction_test').distinct('name');
+    expect(names.sort()).toEqual(['Transaction Test 1', 'Transaction Test 2']);
+  });
+
+  it('movieRentalTransaction records a rental and updates the movie', async () => {
+    await movieRentalTransaction(database.client, database.name);
+
+    const [rental] = await database.db.collection('rentals').find().toArray();
+    expect(rental).toMatchObject({ status: 'active', user: expect.any(ObjectId), extensions: 0 });
+
+    const movie = await database.db.collection('movies').findOne({ _id: rental.movie });
+    expect(movie).toMatchObject({ rentedCount: 1, lastRented: expect.any(Date) });
+  });
+
+  it('userProfileUpdateTransaction updates the user and logs the activity', async () => {
+    await userProfileUpdateTransaction(database.client, database.name);
+
+    const [activity] = await database.db.collection('user_activity').find().toArray();
+    expect(activity).toMatchObject({ action: 'profile_update' });
+
+    const user = await database.db.collection('users').findOne({ _id: activity.userId });
+    expect(user).toMatchObject({ loginCount: 1, lastLogin: expect.any(Date) });
+  });
+
+  it('batchOperationsTransaction writes the batch and upserts the summary', async () => {
+    await batchOperationsTransaction(database.client, database.name);
+    await batchOperationsTransaction(database.client, database.name);
+
+    const batch = database.db.collection('batch_operations');
+    expect(await batch.countDocuments({ type: { $ne: 'summary' } })).toBe(6);
+    expect(await batch.findOne({ type: 'summary' })).toMatchObject({ totalOrders: 2, totalRevenue: 200 });
+  });
+
+  it('manualTransactionExample commits its document', async () => {
+    await manualTransactionExample(database.client, database.name);
+
+    expect(await database.db.collection('manual_transaction_test').countDocuments()).toBe(1);
+  });
+
+  it('transactionWithRetry succeeds on the first attempt', async () => {
+    await transactionWithRetry(database.client, database.name);
+
+    const [doc] = await database.db.collection('retry_test').find().toArray();
+    expect(doc).toMatchObject({ attempt: 1, message: 'Transaction with retry' });
+  });
+});